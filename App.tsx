@@ -1,10 +1,55 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { generateHeadlineVariations, generateThumbnailPrompt, generateFinalImage } from './services/geminiService';
-import { Step, AppState, UploadedImage, TextElement, HeadlineVariation } from './types';
-import { FONTS, STYLES } from './constants';
+import { generateHeadlineVariations, generateThumbnailPrompt, generateFinalImage, generateImageCandidates, editImageRegion, critiqueHeadlines, generateThumbnailTexts } from './services/geminiService';
+import { createProvider, isMockForced, isProviderConfigured, loadProviderSettings, saveProviderSettings } from './services/providers';
+import { measureTextElementHeight, renderComposition } from './services/compositionRenderer';
+import { applyHeadline, copyTextElements, createVariant, exportVariantSet, nextVariantLabel, syncActiveVariant } from './services/variants';
+import { downloadBlob, readFileAsDataUrl, slugify } from './services/fileUtils';
+import { encodeWithinBudget, loadExportSettings } from './services/exportImage';
+import { createFormat, deriveFormat, exportFormatSet, syncActiveFormat } from './services/formats';
+import { ReframedComposition, reframeComposition } from './services/reframe';
+import { translateComposition } from './services/translation';
+import { createMaskFromPaint } from './services/mask';
+import { mergeCritique, scoreHeadline, sortByScore } from './services/headlineScoring';
+import { loadImage, toDataUrl } from './services/imageUtils';
+import { findGuideIntrusions, parseAspectRatio } from './services/safeZones';
+import { SelectionRect, selectionOf, expandToGroups, toggleInSelection, normalizeRect, elementsInRect, duplicateElements, groupElements, ungroupElements } from './services/selection';
+import { createImageLayer, createShapeLayer, getInteractiveElements, getVisibleElements, isTextLayer, moveLayer } from './services/layers';
+import { stickerToDataUrl } from './services/shapes';
+import { AlignMode, DistributeAxis, SnapGuides, alignElements, distributeElements, nudgeElements, snapPosition } from './services/alignment';
+import { autosaveProject, createProjectId, projectDataFromState } from './services/projectStorage';
+import { Translate, aspectRatioLabelKey, getErrorMessage, stickerLabelKey, styleLabelKey } from './services/i18n';
+import { Step, AppState, UploadedImage, TextElement, Layer, ShapeKind, StickerDefinition, HeadlineVariation, ProviderSettings, AspectRatio, EditorSnapshot, ThumbnailProject, GuideOptions, ExportSettings, ReframeMode, ImageAdjustments, ContentLanguage, UiLanguage } from './types';
+import { FONTS, STYLES, ASPECT_RATIO_OPTIONS, DEFAULT_IMAGE_ADJUSTMENTS, CONTENT_LANGUAGE_OPTIONS, UI_LANGUAGE_OPTIONS } from './constants';
 import StepCard from './components/StepCard';
 import LoadingSpinner from './components/LoadingSpinner';
 import PromptDisplay from './components/PromptDisplay';
+import ProviderSettingsCard from './components/ProviderSettingsCard';
+import ProjectsPanel from './components/ProjectsPanel';
+import ImageGrid from './components/ImageGrid';
+import VariantsPanel from './components/VariantsPanel';
+import FormatsPanel from './components/FormatsPanel';
+import ReframePanel from './components/ReframePanel';
+import MaskCanvas, { MaskTool } from './components/MaskCanvas';
+import MaskToolbar from './components/MaskToolbar';
+import CutoutEditor from './components/CutoutEditor';
+import YouTubePreview from './components/YouTubePreview';
+import EditorGuides from './components/EditorGuides';
+import GuidesToolbar from './components/GuidesToolbar';
+import AlignmentToolbar from './components/AlignmentToolbar';
+import LayersPanel from './components/LayersPanel';
+import AddLayerMenu from './components/AddLayerMenu';
+import PictureLayerControls from './components/PictureLayerControls';
+import WordStyleEditor from './components/WordStyleEditor';
+import CompositionCanvas from './components/CompositionCanvas';
+import ExportDialog from './components/ExportDialog';
+import HeadlineOption from './components/HeadlineOption';
+import HeadlineRefinementBar from './components/HeadlineRefinementBar';
+import ThumbnailTextPicker from './components/ThumbnailTextPicker';
+import TranslatePanel from './components/TranslatePanel';
+import AdjustmentsPanel from './components/AdjustmentsPanel';
+import { useHistory } from './hooks/useHistory';
+import { useAdjustedImage } from './hooks/useAdjustedImage';
+import { useI18n } from './hooks/useI18n';
 
 const highlightKeywords = (text: string, keywords: string[]) => {
   if (!keywords || keywords.length === 0) {
@@ -35,45 +80,126 @@ const highlightKeywords = (text: string, keywords: string[]) => {
   );
 };
 
+const initialAppState: AppState = {
+  currentStep: Step.HEADLINE_INPUT,
+  originalHeadline: '',
+  contentLanguage: 'pt-BR',
+  headlineVariations: [],
+  headlineHistory: [],
+  selectedHeadline: '',
+  thumbnailText: '',
+  thumbnailTextOptions: [],
+  selectedStyle: '',
+  uploadedImages: [],
+  finalPrompt: null,
+  generatedImage: null,
+  imageCandidates: [],
+  imageGallery: [],
+  isLoading: false,
+  error: null,
+  textElements: [],
+  activeTextElementId: null,
+  selectedTextElementIds: [],
+  aspectRatio: '16:9',
+  variants: [],
+  activeVariantId: null,
+  formats: [],
+  activeFormatId: null,
+  imageAdjustments: DEFAULT_IMAGE_ADJUSTMENTS,
+};
+
+const MAX_GALLERY_SIZE = 24;
+const CANDIDATE_COUNT_OPTIONS = [1, 2, 3, 4];
+
+type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se' | 'e' | 'w' | 's';
+
+const NUDGE_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+const addToGallery = (gallery: string[], images: string[]) =>
+  [...images, ...gallery.filter(image => !images.includes(image))].slice(0, MAX_GALLERY_SIZE);
+
+const createDefaultTextElement = (headline: string): TextElement => ({
+  id: `text-${Date.now()}`,
+  text: headline.toUpperCase(),
+  fontFamily: FONTS[0].value, // Anton for impact
+  fontSize: 80,
+  color: '#FFFFFF',
+  strokeColor: '#000000',
+  strokeWidth: 4,
+  position: { x: 50, y: 50 }, // Start near top-left
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  shadowColor: '#000000',
+  shadowBlur: 5,
+  shadowOffsetX: 3,
+  shadowOffsetY: 3,
+  useGradient: false,
+  gradientColor1: '#FFFF00',
+  gradientColor2: '#FF8A00',
+  gradientAngle: 90,
+  rotation: 0,
+  width: 700,
+  height: 100, // Initial estimate
+  textAlign: 'left',
+});
+
 // Helper function to create more user-friendly API error messages
-const getApiErrorMessage = (error: unknown, contextMessage: string): string => {
+const getApiErrorMessage = (error: unknown, contextMessage: string, t: Translate): string => {
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
     if (message.includes("quota") || message.includes("resource_exhausted") || message.includes("429")) {
-      return "Você excedeu sua cota de uso da API do Gemini. Verifique se sua chave de API está configurada com um plano de faturamento no Google AI Studio ou Google Cloud, pois a API gratuita tem limites rígidos.";
+      return t('errors.quota');
     }
      if (message.includes("api key not valid")) {
-      return "Sua chave de API parece ser inválida. Verifique se copiou a chave corretamente.";
+      return t('errors.invalidApiKey');
     }
-    // Return the original error message if it exists, otherwise the context message
-    return error.message || contextMessage;
   }
-  return contextMessage;
+  return getErrorMessage(error, contextMessage, t);
 };
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>({
-    currentStep: Step.HEADLINE_INPUT,
-    originalHeadline: '',
-    headlineVariations: [],
-    selectedHeadline: '',
-    selectedStyle: '',
-    uploadedImages: [],
-    finalPrompt: null,
-    generatedImage: null,
-    isLoading: false,
-    error: null,
-    textElements: [],
-    activeTextElementId: null,
-    aspectRatio: '16:9',
-  });
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('gemini-api-key') || '');
-  const [tempApiKey, setTempApiKey] = useState(() => localStorage.getItem('gemini-api-key') || '');
+  const { t, language, setLanguage } = useI18n();
+  const [appState, setAppState] = useState<AppState>(initialAppState);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [customStyle, setCustomStyle] = useState('');
   const [modificationPrompt, setModificationPrompt] = useState('');
+  const [candidateCount, setCandidateCount] = useState(2);
+  const [guideOptions, setGuideOptions] = useState<GuideOptions>({
+    enabled: true,
+    durationBadge: true,
+    ruleOfThirds: false,
+    centerLines: false,
+    safeArea: true,
+    cropFrames: [],
+  });
+  const history = useHistory<EditorSnapshot>();
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectsRefreshKey, setProjectsRefreshKey] = useState(0);
+  // Set when a project is opened so merely viewing it doesn't bump its edit date
+  const skipNextAutosave = useRef(false);
   const imageRef = useRef<HTMLImageElement>(null);
-  const textElementRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const previewContainerRef = useRef<HTMLDivElement>(null);
+  const [previewWidth, setPreviewWidth] = useState(0);
+  const [previewHeight, setPreviewHeight] = useState(0);
+  const [snapGuides, setSnapGuides] = useState<SnapGuides>({ x: [], y: [] });
+  const [marquee, setMarquee] = useState<SelectionRect | null>(null);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isDerivingFormat, setIsDerivingFormat] = useState(false);
+  const [isCritiquingHeadlines, setIsCritiquingHeadlines] = useState(false);
+  const [isRegeneratingHeadlines, setIsRegeneratingHeadlines] = useState(false);
+  const [isGeneratingThumbnailTexts, setIsGeneratingThumbnailTexts] = useState(false);
+  // Masking is on while a tool is picked; the painted area lives on the overlay canvas
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [cutoutIndex, setCutoutIndex] = useState<number | null>(null);
 
   const dragInfo = useRef({
     isDragging: false,
@@ -84,61 +210,188 @@ const App: React.FC = () => {
     const resizeInfo = useRef({
     isResizing: false,
     elementId: null as string | null,
-    handle: null as 'nw' | 'ne' | 'sw' | 'se' | 'e' | 'w' | null,
+    handle: null as ResizeHandle | null,
     startPos: { x: 0, y: 0 },
     startFontSize: 0,
     startWidth: 0,
+    startHeight: 0,
     startRotation: 0,
     startPosition: { x: 0, y: 0 },
   });
 
-  const textElementDeps = JSON.stringify(appState.textElements.map(el => ({ id: el.id, text: el.text, width: el.width, fontSize: el.fontSize, lineHeight: el.lineHeight, letterSpacing: el.letterSpacing, fontFamily: el.fontFamily })));
-
+  // Text positions are stored in preview pixels, so renderers need the preview width
   useEffect(() => {
-    const timeoutId = setTimeout(() => {
-        let needsUpdate = false;
-        const updates: Record<string, { height: number }> = {};
-
-        appState.textElements.forEach(el => {
-            const node = textElementRefs.current[el.id];
-            if (node) {
-                const currentHeight = node.scrollHeight;
-                if (currentHeight > 0 && Math.abs(currentHeight - el.height) > 1) {
-                    updates[el.id] = { height: currentHeight };
-                    needsUpdate = true;
-                }
-            }
-        });
+    const node = previewContainerRef.current;
+    if (!node) return;
+    const observer = new ResizeObserver(entries => {
+      setPreviewWidth(entries[0].contentRect.width);
+      setPreviewHeight(entries[0].contentRect.height);
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [appState.currentStep, !!appState.generatedImage]);
 
-        if (needsUpdate) {
-            setAppState(prev => ({
-                ...prev,
-                textElements: prev.textElements.map(el =>
-                    updates[el.id] ? { ...el, ...updates[el.id] } : el
-                ),
-            }));
-        }
-    }, 50);
+  const textElementDeps = JSON.stringify(appState.textElements.filter(isTextLayer).map(el => ({ id: el.id, text: el.text, width: el.width, fontSize: el.fontSize, lineHeight: el.lineHeight, letterSpacing: el.letterSpacing, fontFamily: el.fontFamily, runs: el.runs })));
 
-    return () => clearTimeout(timeoutId);
+  // Text height follows its content, laid out exactly as the renderer draws it
+  useEffect(() => {
+    const updates: Record<string, number> = {};
+    appState.textElements.filter(isTextLayer).forEach(el => {
+      const height = measureTextElementHeight(el);
+      if (height > 0 && Math.abs(height - el.height) > 1) updates[el.id] = height;
+    });
+
+    if (Object.keys(updates).length > 0) {
+      setAppState(prev => ({
+        ...prev,
+        textElements: prev.textElements.map(el =>
+          updates[el.id] !== undefined ? { ...el, height: updates[el.id] } : el
+        ),
+      }));
+    }
   }, [textElementDeps]); // Intentionally using the stringified dependency
 
 
-  const handleSaveApiKey = (e: React.FormEvent) => {
-    e.preventDefault();
-    const trimmedKey = tempApiKey.trim();
-    if (trimmedKey) {
-        localStorage.setItem('gemini-api-key', trimmedKey);
-        setApiKey(trimmedKey);
-        // Clear any previous errors when a new key is saved
-        setAppState(prev => ({ ...prev, error: null }));
+  const provider = useMemo(
+    () => isProviderConfigured(providerSettings) ? createProvider(providerSettings) : null,
+    [providerSettings]
+  );
+
+  const getEditorSnapshot = (): EditorSnapshot => ({
+    textElements: appState.textElements,
+    generatedImage: appState.generatedImage,
+    aspectRatio: appState.aspectRatio,
+    variants: appState.variants,
+    activeVariantId: appState.activeVariantId,
+    formats: appState.formats,
+    activeFormatId: appState.activeFormatId,
+    imageAdjustments: appState.imageAdjustments,
+  });
+
+  const applyEditorSnapshot = (snapshot: EditorSnapshot) => {
+    setAppState(prev => ({
+      ...prev,
+      textElements: snapshot.textElements,
+      generatedImage: snapshot.generatedImage,
+      aspectRatio: snapshot.aspectRatio,
+      variants: snapshot.variants,
+      activeVariantId: snapshot.activeVariantId,
+      formats: snapshot.formats,
+      activeFormatId: snapshot.activeFormatId,
+      imageAdjustments: snapshot.imageAdjustments,
+      ...selectionOf(prev.selectedTextElementIds.filter(id => snapshot.textElements.some(el => el.id === id))),
+    }));
+  };
+
+  const handleUndo = () => {
+    const snapshot = history.undo(getEditorSnapshot());
+    if (snapshot) applyEditorSnapshot(snapshot);
+  };
+
+  const handleRedo = () => {
+    const snapshot = history.redo(getEditorSnapshot());
+    if (snapshot) applyEditorSnapshot(snapshot);
+  };
+
+  const shortcutsRef = useRef({ handleUndo, handleRedo, handleNudge: (_dx: number, _dy: number) => {}, handleRemove: () => {} });
+
+  useEffect(() => {
+    if (appState.currentStep !== Step.TEXT_EDITING) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Arrows and Delete keep their meaning inside form controls (caret, sliders, selects)
+      const isFormControl = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      const nudge = NUDGE_DIRECTIONS[e.key];
+      if (nudge && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (isFormControl) return;
+        const step = e.shiftKey ? 10 : 1;
+        e.preventDefault();
+        shortcutsRef.current.handleNudge(nudge.x * step, nudge.y * step);
+        return;
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && !isFormControl) {
+        e.preventDefault();
+        shortcutsRef.current.handleRemove();
+        return;
+      }
+
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave native undo alone while typing in text fields
+      const isTextField = target.tagName === 'TEXTAREA'
+        || (target instanceof HTMLInputElement && !['range', 'checkbox', 'color', 'button'].includes(target.type));
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutsRef.current.handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [appState.currentStep]);
+
+  const projectData = useMemo(() => projectDataFromState(appState), [
+    appState.currentStep, appState.originalHeadline, appState.contentLanguage, appState.headlineVariations, appState.headlineHistory, appState.selectedHeadline,
+    appState.thumbnailText, appState.thumbnailTextOptions,
+    appState.selectedStyle, appState.uploadedImages, appState.finalPrompt, appState.generatedImage,
+    appState.textElements, appState.aspectRatio, appState.variants, appState.activeVariantId,
+    appState.formats, appState.activeFormatId, appState.imageAdjustments,
+  ]);
+
+  // Autosave to IndexedDB once there is something worth keeping
+  useEffect(() => {
+    if (!projectData.originalHeadline || appState.isLoading) return;
+    if (skipNextAutosave.current) {
+      skipNextAutosave.current = false;
+      return;
     }
+
+    const projectId = currentProjectId ?? createProjectId();
+    if (!currentProjectId) setCurrentProjectId(projectId);
+
+    const timeoutId = setTimeout(() => {
+      autosaveProject(projectId, projectData, t('projects.untitled'))
+        .then(() => setProjectsRefreshKey(key => key + 1))
+        .catch(err => console.error("Failed to autosave project:", err));
+    }, 800);
+
+    return () => clearTimeout(timeoutId);
+  }, [projectData, appState.isLoading, currentProjectId]);
+
+  const handleOpenProject = (project: ThumbnailProject) => {
+    history.clear();
+    skipNextAutosave.current = true;
+    setCurrentProjectId(project.id);
+    setAppState({
+      ...initialAppState,
+      ...project.data,
+      imageGallery: project.data.generatedImage ? [project.data.generatedImage] : [],
+      ...selectionOf([]),
+    });
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    // Keep working on the open thumbnail, but as a new project from now on
+    if (id === currentProjectId) setCurrentProjectId(null);
+  };
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    // Clear any previous errors when new settings are saved
+    setAppState(prev => ({ ...prev, error: null }));
   };
 
   const handleHeadlineSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!apiKey) {
-      setAppState(prev => ({ ...prev, error: 'Por favor, insira e salve sua chave de API do Google Gemini para continuar.' }));
+    if (!provider) {
+      setAppState(prev => ({ ...prev, error: t('errors.missingProvider') }));
       return;
     }
     const formData = new FormData(e.currentTarget);
@@ -148,16 +401,17 @@ const App: React.FC = () => {
     setAppState(prev => ({ ...prev, isLoading: true, error: null, originalHeadline: headline }));
 
     try {
-      const variations = await generateHeadlineVariations(headline, apiKey);
+      const { variations, history } = await generateHeadlineVariations(headline, provider, { language: appState.contentLanguage });
       setAppState(prev => ({
         ...prev,
         isLoading: false,
         headlineVariations: variations,
+        headlineHistory: history,
         currentStep: Step.HEADLINE_SELECTION,
       }));
     } catch (err) {
       console.error(err);
-      const errorMessage = getApiErrorMessage(err, 'Falha ao gerar variações de headline. Tente novamente.');
+      const errorMessage = getApiErrorMessage(err, t('errors.headlines'), t);
       setAppState(prev => ({
         ...prev,
         isLoading: false,
@@ -166,12 +420,117 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRegenerateHeadlines = async (refinement?: string) => {
+    if (!provider) {
+      setAppState(prev => ({ ...prev, error: t('errors.missingProvider') }));
+      return;
+    }
+    setIsRegeneratingHeadlines(true);
+    setAppState(prev => ({ ...prev, error: null }));
+    try {
+      const { variations, history } = await generateHeadlineVariations(appState.originalHeadline, provider, {
+        history: appState.headlineHistory,
+        refinement,
+        favourites: appState.headlineVariations.filter(v => v.pinned).map(v => v.text),
+        language: appState.contentLanguage,
+      });
+      setAppState(prev => {
+        const pinned = prev.headlineVariations.filter(v => v.pinned);
+        // The model is told not to repeat itself, but don't trust it with that
+        const seen = new Set([prev.originalHeadline, ...pinned.map(v => v.text)].map(text => text.trim().toLowerCase()));
+        const fresh = variations.filter(v => {
+          const key = v.text.trim().toLowerCase();
+          if (!key || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        return { ...prev, headlineVariations: [...pinned, ...fresh], headlineHistory: history };
+      });
+    } catch (err) {
+      console.error(err);
+      setAppState(prev => ({ ...prev, error: getApiErrorMessage(err, t('errors.regenerateHeadlines'), t) }));
+    } finally {
+      setIsRegeneratingHeadlines(false);
+    }
+  };
+
+  const handleTogglePinHeadline = (text: string) => {
+    setAppState(prev => ({
+      ...prev,
+      headlineVariations: prev.headlineVariations.map(v => v.text === text ? { ...v, pinned: !v.pinned } : v),
+    }));
+  };
+
+  // Edited options are pinned so a new round doesn't throw the edit away. The
+  // original headline stays as typed; its edit becomes a new option.
+  const handleEditHeadline = (text: string, newText: string) => {
+    const edited = (keywords: string[]): HeadlineVariation => ({
+      text: newText,
+      keywords: keywords.filter(kw => newText.toLowerCase().includes(kw.toLowerCase())),
+      score: scoreHeadline(newText, appState.contentLanguage),
+      pinned: true,
+    });
+    setAppState(prev => {
+      const existing = prev.headlineVariations.find(v => v.text === text);
+      if (prev.headlineVariations.some(v => v.text === newText) || newText === prev.originalHeadline) return prev;
+      return {
+        ...prev,
+        headlineVariations: existing
+          ? prev.headlineVariations.map(v => v === existing ? edited(v.keywords) : v)
+          : [edited([]), ...prev.headlineVariations],
+      };
+    });
+  };
+
+  const handleCritiqueHeadlines = async () => {
+    if (!provider) {
+      setAppState(prev => ({ ...prev, error: t('errors.missingProvider') }));
+      return;
+    }
+    setIsCritiquingHeadlines(true);
+    try {
+      const critiques = await critiqueHeadlines(appState.headlineVariations.map(v => v.text), provider, appState.contentLanguage, language);
+      setAppState(prev => ({
+        ...prev,
+        headlineVariations: prev.headlineVariations.map((variation, index) => {
+          const critique = critiques.find(c => c.text?.trim() === variation.text.trim())
+            ?? (critiques.length === prev.headlineVariations.length ? critiques[index] : undefined);
+          // Merged into a fresh local score, so asking again doesn't compound
+          return critique ? { ...variation, score: mergeCritique(scoreHeadline(variation.text, prev.contentLanguage), critique) } : variation;
+        }),
+      }));
+    } catch (err) {
+      console.error("Failed to critique headlines:", err);
+      setAppState(prev => ({ ...prev, error: getApiErrorMessage(err, t('errors.critique'), t) }));
+    } finally {
+      setIsCritiquingHeadlines(false);
+    }
+  };
+
+  const handleGenerateThumbnailTexts = async (title: string) => {
+    if (!provider) return;
+    setIsGeneratingThumbnailTexts(true);
+    try {
+      const options = await generateThumbnailTexts(title, provider, appState.contentLanguage);
+      // Ignore answers for a title that is no longer the selected one
+      setAppState(prev => prev.selectedHeadline === title ? { ...prev, thumbnailTextOptions: options } : prev);
+    } catch (err) {
+      console.error("Failed to generate thumbnail texts:", err);
+      setAppState(prev => ({ ...prev, error: getApiErrorMessage(err, t('errors.thumbnailTexts'), t) }));
+    } finally {
+      setIsGeneratingThumbnailTexts(false);
+    }
+  };
+
   const handleHeadlineSelection = (headline: string) => {
     setAppState(prev => ({
       ...prev,
       selectedHeadline: headline,
+      thumbnailText: '',
+      thumbnailTextOptions: [],
       currentStep: Step.STYLE_SELECTION,
     }));
+    handleGenerateThumbnailTexts(headline);
   };
 
   const handleStyleSelection = (style: string) => {
@@ -211,12 +570,24 @@ const App: React.FC = () => {
       })
       .catch(err => {
         console.error("Error reading files:", err);
-        setAppState(prev => ({ ...prev, error: "Falha ao carregar uma ou mais imagens." }));
+        setAppState(prev => ({ ...prev, error: t('errors.uploadImages') }));
       });
 
     e.target.value = ''; // Allow re-uploading the same file(s)
   };
 
+  const handleSaveCutout = (cutout: UploadedImage, replaceOriginal: boolean) => {
+    const index = cutoutIndex;
+    setCutoutIndex(null);
+    if (index === null) return;
+    setAppState(prev => ({
+      ...prev,
+      uploadedImages: replaceOriginal
+        ? prev.uploadedImages.map((image, i) => i === index ? cutout : image)
+        : [...prev.uploadedImages.slice(0, index + 1), cutout, ...prev.uploadedImages.slice(index + 1)],
+    }));
+  };
+
   const handleRemoveImage = (indexToRemove: number) => {
     setAppState(prev => ({
       ...prev,
@@ -226,86 +597,277 @@ const App: React.FC = () => {
 
 
   const handleGenerateFinalImage = async () => {
-    if (!apiKey) {
-      setAppState(prev => ({ ...prev, error: 'Por favor, insira e salve sua chave de API do Google Gemini para continuar.' }));
+    if (!provider) {
+      setAppState(prev => ({ ...prev, error: t('errors.missingProvider') }));
       return;
     }
     setAppState(prev => ({ ...prev, isLoading: true, error: null, currentStep: Step.PROMPT_GENERATION }));
     try {
-      setLoadingMessage('Gerando prompt de arte...');
+      setLoadingMessage(t('loading.prompt'));
       const promptResult = await generateThumbnailPrompt(
         appState.selectedHeadline,
         appState.selectedStyle,
         appState.uploadedImages,
-        apiKey
+        provider,
+        appState.contentLanguage
       );
       setAppState(prev => ({ ...prev, finalPrompt: promptResult }));
 
-      setLoadingMessage('Criando sua thumbnail mágica...');
-      const generatedImageBase64 = await generateFinalImage(
+      setLoadingMessage(candidateCount > 1 ? t('loading.candidates', { count: candidateCount }) : t('loading.candidate'));
+      const candidates = await generateImageCandidates(
         promptResult.englishPrompt,
-        apiKey,
+        provider,
         appState.uploadedImages,
-        appState.aspectRatio as any
+        appState.aspectRatio as AspectRatio,
+        candidateCount
       );
 
-      const defaultTextElement: TextElement = {
-        id: `text-${Date.now()}`,
-        text: appState.selectedHeadline.toUpperCase(),
-        fontFamily: FONTS[0].value, // Anton for impact
-        fontSize: 80,
-        color: '#FFFFFF',
-        strokeColor: '#000000',
-        strokeWidth: 4,
-        position: { x: 50, y: 50 }, // Start near top-left
-        letterSpacing: 0,
-        lineHeight: 1.2,
-        shadowColor: '#000000',
-        shadowBlur: 5,
-        shadowOffsetX: 3,
-        shadowOffsetY: 3,
-        useGradient: false,
-        gradientColor1: '#FFFF00',
-        gradientColor2: '#FF8A00',
-        gradientAngle: 90,
-        rotation: 0,
-        width: 700,
-        height: 100, // Initial estimate
-        textAlign: 'left',
-      };
-
       setAppState(prev => ({
         ...prev,
         isLoading: false,
-        generatedImage: generatedImageBase64,
-        currentStep: Step.TEXT_EDITING,
-        textElements: [defaultTextElement],
-        activeTextElementId: defaultTextElement.id,
+        imageCandidates: candidates,
+        imageGallery: addToGallery(prev.imageGallery, candidates),
       }));
 
     } catch (err) {
       console.error(err);
-      const errorMessage = getApiErrorMessage(err, 'Falha ao gerar a thumbnail. Tente novamente.');
+      const errorMessage = getApiErrorMessage(err, t('errors.generateImage'), t);
       setAppState(prev => ({
         ...prev,
         isLoading: false,
         error: errorMessage,
-        currentStep: Step.IMAGE_UPLOAD,
+        // Regenerating from the editor falls back to the image that was already there
+        currentStep: prev.generatedImage ? Step.TEXT_EDITING : Step.IMAGE_UPLOAD,
       }));
     } finally {
       setLoadingMessage('');
     }
   };
 
+  const handleSelectCandidate = (image: string) => {
+    // Regenerating from the editor keeps the current text layout and can be undone
+    const hasLayout = appState.textElements.length > 0;
+    if (hasLayout) {
+      history.record(getEditorSnapshot());
+    } else {
+      history.clear();
+    }
+    const defaultTextElement = hasLayout ? null : createDefaultTextElement(appState.thumbnailText || appState.selectedHeadline);
+
+    setAppState(prev => ({
+      ...prev,
+      generatedImage: image,
+      imageCandidates: [],
+      currentStep: Step.TEXT_EDITING,
+      textElements: defaultTextElement ? [defaultTextElement] : prev.textElements,
+      ...(defaultTextElement && selectionOf([defaultTextElement.id])),
+    }));
+  };
+
+  const handleCancelCandidates = () => {
+    setAppState(prev => ({ ...prev, imageCandidates: [], currentStep: Step.TEXT_EDITING }));
+  };
+
+  const handleSelectGalleryImage = (image: string) => {
+    if (image === appState.generatedImage) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, generatedImage: image }));
+  };
+
+  const handleEnableVariants = () => {
+    history.record(getEditorSnapshot());
+    const variant = createVariant('A', appState.selectedHeadline, appState.generatedImage, appState.textElements);
+    setAppState(prev => ({ ...prev, variants: [variant], activeVariantId: variant.id }));
+  };
+
+  const handleDisableVariants = () => {
+    // The composition open in the editor stays as the single thumbnail
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, variants: [], activeVariantId: null }));
+  };
+
+  const handleAddVariant = () => {
+    const label = nextVariantLabel(appState.variants);
+    if (!label) return;
+    history.record(getEditorSnapshot());
+
+    // Prefer a headline no other variant uses yet
+    const usedHeadlines = new Set(syncedVariants.map(v => v.headline));
+    const headline = (headlineOptions.find(h => !usedHeadlines.has(h.text)) ?? headlineOptions[0]).text;
+    const variant = createVariant(label, headline, appState.generatedImage, applyHeadline(copyTextElements(appState.textElements), activeHeadline, headline));
+
+    setAppState(prev => ({
+      ...prev,
+      variants: [...syncActiveVariant(prev), variant],
+      activeVariantId: variant.id,
+      generatedImage: variant.generatedImage,
+      textElements: variant.textElements,
+      ...selectionOf([]),
+    }));
+  };
+
+  const handleSelectVariant = (id: string) => {
+    const target = appState.variants.find(v => v.id === id);
+    if (!target || id === appState.activeVariantId) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      variants: syncActiveVariant(prev),
+      activeVariantId: id,
+      generatedImage: target.generatedImage,
+      textElements: target.textElements,
+      ...selectionOf([]),
+    }));
+  };
+
+  const handleRemoveVariant = (id: string) => {
+    const remaining = syncedVariants.filter(v => v.id !== id);
+    if (remaining.length === 0) return;
+    history.record(getEditorSnapshot());
+    const next = id === appState.activeVariantId ? remaining[0] : null;
+    setAppState(prev => ({
+      ...prev,
+      variants: remaining,
+      ...(next && {
+        activeVariantId: next.id,
+        generatedImage: next.generatedImage,
+        textElements: next.textElements,
+        ...selectionOf([]),
+      }),
+    }));
+  };
+
+  const handleChangeVariantHeadline = (headline: string) => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      textElements: applyHeadline(prev.textElements, prev.variants.find(v => v.id === prev.activeVariantId)?.headline ?? '', headline),
+      variants: prev.variants.map(v => v.id === prev.activeVariantId ? { ...v, headline } : v),
+    }));
+  };
+
+  const handleExportVariants = async (setName: string) => {
+    try {
+      await exportVariantSet(slugify(setName), syncedVariants, previewWidth, {
+        aspectRatio: appState.aspectRatio,
+        style: appState.selectedStyle,
+      }, loadExportSettings(), appState.imageAdjustments);
+    } catch (err) {
+      console.error("Failed to export variants:", err);
+      setAppState(prev => ({ ...prev, error: getErrorMessage(err, t('errors.exportVariants'), t) }));
+    }
+  };
+
+  const handleEnableFormats = () => {
+    history.record(getEditorSnapshot());
+    const master = createFormat(appState.aspectRatio as AspectRatio, 'master', appState.generatedImage, appState.textElements);
+    setAppState(prev => ({ ...prev, formats: [master], activeFormatId: master.id }));
+  };
+
+  const handleDisableFormats = () => {
+    // Back to the master as the single thumbnail
+    const master = syncedFormats[0];
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      formats: [],
+      activeFormatId: null,
+      generatedImage: master.generatedImage,
+      textElements: master.textElements,
+      aspectRatio: master.aspectRatio,
+      ...selectionOf([]),
+    }));
+  };
+
+  const handleAddFormat = async (aspectRatio: AspectRatio, source: ReframeMode) => {
+    setIsDerivingFormat(true);
+    setAppState(prev => ({ ...prev, error: null }));
+    try {
+      const format = await deriveFormat(syncedFormats[0], aspectRatio, source, previewWidth, provider);
+      history.record(getEditorSnapshot());
+      setAppState(prev => ({
+        ...prev,
+        formats: [...syncActiveFormat(prev), format],
+        activeFormatId: format.id,
+        generatedImage: format.generatedImage,
+        textElements: format.textElements,
+        aspectRatio: format.aspectRatio,
+        imageGallery: source === 'outpaint' ? addToGallery(prev.imageGallery, [format.generatedImage!]) : prev.imageGallery,
+        ...selectionOf([]),
+      }));
+    } catch (err) {
+      console.error("Failed to derive format:", err);
+      setAppState(prev => ({ ...prev, error: getApiErrorMessage(err, t('errors.createFormat'), t) }));
+    } finally {
+      setIsDerivingFormat(false);
+    }
+  };
+
+  const handleSelectFormat = (id: string) => {
+    const target = appState.formats.find(f => f.id === id);
+    if (!target || id === appState.activeFormatId) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      formats: syncActiveFormat(prev),
+      activeFormatId: id,
+      generatedImage: target.generatedImage,
+      textElements: target.textElements,
+      aspectRatio: target.aspectRatio,
+      ...selectionOf([]),
+    }));
+  };
+
+  const handleRemoveFormat = (id: string) => {
+    const remaining = syncedFormats.filter(f => f.id !== id);
+    history.record(getEditorSnapshot());
+    const master = id === appState.activeFormatId ? remaining[0] : null;
+    setAppState(prev => ({
+      ...prev,
+      formats: remaining,
+      ...(master && {
+        activeFormatId: master.id,
+        generatedImage: master.generatedImage,
+        textElements: master.textElements,
+        aspectRatio: master.aspectRatio,
+        ...selectionOf([]),
+      }),
+    }));
+  };
+
+  const handleExportFormats = async () => {
+    try {
+      await exportFormatSet(appState.selectedHeadline || appState.originalHeadline, syncedFormats, previewWidth, loadExportSettings(), appState.imageAdjustments);
+    } catch (err) {
+      console.error("Failed to export formats:", err);
+      setAppState(prev => ({ ...prev, error: getErrorMessage(err, t('errors.exportFormats'), t) }));
+    }
+  };
+
+  const handlePreviewReframe = (aspectRatio: AspectRatio, mode: ReframeMode) =>
+    reframeComposition(appState.generatedImage!, appState.textElements, appState.aspectRatio, aspectRatio, mode, previewWidth, provider);
+
+  const handleApplyReframe = (result: ReframedComposition) => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      generatedImage: result.generatedImage,
+      textElements: result.textElements,
+      aspectRatio: result.aspectRatio,
+      imageGallery: addToGallery(prev.imageGallery, [result.generatedImage]),
+    }));
+  };
+
   const handleModifyImage = async () => {
       if (!modificationPrompt.trim() || !appState.generatedImage) return;
-      if (!apiKey) {
-        setAppState(prev => ({ ...prev, error: 'Por favor, insira e salve sua chave de API do Google Gemini para continuar.' }));
+      if (!provider) {
+        setAppState(prev => ({ ...prev, error: t('errors.missingProvider') }));
         return;
       }
 
+      const snapshotBeforeModification = getEditorSnapshot();
       setAppState(prev => ({ ...prev, isLoading: true, error: null }));
-      setLoadingMessage('Aplicando modificações...');
+      setLoadingMessage(t('loading.modifying'));
 
       try {
         const currentImage: UploadedImage = {
@@ -313,22 +875,35 @@ const App: React.FC = () => {
           mimeType: 'image/png' // Assuming PNG output from generation
         };
 
-        const newImageBase64 = await generateFinalImage(
-          modificationPrompt,
-          apiKey,
-          [currentImage]
-        );
-
+        const maskCanvas = maskCanvasRef.current;
+        const image = imageRef.current;
+        const newImageBase64 = maskTool && hasMask && maskCanvas && image
+          ? await editImageRegion(
+              modificationPrompt,
+              provider,
+              currentImage,
+              createMaskFromPaint(maskCanvas, image.naturalWidth, image.naturalHeight)
+            )
+          : await generateFinalImage(
+              modificationPrompt,
+              provider,
+              [currentImage]
+            );
+
+        history.record(snapshotBeforeModification);
         setAppState(prev => ({
           ...prev,
           isLoading: false,
           generatedImage: newImageBase64,
+          imageGallery: addToGallery(prev.imageGallery, [newImageBase64]),
         }));
         setModificationPrompt(''); // Clear input on success
+        setMaskTool(null);
+        setHasMask(false);
 
       } catch (err) {
         console.error(err);
-        const errorMessage = getApiErrorMessage(err, 'Falha ao modificar a imagem.');
+        const errorMessage = getApiErrorMessage(err, t('errors.modifyImage'), t);
         setAppState(prev => ({
           ...prev,
           isLoading: false,
@@ -340,28 +915,22 @@ const App: React.FC = () => {
     };
 
 
+  const handleClearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
   const handleReset = () => {
-    setAppState({
-      currentStep: Step.HEADLINE_INPUT,
-      originalHeadline: '',
-      headlineVariations: [],
-      selectedHeadline: '',
-      selectedStyle: '',
-      uploadedImages: [],
-      finalPrompt: null,
-      generatedImage: null,
-      isLoading: false,
-      error: null,
-      textElements: [],
-      activeTextElementId: null,
-      aspectRatio: '16:9',
-    });
+    history.clear();
+    setCurrentProjectId(null);
+    setAppState(initialAppState);
   };
 
   const handleAddText = () => {
     const newText: TextElement = {
       id: `text-${Date.now()}`,
-      text: 'TEXTO INCRÍVEL',
+      text: t('editor.newText'),
       fontFamily: FONTS[0].value,
       fontSize: 50,
       color: '#FFFFFF',
@@ -383,143 +952,188 @@ const App: React.FC = () => {
       height: 60, // Initial estimate
       textAlign: 'left',
     };
+    history.record(getEditorSnapshot());
     setAppState(prev => ({
       ...prev,
       textElements: [...prev.textElements, newText],
-      activeTextElementId: newText.id,
+      ...selectionOf([newText.id]),
     }));
   };
 
-  const handleUpdateActiveTextElement = (updates: Partial<TextElement>) => {
-    if (!appState.activeTextElementId) return;
+  // Style changes apply to every selected layer of the primary's kind; the text
+  // and its word styles only to the primary element
+  const handleUpdateActiveTextElement = (updates: Partial<Layer>) => {
+    const primary = appState.textElements.find(el => el.id === appState.activeTextElementId);
+    if (!primary) return;
+    const targetIds = 'text' in updates || 'runs' in updates
+      ? [primary.id]
+      : appState.textElements
+          .filter(el => appState.selectedTextElementIds.includes(el.id) && (el.type ?? 'text') === (primary.type ?? 'text'))
+          .map(el => el.id);
+    // Group rapid edits of the same properties (slider scrubs, typing) into one entry
+    history.record(getEditorSnapshot(), `update:${targetIds.join(',')}:${Object.keys(updates).sort().join(',')}`);
     setAppState(prev => ({
       ...prev,
       textElements: prev.textElements.map(el =>
-        el.id === prev.activeTextElementId ? { ...el, ...updates } : el
+        targetIds.includes(el.id) ? { ...el, ...updates } : el
       ),
     }));
   };
 
-  const handleRemoveActiveTextElement = () => {
-    if (!appState.activeTextElementId) return;
+  const addLayer = (layer: Layer) => {
+    history.record(getEditorSnapshot());
     setAppState(prev => ({
       ...prev,
-      textElements: prev.textElements.filter(el => el.id !== prev.activeTextElementId),
-      activeTextElementId: null,
+      textElements: [...prev.textElements, layer],
+      ...selectionOf([layer.id]),
     }));
   };
+
+  const handleAddImageLayer = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setAppState(prev => ({ ...prev, error: t('errors.layerFileType') }));
+      return;
+    }
+    try {
+      const src = await readFileAsDataUrl(file);
+      const img = await loadImage(src);
+      addLayer(createImageLayer(src, { width: img.naturalWidth || 200, height: img.naturalHeight || 200 }, previewWidth, file.name.replace(/\.[^.]+$/, '')));
+    } catch (err) {
+      console.error("Failed to load overlay image:", err);
+      setAppState(prev => ({ ...prev, error: t('errors.layerImage') }));
+    }
+  };
+
+  const handleAddCutoutLayer = async (cutout: UploadedImage) => {
+    const src = toDataUrl(cutout);
+    try {
+      const img = await loadImage(src);
+      addLayer(createImageLayer(src, { width: img.naturalWidth, height: img.naturalHeight }, previewWidth, t('layer.cutout')));
+    } catch (err) {
+      console.error("Failed to load cut-out:", err);
+      setAppState(prev => ({ ...prev, error: t('errors.cutout') }));
+    }
+  };
+
+  const handleAddShapeLayer = (shape: ShapeKind) => {
+    addLayer(createShapeLayer(shape, previewWidth));
+  };
+
+  const handleAddSticker = (sticker: StickerDefinition) => {
+    const { src, width, height } = stickerToDataUrl(sticker, appState.contentLanguage);
+    // Stickers start smaller than uploads
+    addLayer(createImageLayer(src, { width, height }, previewWidth / 2, t(stickerLabelKey(sticker.id))));
+  };
+
+  const handleRemoveSelectedTextElements = () => {
+    if (appState.selectedTextElementIds.length === 0) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      textElements: prev.textElements.filter(el => !prev.selectedTextElementIds.includes(el.id)),
+      ...selectionOf([]),
+    }));
+  };
+
+  const handleDuplicateSelection = () => {
+    const copies = duplicateElements(appState.textElements, appState.selectedTextElementIds);
+    if (copies.length === 0) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      textElements: [...prev.textElements, ...copies],
+      ...selectionOf(copies.map(el => el.id)),
+    }));
+  };
+
+  const handleGroupSelection = () => {
+    if (appState.selectedTextElementIds.length < 2) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: groupElements(prev.textElements, prev.selectedTextElementIds) }));
+  };
+
+  const handleUngroupSelection = () => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: ungroupElements(prev.textElements, prev.selectedTextElementIds) }));
+  };
+
+  const handleSelectLayer = (id: string, additive: boolean) => {
+    setAppState(prev => ({
+      ...prev,
+      ...selectionOf(additive
+        ? toggleInSelection(prev.textElements, prev.selectedTextElementIds, id)
+        : expandToGroups(prev.textElements, [id])),
+    }));
+  };
+
+  const handleMoveLayer = (id: string, targetIndex: number) => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: moveLayer(prev.textElements, id, targetIndex) }));
+  };
+
+  const handleUpdateLayer = (id: string, updates: Partial<TextElement>) => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({
+      ...prev,
+      textElements: prev.textElements.map(el => el.id === id ? { ...el, ...updates } : el),
+      // A layer that disappears from the canvas shouldn't stay selected
+      ...(updates.hidden && selectionOf(prev.selectedTextElementIds.filter(selectedId => selectedId !== id))),
+    }));
+  };
+
+  const selectedTextElementIds = appState.selectedTextElementIds;
+  // Locked layers stay put when the selection is moved or aligned
+  const movableSelectedIds = selectedTextElementIds.filter(id => !appState.textElements.find(el => el.id === id)?.locked);
+  const canvasSize = { width: previewWidth, height: previewWidth / parseAspectRatio(appState.aspectRatio) };
+
+  const handleAlign = (mode: AlignMode) => {
+    if (movableSelectedIds.length === 0) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: alignElements(prev.textElements, movableSelectedIds, mode, canvasSize) }));
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    if (movableSelectedIds.length < 3) return;
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: distributeElements(prev.textElements, movableSelectedIds, axis) }));
+  };
+
+  const handleNudge = (dx: number, dy: number) => {
+    if (movableSelectedIds.length === 0) return;
+    // A burst of key presses becomes one undo step
+    history.record(getEditorSnapshot(), `nudge:${movableSelectedIds.join(',')}`);
+    setAppState(prev => ({ ...prev, textElements: nudgeElements(prev.textElements, movableSelectedIds, dx, dy) }));
+  };
+
+  shortcutsRef.current = { handleUndo, handleRedo, handleNudge, handleRemove: handleRemoveSelectedTextElements };
   
-  const handleDownloadWithText = () => {
-    const image = imageRef.current;
-    if (!image || !appState.generatedImage) return;
-
-    const canvas = document.createElement('canvas');
-    const scale = image.naturalWidth / image.width;
-    canvas.width = image.naturalWidth;
-    canvas.height = image.naturalHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const getWrappedLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
-        if (maxWidth <= 0) return [text];
-        const words = text.split(' ');
-        if (words.length <= 1) return [text];
-
-        const lines: string[] = [];
-        let currentLine = words[0];
-
-        for (let i = 1; i < words.length; i++) {
-            const word = words[i];
-            const testLine = currentLine + ' ' + word;
-            const metrics = ctx.measureText(testLine);
-            if (metrics.width < maxWidth) {
-                currentLine = testLine;
-            } else {
-                lines.push(currentLine);
-                currentLine = word;
-            }
-        }
-        lines.push(currentLine);
-        return lines;
-    };
+  const handleTranslateThumbnail = async (language: ContentLanguage) => {
+    if (!provider) throw new Error(t('errors.missingProvider'));
+    const translated = await translateComposition(appState.textElements, language, provider);
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, textElements: translated }));
+  };
 
-    const img = new Image();
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0);
-
-      appState.textElements.forEach(textEl => {
-        ctx.save();
-
-        const font = `bold ${textEl.fontSize * scale}px ${textEl.fontFamily}`;
-        ctx.font = font;
-        ctx.letterSpacing = `${textEl.letterSpacing * scale}px`;
-        ctx.strokeStyle = textEl.strokeColor;
-        ctx.lineWidth = textEl.strokeWidth * scale;
-        ctx.textAlign = textEl.textAlign;
-        ctx.textBaseline = 'top';
-
-        const initialLines = textEl.text.split('\n');
-        const textLines: string[] = [];
-        initialLines.forEach(line => {
-             textLines.push(...getWrappedLines(ctx, line, textEl.width * scale));
-        });
-        
-        const lineHeight = textEl.fontSize * scale * textEl.lineHeight;
+  const handleChangeAdjustments = (updates: Partial<ImageAdjustments>) => {
+    history.record(getEditorSnapshot(), `adjust:${Object.keys(updates).join(',')}`);
+    setAppState(prev => ({ ...prev, imageAdjustments: { ...prev.imageAdjustments, ...updates } }));
+  };
 
-        let maxWidth = 0;
-        textLines.forEach(line => {
-          const metrics = ctx.measureText(line);
-          if (metrics.width > maxWidth) maxWidth = metrics.width;
-        });
-        const textBlockHeight = (textLines.length - 1) * lineHeight + (textEl.fontSize * scale);
-
-        const x = textEl.position.x * scale;
-        const y = textEl.position.y * scale;
-
-        ctx.translate(x, y);
-        ctx.rotate(textEl.rotation * Math.PI / 180);
-
-        let drawX = 0;
-        if (textEl.textAlign === 'center') {
-          drawX = (textEl.width * scale) / 2;
-        } else if (textEl.textAlign === 'right') {
-          drawX = textEl.width * scale;
-        }
-
-        if (textEl.useGradient) {
-          const angleRad = (textEl.gradientAngle - 90) * Math.PI / 180;
-          const x0 = maxWidth / 2 - Math.cos(angleRad) * maxWidth / 2;
-          const y0 = textBlockHeight / 2 - Math.sin(angleRad) * textBlockHeight / 2;
-          const x1 = maxWidth / 2 + Math.cos(angleRad) * maxWidth / 2;
-          const y1 = textBlockHeight / 2 + Math.sin(angleRad) * textBlockHeight / 2;
-          const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
-          gradient.addColorStop(0, textEl.gradientColor1);
-          gradient.addColorStop(1, textEl.gradientColor2);
-          ctx.fillStyle = gradient;
-        } else {
-          ctx.fillStyle = textEl.color;
-        }
-
-        ctx.shadowColor = textEl.shadowColor;
-        ctx.shadowBlur = textEl.shadowBlur * scale;
-        ctx.shadowOffsetX = textEl.shadowOffsetX * scale;
-        ctx.shadowOffsetY = textEl.shadowOffsetY * scale;
-        
-        textLines.forEach((line, index) => {
-          const lineY = index * lineHeight;
-          ctx.strokeText(line, drawX, lineY);
-          ctx.fillText(line, drawX, lineY);
-        });
+  const handleResetAdjustments = () => {
+    history.record(getEditorSnapshot());
+    setAppState(prev => ({ ...prev, imageAdjustments: DEFAULT_IMAGE_ADJUSTMENTS }));
+  };
 
-        ctx.restore();
-      });
+  const handleExport = async (settings: ExportSettings, fileName: string) => {
+    const image = imageRef.current;
+    if (!image || !appState.generatedImage) {
+      throw new Error(t('errors.nothingToExport'));
+    }
 
-      const link = document.createElement('a');
-      link.download = 'thumbnail_final.png';
-      link.href = canvas.toDataURL('image/png');
-      link.click();
-    };
-    img.src = `data:image/png;base64,${appState.generatedImage}`;
+    const canvas = await renderComposition(appState.generatedImage, appState.textElements, image.width, settings.size ?? undefined, appState.imageAdjustments);
+    const encoded = await encodeWithinBudget(canvas, settings);
+    downloadBlob(encoded.blob, fileName);
+    return encoded;
   };
   
   const handleDragStart = (e: React.MouseEvent<HTMLDivElement>, id: string) => {
@@ -527,6 +1141,23 @@ const App: React.FC = () => {
     const currentElementState = appState.textElements.find(el => el.id === id);
     if (!currentElementState) return;
 
+    // Pressing on a selected element keeps the selection so it can be dragged as a whole
+    const selection = e.shiftKey
+      ? toggleInSelection(appState.textElements, appState.selectedTextElementIds, id)
+      : appState.selectedTextElementIds.includes(id)
+        ? [...appState.selectedTextElementIds.filter(selectedId => selectedId !== id), id]
+        : expandToGroups(appState.textElements, [id]);
+    setAppState(prev => ({ ...prev, ...selectionOf(selection) }));
+    if (!selection.includes(id)) return;
+
+    const snapshotBeforeDrag = getEditorSnapshot();
+    const startPositions = Object.fromEntries(
+      appState.textElements.filter(el => selection.includes(el.id) && !el.locked).map(el => [el.id, el.position])
+    );
+    const otherElements = getVisibleElements(appState.textElements).filter(el => !selection.includes(el.id));
+    const dragCanvas = canvasSize;
+    let hasMoved = false;
+
     dragInfo.current = {
       isDragging: true,
       elementId: id,
@@ -541,24 +1172,34 @@ const App: React.FC = () => {
 
       const dx = moveEvent.clientX - dragInfo.current.startPos.x;
       const dy = moveEvent.clientY - dragInfo.current.startPos.y;
-      
+      hasMoved = true;
+      const proposed = {
+        x: dragInfo.current.elementStartPos.x + dx,
+        y: dragInfo.current.elementStartPos.y + dy,
+      };
+      // Holding Alt places the element freely
+      const snapped = moveEvent.altKey
+        ? { position: proposed, guides: { x: [], y: [] } }
+        : snapPosition(currentElementState, proposed, otherElements, dragCanvas, appState.aspectRatio);
+      setSnapGuides(snapped.guides);
+      // The grabbed element snaps; the rest of the selection follows by the same offset
+      const offsetX = snapped.position.x - dragInfo.current.elementStartPos.x;
+      const offsetY = snapped.position.y - dragInfo.current.elementStartPos.y;
+
       setAppState(prev => ({
         ...prev,
         textElements: prev.textElements.map(el =>
-          el.id === id
-            ? {
-                ...el,
-                position: {
-                  x: dragInfo.current.elementStartPos.x + dx,
-                  y: dragInfo.current.elementStartPos.y + dy,
-                },
-              }
+          startPositions[el.id]
+            ? { ...el, position: { x: startPositions[el.id].x + offsetX, y: startPositions[el.id].y + offsetY } }
             : el
         ),
       }));
     };
 
     const handleMouseUp = () => {
+      // The whole drag becomes a single history entry
+      if (hasMoved) history.record(snapshotBeforeDrag);
+      setSnapGuides({ x: [], y: [] });
       dragInfo.current.isDragging = false;
       dragInfo.current.elementId = null;
       element.style.cursor = 'move';
@@ -570,10 +1211,41 @@ const App: React.FC = () => {
     window.addEventListener('mouseup', handleMouseUp);
   };
 
-  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>, id: string, handle: 'nw' | 'ne' | 'sw' | 'se' | 'e' | 'w') => {
+  const handleMarqueeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Only presses on empty canvas start a marquee; text elements handle their own
+    if (e.target !== e.currentTarget && e.target !== imageRef.current) return;
+    e.preventDefault();
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const origin = { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+    const elements = getInteractiveElements(appState.textElements);
+    const baseSelection = e.shiftKey ? appState.selectedTextElementIds : [];
+    let rect: SelectionRect | null = null;
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      rect = normalizeRect(origin, { x: moveEvent.clientX - bounds.left, y: moveEvent.clientY - bounds.top });
+      setMarquee(rect);
+    };
+
+    const handleMouseUp = () => {
+      // A plain click on the background clears the selection
+      const isClick = !rect || (rect.right - rect.left < 3 && rect.bottom - rect.top < 3);
+      const hits = isClick ? [] : expandToGroups(elements, elementsInRect(elements, rect));
+      setAppState(prev => ({ ...prev, ...selectionOf([...baseSelection.filter(id => !hits.includes(id)), ...hits]) }));
+      setMarquee(null);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>, id: string, handle: ResizeHandle) => {
     e.stopPropagation(); 
     const currentElementState = appState.textElements.find(el => el.id === id);
     if (!currentElementState) return;
+    const snapshotBeforeResize = getEditorSnapshot();
+    let hasResized = false;
 
     setAppState(prev => ({ ...prev, activeTextElementId: id }));
 
@@ -582,8 +1254,9 @@ const App: React.FC = () => {
       elementId: id,
       handle,
       startPos: { x: e.clientX, y: e.clientY },
-      startFontSize: currentElementState.fontSize,
+      startFontSize: isTextLayer(currentElementState) ? currentElementState.fontSize : 0,
       startWidth: currentElementState.width,
+      startHeight: currentElementState.height,
       startRotation: currentElementState.rotation,
       startPosition: currentElementState.position,
     };
@@ -593,6 +1266,7 @@ const App: React.FC = () => {
 
       const dx = moveEvent.clientX - resizeInfo.current.startPos.x;
       const dy = moveEvent.clientY - resizeInfo.current.startPos.y;
+      hasResized = true;
       
       setAppState(prev => {
           const newTextElements = prev.textElements.map(el => {
@@ -607,27 +1281,30 @@ const App: React.FC = () => {
               const rotatedDx = dx * cos + dy * sin;
               const rotatedDy = -dx * sin + dy * cos;
 
+              // Text scales through its font size; pictures keep their proportions
+              const scaleBy = (change: number): Layer => {
+                if (isTextLayer(el)) {
+                  return { ...el, fontSize: Math.max(10, Math.round(startState.startFontSize + change)) };
+                }
+                const newWidth = Math.max(20, Math.round(startState.startWidth + change * 2));
+                return { ...el, width: newWidth, height: Math.round(newWidth * startState.startHeight / startState.startWidth) };
+              };
+
               switch(startState.handle) {
                 // Corner handles adjust font size for intuitive scaling
-                case 'se': {
-                  const change = (rotatedDx + rotatedDy) / 4;
-                  const newFontSize = Math.max(10, Math.round(startState.startFontSize + change));
-                  return { ...el, fontSize: newFontSize };
-                }
-                 case 'sw': {
-                  const change = (-rotatedDx + rotatedDy) / 4;
-                  const newFontSize = Math.max(10, Math.round(startState.startFontSize + change));
-                  return { ...el, fontSize: newFontSize };
-                }
-                case 'ne': {
-                  const change = (rotatedDx - rotatedDy) / 4;
-                  const newFontSize = Math.max(10, Math.round(startState.startFontSize + change));
-                  return { ...el, fontSize: newFontSize };
-                }
-                case 'nw': {
-                  const change = (-rotatedDx - rotatedDy) / 4;
-                  const newFontSize = Math.max(10, Math.round(startState.startFontSize + change));
-                  return { ...el, fontSize: newFontSize };
+                case 'se':
+                  return scaleBy((rotatedDx + rotatedDy) / 4);
+                case 'sw':
+                  return scaleBy((-rotatedDx + rotatedDy) / 4);
+                case 'ne':
+                  return scaleBy((rotatedDx - rotatedDy) / 4);
+                case 'nw':
+                  return scaleBy((-rotatedDx - rotatedDy) / 4);
+
+                // Only pictures have a bottom handle; text height follows its content
+                case 's': {
+                  const newHeight = Math.max(10, Math.round(startState.startHeight + rotatedDy));
+                  return { ...el, height: newHeight };
                 }
 
                 // Side handles adjust width
@@ -653,6 +1330,7 @@ const App: React.FC = () => {
     };
 
     const handleMouseUp = () => {
+      if (hasResized) history.record(snapshotBeforeResize);
       resizeInfo.current.isResizing = false;
       resizeInfo.current.elementId = null;
       window.removeEventListener('mousemove', handleMouseMove);
@@ -665,93 +1343,115 @@ const App: React.FC = () => {
 
   const headlineOptions = useMemo(() => {
     const original: HeadlineVariation = { text: appState.originalHeadline, keywords: [] };
-    return [original, ...appState.headlineVariations].filter(h => h.text);
-  }, [appState.originalHeadline, appState.headlineVariations]);
-  const activeTextElement = useMemo(() => appState.textElements.find(el => el.id === appState.activeTextElementId), [appState.textElements, appState.activeTextElementId]);
-
-  const aspectRatioOptions = [
-      { value: '16:9', label: 'Thumbnail (16:9)', icon: 'fa-solid fa-tv' },
-      { value: '9:16', label: 'Story (9:16)', icon: 'fa-solid fa-mobile-screen-button' },
-      { value: '1:1', label: 'Quadrado (1:1)', icon: 'fa-solid fa-square' },
-      { value: '4:3', label: 'Clássico (4:3)', icon: 'fa-solid fa-display' },
-      { value: '3:4', label: 'Retrato (3:4)', icon: 'fa-solid fa-portrait' },
-  ];
+    const variations = appState.headlineVariations.filter(h => h.text !== appState.originalHeadline);
+    return sortByScore([original, ...variations].filter(h => h.text), appState.contentLanguage);
+  }, [appState.originalHeadline, appState.headlineVariations, appState.contentLanguage]);
+  const adjustedImageSrc = useAdjustedImage(appState.generatedImage, appState.imageAdjustments);
+  const syncedFormats = useMemo(
+    () => syncActiveFormat(appState),
+    [appState.formats, appState.activeFormatId, appState.generatedImage, appState.textElements, appState.aspectRatio]
+  );
+
+  const syncedVariants = useMemo(
+    () => syncActiveVariant(appState),
+    [appState.variants, appState.activeVariantId, appState.generatedImage, appState.textElements]
+  );
+  // Only text is checked: images and shapes may bleed off the edges on purpose
+  const guideIntrusions = useMemo(() => {
+    if (!guideOptions.enabled) return {};
+    return Object.fromEntries(
+      appState.textElements
+        .filter(isTextLayer)
+        .map(el => [el.id, findGuideIntrusions(el, appState.aspectRatio, previewWidth, guideOptions.cropFrames)])
+    );
+  }, [guideOptions.enabled, guideOptions.cropFrames, appState.textElements, appState.aspectRatio, previewWidth]);
+  const isSelectionGrouped = appState.textElements.some(el => el.groupId && appState.selectedTextElementIds.includes(el.id));
+  const activeLayer = useMemo(() => appState.textElements.find(el => el.id === appState.activeTextElementId), [appState.textElements, appState.activeTextElementId]);
+  const activeTextElement = activeLayer && isTextLayer(activeLayer) ? activeLayer : undefined;
+  // Keywords of the headline on screen: the active variant's, else the selected one
+  const activeHeadline = appState.variants.find(v => v.id === appState.activeVariantId)?.headline ?? appState.selectedHeadline;
+  const activeHeadlineKeywords = headlineOptions.find(h => h.text === activeHeadline)?.keywords ?? [];
+
+  const isPickingCandidate = appState.currentStep === Step.PROMPT_GENERATION && !appState.isLoading && appState.imageCandidates.length > 0;
 
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4 sm:p-6 lg:p-8">
       <div className="w-full max-w-4xl mx-auto">
         <header className="text-center mb-8">
+          <div className="flex justify-end mb-2">
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value as UiLanguage)}
+              className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-sm text-gray-300 focus:ring-2 focus:ring-indigo-500"
+              aria-label={t('app.interfaceLanguage')}
+              title={t('app.interfaceLanguage')}
+            >
+              {UI_LANGUAGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.flag} {option.label}</option>)}
+            </select>
+          </div>
           <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-600">
-            Gerador de Thumbnail Viral
+            {t('app.title')}
           </h1>
           <p className="text-gray-500 mt-1 text-sm">By Adriano Santos</p>
           <p className="text-gray-400 mt-2 text-lg">
-            Seu diretor de arte de IA para thumbnails de alto impacto.
+            {t('app.tagline')}
           </p>
         </header>
 
         <main className="space-y-6">
-          <div className="bg-gray-800 border-2 border-gray-700 rounded-lg p-6">
-              <div className="flex items-center mb-2">
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center ${apiKey ? 'bg-green-600' : 'bg-yellow-600'} text-white font-bold text-sm mr-4`}>
-                  <i className={`fas ${apiKey ? 'fa-check' : 'fa-key'}`}></i>
-                </div>
-                <h2 className="text-xl font-bold text-white">Sua Chave de API Gemini</h2>
-              </div>
-              <div className="pl-12">
-                <p className="text-gray-400 text-sm mb-3">
-                  Para usar esta ferramenta, você precisa de uma chave de API do Google Gemini. A chave é salva localmente no seu navegador.
-                  {' '}
-                  <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
-                    Obtenha sua chave aqui.
-                  </a>
-                </p>
-                <form onSubmit={handleSaveApiKey} className="flex items-center gap-3">
-                  <input
-                    type="password"
-                    value={tempApiKey}
-                    onChange={(e) => setTempApiKey(e.target.value)}
-                    placeholder="Cole sua chave de API aqui"
-                    className="flex-grow bg-gray-700 border-2 border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
-                  />
-                  <button
-                    type="submit"
-                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-5 rounded-md transition"
-                  >
-                    Salvar
-                  </button>
-                </form>
-              </div>
-            </div>
+          <ProviderSettingsCard
+            settings={providerSettings}
+            isConfigured={!!provider}
+            isLocked={isMockForced}
+            onSave={handleSaveProviderSettings}
+          />
+
+          <ProjectsPanel
+            currentProjectId={currentProjectId}
+            refreshKey={projectsRefreshKey}
+            onOpen={handleOpenProject}
+            onDeleted={handleProjectDeleted}
+            onError={(message) => setAppState(prev => ({ ...prev, error: message }))}
+          />
 
           {appState.error && (
             <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative" role="alert">
-              <strong className="font-bold">Oops! </strong>
+              <strong className="font-bold">{t('app.errorPrefix')} </strong>
               <span className="block sm:inline">{appState.error}</span>
             </div>
           )}
           
           <StepCard
             stepNumber={1}
-            title="Insira a Headline do Vídeo"
+            title={t('headlineStep.title')}
             isActive={appState.currentStep === Step.HEADLINE_INPUT}
             isComplete={appState.currentStep > Step.HEADLINE_INPUT}
           >
             {appState.currentStep === Step.HEADLINE_INPUT && (
               <form onSubmit={handleHeadlineSubmit}>
-                <input
-                  type="text"
-                  name="headline"
-                  placeholder="Ex: Como eu fiz meu primeiro milhão..."
-                  className="w-full bg-gray-800 border-2 border-gray-700 rounded-md p-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    name="headline"
+                    placeholder={t('headlineStep.placeholder')}
+                    className="flex-grow bg-gray-800 border-2 border-gray-700 rounded-md p-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                    required
+                  />
+                  <select
+                    value={appState.contentLanguage}
+                    onChange={e => setAppState(prev => ({ ...prev, contentLanguage: e.target.value as ContentLanguage }))}
+                    className="bg-gray-800 border-2 border-gray-700 rounded-md p-3 focus:ring-2 focus:ring-indigo-500"
+                    title={t('headlineStep.contentLanguage')}
+                  >
+                    {CONTENT_LANGUAGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.flag} {option.label}</option>)}
+                  </select>
+                </div>
                 <button
                   type="submit"
-                  disabled={appState.isLoading || !apiKey}
+                  disabled={appState.isLoading || !provider}
                   className="mt-4 w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
                 >
-                  {!apiKey ? 'Insira a Chave de API para continuar' : (appState.isLoading ? <LoadingSpinner /> : 'Analisar e Gerar Variações')}
+                  {!provider ? t('headlineStep.configureProvider') : (appState.isLoading ? <LoadingSpinner /> : t('headlineStep.submit'))}
                 </button>
               </form>
             )}
@@ -759,35 +1459,62 @@ const App: React.FC = () => {
 
           <StepCard
             stepNumber={2}
-            title="Escolha a Melhor Headline"
+            title={t('selectionStep.title')}
             isActive={appState.currentStep === Step.HEADLINE_SELECTION}
             isComplete={appState.currentStep > Step.HEADLINE_SELECTION}
           >
             {appState.currentStep === Step.HEADLINE_SELECTION && (
               <div className="space-y-3">
-                <p className="text-gray-400 mb-2">Selecione a headline que será usada na thumbnail. As palavras-chave estão <span className="text-indigo-400 font-bold">destacadas</span> para você.</p>
-                {headlineOptions.map((headline, index) => (
-                  <button
-                    key={index}
-                    onClick={() => handleHeadlineSelection(headline.text)}
-                    className="w-full text-left p-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-md transition"
-                  >
-                    {headline.text === appState.originalHeadline ? <span className="font-bold text-purple-400">[Original] </span> : ''}
-                    {highlightKeywords(headline.text, headline.keywords)}
-                  </button>
-                ))}
+                <p className="text-gray-400 mb-2">{t('selectionStep.introStart')} <span className="text-indigo-400 font-bold">{t('selectionStep.introHighlight')}</span> {t('selectionStep.introEnd')}</p>
+                <button
+                  onClick={handleCritiqueHeadlines}
+                  disabled={isCritiquingHeadlines || !provider || appState.headlineVariations.length === 0}
+                  className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white py-1.5 px-3 rounded-md transition flex items-center"
+                  title={t('selectionStep.critiqueHint')}
+                >
+                  {isCritiquingHeadlines ? <LoadingSpinner /> : <><i className="fa-solid fa-robot mr-2"></i> {t('selectionStep.critique')}</>}
+                </button>
+                {headlineOptions.map(headline => {
+                  const isOriginal = headline.text === appState.originalHeadline;
+                  return (
+                    <HeadlineOption
+                      key={headline.text}
+                      headline={headline}
+                      isOriginal={isOriginal}
+                      onSelect={() => handleHeadlineSelection(headline.text)}
+                      onTogglePin={isOriginal ? undefined : () => handleTogglePinHeadline(headline.text)}
+                      onEdit={text => handleEditHeadline(headline.text, text)}
+                    >
+                      {highlightKeywords(headline.text, headline.keywords)}
+                    </HeadlineOption>
+                  );
+                })}
+                <HeadlineRefinementBar
+                  isGenerating={isRegeneratingHeadlines}
+                  disabled={!provider}
+                  onGenerate={handleRegenerateHeadlines}
+                />
               </div>
             )}
           </StepCard>
           
           <StepCard
             stepNumber={3}
-            title="Escolha o Estilo Visual"
+            title={t('styleStep.title')}
             isActive={appState.currentStep === Step.STYLE_SELECTION}
             isComplete={appState.currentStep > Step.STYLE_SELECTION}
           >
             {appState.currentStep === Step.STYLE_SELECTION && (
               <div className="space-y-4">
+                <ThumbnailTextPicker
+                  title={appState.selectedHeadline}
+                  value={appState.thumbnailText}
+                  options={appState.thumbnailTextOptions}
+                  isGenerating={isGeneratingThumbnailTexts}
+                  canGenerate={!!provider}
+                  onChange={text => setAppState(prev => ({ ...prev, thumbnailText: text }))}
+                  onGenerate={() => handleGenerateThumbnailTexts(appState.selectedHeadline)}
+                />
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                   {STYLES.map((style) => (
                     <button
@@ -796,7 +1523,7 @@ const App: React.FC = () => {
                       className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-md transition text-center flex flex-col items-center justify-center h-24"
                     >
                       <span className="text-3xl">{style.icon}</span>
-                      <span className="mt-1 text-sm font-semibold">{style.label}</span>
+                      <span className="mt-1 text-sm font-semibold">{t(styleLabelKey(style.value))}</span>
                     </button>
                   ))}
                 </div>
@@ -805,7 +1532,7 @@ const App: React.FC = () => {
                     <div className="w-full border-t border-gray-600" />
                   </div>
                   <div className="relative flex justify-center">
-                    <span className="bg-gray-800 px-2 text-sm text-gray-400">Ou digite um estilo customizado</span>
+                    <span className="bg-gray-800 px-2 text-sm text-gray-400">{t('styleStep.customDivider')}</span>
                   </div>
                 </div>
                 <form onSubmit={(e) => { e.preventDefault(); if (customStyle.trim()) handleStyleSelection(customStyle); }}>
@@ -813,7 +1540,7 @@ const App: React.FC = () => {
                     type="text"
                     value={customStyle}
                     onChange={(e) => setCustomStyle(e.target.value)}
-                    placeholder="Ex: Arte com giz de cera, Steampunk, Vaporwave"
+                    placeholder={t('styleStep.customPlaceholder')}
                     className="w-full bg-gray-700 border-2 border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
                   />
                   <button
@@ -821,7 +1548,7 @@ const App: React.FC = () => {
                     disabled={!customStyle.trim()}
                     className="mt-3 w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition"
                   >
-                    Usar Estilo Customizado
+                    {t('styleStep.customSubmit')}
                   </button>
                 </form>
               </div>
@@ -830,8 +1557,8 @@ const App: React.FC = () => {
 
           <StepCard
             stepNumber={4}
-            title={appState.currentStep >= Step.TEXT_EDITING ? "Ajuste Fino da Thumbnail" : "Gere a Imagem Base"}
-            isActive={appState.currentStep === Step.IMAGE_UPLOAD || appState.currentStep === Step.TEXT_EDITING}
+            title={appState.currentStep >= Step.TEXT_EDITING ? t('imageStep.titleEdit') : (isPickingCandidate ? t('imageStep.titlePick') : t('imageStep.titleGenerate'))}
+            isActive={appState.currentStep === Step.IMAGE_UPLOAD || appState.currentStep === Step.TEXT_EDITING || isPickingCandidate}
             isComplete={appState.currentStep > Step.TEXT_EDITING}
           >
             {appState.currentStep === Step.IMAGE_UPLOAD && (
@@ -840,28 +1567,47 @@ const App: React.FC = () => {
                     <label htmlFor="dropzone-file" className="flex flex-col items-center justify-center w-full h-48 border-2 border-gray-600 border-dashed rounded-lg cursor-pointer bg-gray-800 hover:bg-gray-700">
                         <div className="flex flex-col items-center justify-center pt-5 pb-6">
                             <i className="fa-solid fa-cloud-arrow-up text-4xl text-gray-400"></i>
-                            <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">Clique para fazer upload</span> ou arraste e solte</p>
-                            <p className="text-xs text-gray-500">PNG, JPG, WEBP (MAX. 5MB)</p>
+                            <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">{t('imageStep.uploadClick')}</span> {t('imageStep.uploadDrop')}</p>
+                            <p className="text-xs text-gray-500">{t('imageStep.uploadHint')}</p>
                         </div>
                         <input id="dropzone-file" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} multiple />
                     </label>
                 </div> 
 
+                {cutoutIndex !== null && appState.uploadedImages[cutoutIndex] && (
+                  <CutoutEditor
+                    image={appState.uploadedImages[cutoutIndex]}
+                    onSave={handleSaveCutout}
+                    onClose={() => setCutoutIndex(null)}
+                  />
+                )}
+
                 {appState.uploadedImages.length > 0 && (
                   <div className="mt-4">
-                    <p className="font-semibold mb-2 text-gray-300">Imagens Carregadas:</p>
+                    <p className="font-semibold mb-2 text-gray-300">{t('imageStep.uploaded')}</p>
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
                       {appState.uploadedImages.map((image, index) => (
                         <div key={index} className="relative group">
                           <img
                             src={`data:${image.mimeType};base64,${image.data}`}
                             alt={`Upload preview ${index + 1}`}
-                            className="rounded-md w-full h-24 object-cover"
+                            className={`rounded-md w-full h-24 ${image.cutout ? 'object-contain bg-gray-700' : 'object-cover'}`}
                           />
+                          {image.cutout && (
+                            <span className="absolute bottom-1 left-1 bg-indigo-600/90 text-white text-[10px] font-bold px-1 rounded">{t('imageStep.cutoutBadge')}</span>
+                          )}
+                          <button
+                            onClick={() => setCutoutIndex(index)}
+                            className="absolute top-1 left-1 bg-gray-900/80 hover:bg-indigo-600 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                            aria-label={t('imageStep.cutout')}
+                            title={t('imageStep.cutoutHint')}
+                          >
+                            <i className="fa-solid fa-scissors text-xs"></i>
+                          </button>
                           <button
                             onClick={() => handleRemoveImage(index)}
                             className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                            aria-label="Remover imagem"
+                            aria-label={t('imageStep.removeImage')}
                           >
                             <i className="fa-solid fa-times text-sm"></i>
                           </button>
@@ -872,9 +1618,9 @@ const App: React.FC = () => {
                 )}
                 
                 <div className="pt-4 space-y-3">
-                  <label className="block text-center text-sm font-medium text-gray-400">Proporção da Imagem</label>
+                  <label className="block text-center text-sm font-medium text-gray-400">{t('imageStep.aspectRatio')}</label>
                   <div className="grid grid-cols-5 gap-2">
-                      {aspectRatioOptions.map(option => (
+                      {ASPECT_RATIO_OPTIONS.map(option => (
                           <button
                               key={option.value}
                               onClick={() => setAppState(prev => ({ ...prev, aspectRatio: option.value }))}
@@ -883,7 +1629,7 @@ const App: React.FC = () => {
                                   ? 'bg-indigo-600 border-indigo-500 text-white'
                                   : 'bg-gray-700 border-gray-600 hover:border-indigo-500 text-gray-300'
                               }`}
-                              title={option.label}
+                              title={t(aspectRatioLabelKey(option.value))}
                           >
                               <i className={`${option.icon} text-xl`}></i>
                               <span className="text-xs mt-1">{option.value}</span>
@@ -892,116 +1638,229 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <p className="pt-4 text-center text-gray-500 text-sm">Se não tiver uma imagem de base, não se preocupe! A IA criará uma do zero.</p>
+                <div className="flex items-center justify-center gap-3">
+                  <label className="text-sm font-medium text-gray-400">{t('imageStep.candidateCount')}</label>
+                  <div className="flex items-center space-x-1 bg-gray-900/50 p-1 rounded-md">
+                    {CANDIDATE_COUNT_OPTIONS.map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setCandidateCount(count)}
+                        className={`px-3 py-1 text-sm rounded transition-colors ${candidateCount === count ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <p className="pt-4 text-center text-gray-500 text-sm">{t('imageStep.noBaseImage')}</p>
                 <button
                   onClick={handleGenerateFinalImage}
                   disabled={appState.isLoading}
                   className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-purple-900/50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
                 >
-                  {appState.isLoading ? <><LoadingSpinner /> {loadingMessage}</> : 'Gerar Imagem Base'}
+                  {appState.isLoading ? <><LoadingSpinner /> {loadingMessage}</> : t('imageStep.generate')}
                 </button>
               </div>
+            )}
+            {isPickingCandidate && (
+              <div className="space-y-4">
+                <p className="text-gray-400">{t('imageStep.pickIntro')}</p>
+                <ImageGrid
+                  images={appState.imageCandidates}
+                  onSelect={handleSelectCandidate}
+                  columnsClassName={appState.imageCandidates.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}
+                />
+                {appState.imageGallery.length > appState.imageCandidates.length && (
+                  <details className="text-sm text-gray-400">
+                    <summary className="cursor-pointer font-medium hover:text-gray-300">{t('imageStep.pickPrevious')}</summary>
+                    <div className="mt-3">
+                      <ImageGrid
+                        images={appState.imageGallery.filter(image => !appState.imageCandidates.includes(image))}
+                        onSelect={handleSelectCandidate}
+                        columnsClassName="grid-cols-3 sm:grid-cols-4"
+                      />
+                    </div>
+                  </details>
+                )}
+                {appState.generatedImage && (
+                  <button
+                    onClick={handleCancelCandidates}
+                    className="w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
+                  >
+                    <i className="fa-solid fa-arrow-left mr-2"></i>
+                    {t('imageStep.backToEditor')}
+                  </button>
+                )}
+              </div>
             )}
              {appState.currentStep === Step.TEXT_EDITING && appState.generatedImage && (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {/* Editor Preview */}
-                <div className="md:col-span-2 relative w-full bg-gray-900 rounded-lg overflow-hidden shadow-lg border-2 border-gray-700" style={{aspectRatio: appState.aspectRatio.replace(':', '/')}}>
-                  <img ref={imageRef} src={`data:image/png;base64,${appState.generatedImage}`} alt="Generated Thumbnail" className="w-full h-full object-contain" />
-                  {appState.textElements.map(el => {
-                     const textStyles: React.CSSProperties = {
-                        fontFamily: el.fontFamily,
-                        fontSize: `${el.fontSize}px`,
-                        fontWeight: 'bold',
-                        textTransform: 'uppercase',
-                        WebkitTextStroke: `${el.strokeWidth}px ${el.strokeColor}`,
-                        paintOrder: 'stroke fill',
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                        letterSpacing: `${el.letterSpacing}px`,
-                        lineHeight: el.lineHeight,
-                        textShadow: `${el.shadowOffsetX}px ${el.shadowOffsetY}px ${el.shadowBlur}px ${el.shadowColor}`,
-                        textAlign: el.textAlign,
-                      };
-
-                      if (el.useGradient) {
-                        textStyles.background = `linear-gradient(${el.gradientAngle}deg, ${el.gradientColor1}, ${el.gradientColor2})`;
-                        textStyles.WebkitBackgroundClip = 'text';
-                        textStyles.color = 'transparent';
-                      } else {
-                        textStyles.color = el.color;
-                      }
-
-                    return (
-                    <div
-                      key={el.id}
-                      className="absolute"
-                      style={{
-                        left: 0,
-                        top: 0,
-                        width: `${el.width}px`,
-                        height: `${el.height}px`,
-                        transform: `translate(${el.position.x}px, ${el.position.y}px) rotate(${el.rotation}deg)`,
-                        transformOrigin: 'top left',
-                        border: appState.activeTextElementId === el.id ? '2px dashed #818cf8' : '2px dashed transparent',
-                        padding: '2px',
-                        cursor: 'move',
-                        userSelect: 'none',
-                      }}
-                       onMouseDown={(e) => {
-                        handleDragStart(e, el.id);
-                        setAppState(prev => ({...prev, activeTextElementId: el.id}));
-                      }}
-                    >
-                      {/* FIX: The ref callback function was implicitly returning the assigned `node`, which is not permitted by React's `ref` prop type. Encapsulating the assignment in curly braces `{}` ensures the function returns `undefined` and resolves the type error. */}
-                      <div ref={node => { textElementRefs.current[el.id] = node; }} style={textStyles}>
-                         {el.text || ' '}
-                      </div>
-                      {appState.activeTextElementId === el.id && (
-                        <>
-                          {/* Corner Handles */}
-                          <div
-                            className="absolute -top-2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nwse-resize"
-                            onMouseDown={(e) => handleResizeStart(e, el.id, 'nw')}
-                          />
-                           <div
-                            className="absolute -top-2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nesw-resize"
-                            onMouseDown={(e) => handleResizeStart(e, el.id, 'ne')}
-                          />
-                          <div
-                            className="absolute -bottom-2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nesw-resize"
-                            onMouseDown={(e) => handleResizeStart(e, el.id, 'sw')}
-                          />
-                          <div
-                            className="absolute -bottom-2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nwse-resize"
-                            onMouseDown={(e) => handleResizeStart(e, el.id, 'se')}
-                          />
-
-                          {/* Side Handles */}
-                          <div
-                              className="absolute top-1/2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-ew-resize"
-                              style={{ transform: 'translateY(-50%)' }}
-                              onMouseDown={(e) => handleResizeStart(e, el.id, 'e')}
+                <div className="md:col-span-2 space-y-2">
+                  <div ref={previewContainerRef} onMouseDown={handleMarqueeStart} className="relative w-full bg-gray-900 rounded-lg overflow-hidden shadow-lg border-2 border-gray-700" style={{aspectRatio: appState.aspectRatio.replace(':', '/')}}>
+                    <img ref={imageRef} src={adjustedImageSrc} alt="Generated Thumbnail" className="w-full h-full object-contain" />
+                    <CompositionCanvas layers={appState.textElements} width={previewWidth} height={previewHeight} />
+                    {getVisibleElements(appState.textElements).map(el => {
+                      const isText = isTextLayer(el);
+                      const frame = guideIntrusions[el.id]?.length
+                        ? '2px dashed #ef4444'
+                        : (appState.selectedTextElementIds.includes(el.id) ? '2px dashed #818cf8' : '2px dashed transparent');
+
+                      return (
+                      <div
+                        key={el.id}
+                        className="absolute"
+                        style={{
+                          left: 0,
+                          top: 0,
+                          width: `${el.width}px`,
+                          height: `${el.height}px`,
+                          transform: `translate(${el.position.x}px, ${el.position.y}px) rotate(${el.rotation}deg)`,
+                          transformOrigin: 'top left',
+                          // The canvas below paints the layer; this frame only takes the clicks
+                          outline: frame,
+                          cursor: 'move',
+                          userSelect: 'none',
+                          // Locked layers let clicks fall through to the canvas
+                          pointerEvents: el.locked ? 'none' : undefined,
+                        }}
+                         onMouseDown={(e) => handleDragStart(e, el.id)}
+                      >
+                        {guideIntrusions[el.id]?.length > 0 && (
+                          <span
+                            className="absolute -top-3 left-1/2 -translate-x-1/2 bg-red-600 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs"
+                            title={guideIntrusions[el.id].includes('badge') ? t('editor.underDurationBadge')
+                              : guideIntrusions[el.id].includes('crop') ? t('editor.outsideCropFrame')
+                              : t('editor.outsideSafeArea')}
+                          >
+                            <i className="fa-solid fa-triangle-exclamation"></i>
+                          </span>
+                        )}
+                        {appState.activeTextElementId === el.id && !el.locked && (
+                          <>
+                            {/* Corner Handles */}
+                            <div
+                              className="absolute -top-2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nwse-resize"
+                              onMouseDown={(e) => handleResizeStart(e, el.id, 'nw')}
+                            />
+                             <div
+                              className="absolute -top-2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nesw-resize"
+                              onMouseDown={(e) => handleResizeStart(e, el.id, 'ne')}
                             />
                             <div
-                              className="absolute top-1/2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-ew-resize"
-                              style={{ transform: 'translateY(-50%)' }}
-                              onMouseDown={(e) => handleResizeStart(e, el.id, 'w')}
+                              className="absolute -bottom-2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nesw-resize"
+                              onMouseDown={(e) => handleResizeStart(e, el.id, 'sw')}
                             />
-                        </>
-                      )}
-                    </div>
-                  )})}
+                            <div
+                              className="absolute -bottom-2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-nwse-resize"
+                              onMouseDown={(e) => handleResizeStart(e, el.id, 'se')}
+                            />
+
+                            {/* Side Handles */}
+                            <div
+                                className="absolute top-1/2 -right-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-ew-resize"
+                                style={{ transform: 'translateY(-50%)' }}
+                                onMouseDown={(e) => handleResizeStart(e, el.id, 'e')}
+                              />
+                              <div
+                                className="absolute top-1/2 -left-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-ew-resize"
+                                style={{ transform: 'translateY(-50%)' }}
+                                onMouseDown={(e) => handleResizeStart(e, el.id, 'w')}
+                              />
+                              {/* Text height follows its content; pictures can be stretched */}
+                              {!isText && (
+                                <div
+                                  className="absolute left-1/2 -bottom-2 w-4 h-4 bg-indigo-500 border-2 border-white rounded-full cursor-ns-resize"
+                                  style={{ transform: 'translateX(-50%)' }}
+                                  onMouseDown={(e) => handleResizeStart(e, el.id, 's')}
+                                />
+                              )}
+                          </>
+                        )}
+                      </div>
+                    )})}
+                    <EditorGuides options={guideOptions} aspectRatio={appState.aspectRatio} />
+                    {snapGuides.x.map(x => (
+                      <div key={`snap-x-${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: x }} />
+                    ))}
+                    {snapGuides.y.map(y => (
+                      <div key={`snap-y-${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: y }} />
+                    ))}
+                    {marquee && (
+                      <div
+                        className="absolute border border-indigo-400 bg-indigo-500/10 pointer-events-none"
+                        style={{ left: marquee.left, top: marquee.top, width: marquee.right - marquee.left, height: marquee.bottom - marquee.top }}
+                      />
+                    )}
+                    {maskTool && (
+                      <MaskCanvas
+                        canvasRef={maskCanvasRef}
+                        tool={maskTool}
+                        brushSize={brushSize}
+                        width={previewWidth}
+                        height={previewHeight}
+                        onChange={setHasMask}
+                      />
+                    )}
+                  </div>
+                  <GuidesToolbar options={guideOptions} aspectRatio={appState.aspectRatio} onChange={setGuideOptions} />
+                  <LayersPanel
+                    textElements={appState.textElements}
+                    selectedIds={appState.selectedTextElementIds}
+                    baseImage={appState.generatedImage}
+                    onSelect={handleSelectLayer}
+                    onMove={handleMoveLayer}
+                    onUpdate={handleUpdateLayer}
+                  />
                 </div>
 
                 {/* Controls */}
                 <div className="md:col-span-1 bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-4 overflow-y-auto max-h-[60vh]">
-                  <button onClick={handleAddText} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 flex items-center justify-center">
-                    <i className="fa-solid fa-plus mr-2"></i> Adicionar Texto
-                  </button>
-                  {activeTextElement ? (
+                  <div className="flex gap-2">
+                    <button onClick={handleAddText} className="flex-grow bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 flex items-center justify-center">
+                      <i className="fa-solid fa-plus mr-2"></i> {t('editor.addText')}
+                    </button>
+                    <button
+                      onClick={handleUndo}
+                      disabled={!history.canUndo || appState.isLoading}
+                      className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white py-2 px-3 rounded-md transition"
+                      aria-label={t('editor.undo')}
+                      title={t('editor.undoHint')}
+                    >
+                      <i className="fa-solid fa-rotate-left"></i>
+                    </button>
+                    <button
+                      onClick={handleRedo}
+                      disabled={!history.canRedo || appState.isLoading}
+                      className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white py-2 px-3 rounded-md transition"
+                      aria-label={t('editor.redo')}
+                      title={t('editor.redoHint')}
+                    >
+                      <i className="fa-solid fa-rotate-right"></i>
+                    </button>
+                  </div>
+                  <AddLayerMenu
+                    onAddImage={handleAddImageLayer}
+                    onAddShape={handleAddShapeLayer}
+                    onAddSticker={handleAddSticker}
+                    contentLanguage={appState.contentLanguage}
+                    cutouts={appState.uploadedImages.filter(image => image.cutout)}
+                    onAddCutout={handleAddCutoutLayer}
+                  />
+                  {movableSelectedIds.length > 0 && (
+                    <AlignmentToolbar
+                      selectionCount={movableSelectedIds.length}
+                      onAlign={handleAlign}
+                      onDistribute={handleDistribute}
+                    />
+                  )}
+                  {activeLayer ? (
                     <div className="space-y-4 divide-y divide-gray-700">
+                      {activeTextElement ? (
+                      <>
                       <div className="pt-2">
-                        <label className="block text-sm font-medium text-gray-400">Texto</label>
+                        <label className="block text-sm font-medium text-gray-400">{t('editor.text')}</label>
                         <textarea
                             value={activeTextElement.text}
                             onChange={e => handleUpdateActiveTextElement({ text: e.target.value.toUpperCase() })}
@@ -1009,41 +1868,46 @@ const App: React.FC = () => {
                             rows={3}
                         />
                       </div>
+                      <WordStyleEditor
+                        element={activeTextElement}
+                        keywords={activeHeadlineKeywords}
+                        onChange={runs => handleUpdateActiveTextElement({ runs })}
+                      />
                       <div className="pt-4">
-                         <h3 className="text-sm font-bold text-gray-300 mb-2">Fonte</h3>
+                         <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.font')}</h3>
                         <select value={activeTextElement.fontFamily} onChange={e => handleUpdateActiveTextElement({ fontFamily: e.target.value })} className="w-full mt-1 bg-gray-700 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500">
                           {FONTS.map(font => <option key={font.name} value={font.value}>{font.name}</option>)}
                         </select>
-                        <label className="block text-sm font-medium text-gray-400 mt-2">Tamanho ({activeTextElement.fontSize}px)</label>
+                        <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.fontSize', { value: activeTextElement.fontSize })}</label>
                         <input type="range" min="10" max="200" value={activeTextElement.fontSize} onChange={e => handleUpdateActiveTextElement({ fontSize: parseInt(e.target.value) })} className="w-full mt-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
-                        <label className="block text-sm font-medium text-gray-400 mt-2">Espaçamento Letras ({activeTextElement.letterSpacing}px)</label>
+                        <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.letterSpacing', { value: activeTextElement.letterSpacing })}</label>
                         <input type="range" min="-10" max="25" value={activeTextElement.letterSpacing} onChange={e => handleUpdateActiveTextElement({ letterSpacing: parseInt(e.target.value) })} className="w-full mt-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
-                        <label className="block text-sm font-medium text-gray-400 mt-2">Altura Linha ({activeTextElement.lineHeight.toFixed(1)})</label>
+                        <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.lineHeight', { value: activeTextElement.lineHeight.toFixed(1) })}</label>
                         <input type="range" min="0.8" max="3" step="0.1" value={activeTextElement.lineHeight} onChange={e => handleUpdateActiveTextElement({ lineHeight: parseFloat(e.target.value) })} className="w-full mt-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
                          <div className="flex items-center justify-between mt-3">
-                            <label className="block text-sm font-medium text-gray-400">Alinhamento</label>
+                            <label className="block text-sm font-medium text-gray-400">{t('editor.alignment')}</label>
                             <div className="flex items-center space-x-1 bg-gray-900/50 p-1 rounded-md">
                                 <button
                                     onClick={() => handleUpdateActiveTextElement({ textAlign: 'left' })}
                                     className={`px-3 py-1 text-sm rounded transition-colors ${activeTextElement.textAlign === 'left' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
-                                    aria-label="Alinhar à esquerda"
-                                    title="Alinhar à esquerda"
+                                    aria-label={t('editor.alignLeft')}
+                                    title={t('editor.alignLeft')}
                                 >
                                     <i className="fa-solid fa-align-left"></i>
                                 </button>
                                 <button
                                     onClick={() => handleUpdateActiveTextElement({ textAlign: 'center' })}
                                     className={`px-3 py-1 text-sm rounded transition-colors ${activeTextElement.textAlign === 'center' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
-                                    aria-label="Centralizar"
-                                    title="Centralizar"
+                                    aria-label={t('editor.alignCenter')}
+                                    title={t('editor.alignCenter')}
                                 >
                                     <i className="fa-solid fa-align-center"></i>
                                 </button>
                                 <button
                                     onClick={() => handleUpdateActiveTextElement({ textAlign: 'right' })}
                                     className={`px-3 py-1 text-sm rounded transition-colors ${activeTextElement.textAlign === 'right' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
-                                    aria-label="Alinhar à direita"
-                                    title="Alinhar à direita"
+                                    aria-label={t('editor.alignRight')}
+                                    title={t('editor.alignRight')}
                                 >
                                     <i className="fa-solid fa-align-right"></i>
                                 </button>
@@ -1051,86 +1915,217 @@ const App: React.FC = () => {
                         </div>
                       </div>
                        <div className="pt-4">
-                          <h3 className="text-sm font-bold text-gray-300 mb-2">Cor</h3>
+                          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.color')}</h3>
                            <label className="relative inline-flex items-center cursor-pointer">
                             <input type="checkbox" checked={activeTextElement.useGradient} onChange={e => handleUpdateActiveTextElement({ useGradient: e.target.checked })} className="sr-only peer" />
                             <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-indigo-800 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-                            <span className="ml-3 text-sm font-medium text-gray-400">Usar Gradiente</span>
+                            <span className="ml-3 text-sm font-medium text-gray-400">{t('editor.useGradient')}</span>
                           </label>
                           {activeTextElement.useGradient ? (
                             <div className="mt-2 space-y-2">
                                <div className="grid grid-cols-2 gap-2">
                                 <div>
-                                  <label className="block text-xs font-medium text-gray-400">Cor 1</label>
+                                  <label className="block text-xs font-medium text-gray-400">{t('editor.gradientColor1')}</label>
                                   <input type="color" value={activeTextElement.gradientColor1} onChange={e => handleUpdateActiveTextElement({ gradientColor1: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
                                 </div>
                                 <div>
-                                  <label className="block text-xs font-medium text-gray-400">Cor 2</label>
+                                  <label className="block text-xs font-medium text-gray-400">{t('editor.gradientColor2')}</label>
                                   <input type="color" value={activeTextElement.gradientColor2} onChange={e => handleUpdateActiveTextElement({ gradientColor2: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
                                 </div>
                               </div>
-                              <label className="block text-sm font-medium text-gray-400">Ângulo ({activeTextElement.gradientAngle}°)</label>
+                              <label className="block text-sm font-medium text-gray-400">{t('editor.gradientAngle', { value: activeTextElement.gradientAngle })}</label>
                               <input type="range" min="0" max="360" value={activeTextElement.gradientAngle} onChange={e => handleUpdateActiveTextElement({ gradientAngle: parseInt(e.target.value) })} className="w-full mt-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
                             </div>
                           ) : (
                             <div className="mt-2">
-                              <label className="block text-sm font-medium text-gray-400">Cor Sólida</label>
+                              <label className="block text-sm font-medium text-gray-400">{t('editor.solidColor')}</label>
                               <input type="color" value={activeTextElement.color} onChange={e => handleUpdateActiveTextElement({ color: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
                             </div>
                           )}
                        </div>
                        <div className="pt-4">
-                          <h3 className="text-sm font-bold text-gray-300 mb-2">Contorno</h3>
+                          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.stroke')}</h3>
                            <input type="color" value={activeTextElement.strokeColor} onChange={e => handleUpdateActiveTextElement({ strokeColor: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
-                           <label className="block text-sm font-medium text-gray-400 mt-2">Largura Contorno ({activeTextElement.strokeWidth}px)</label>
+                           <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.strokeWidth', { value: activeTextElement.strokeWidth })}</label>
                            <input type="range" min="0" max="15" value={activeTextElement.strokeWidth} onChange={e => handleUpdateActiveTextElement({ strokeWidth: parseInt(e.target.value) })} className="w-full mt-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
                        </div>
                         <div className="pt-4">
-                          <h3 className="text-sm font-bold text-gray-300 mb-2">Sombra</h3>
-                          <label className="block text-sm font-medium text-gray-400">Cor</label>
+                          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.shadow')}</h3>
+                          <label className="block text-sm font-medium text-gray-400">{t('editor.color')}</label>
                           <input type="color" value={activeTextElement.shadowColor} onChange={e => handleUpdateActiveTextElement({ shadowColor: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
-                          <label className="block text-sm font-medium text-gray-400 mt-2">Desfoque ({activeTextElement.shadowBlur}px)</label>
+                          <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.shadowBlur', { value: activeTextElement.shadowBlur })}</label>
                           <input type="range" min="0" max="50" value={activeTextElement.shadowBlur} onChange={e => handleUpdateActiveTextElement({ shadowBlur: parseInt(e.target.value) })} className="w-full mt-1" />
-                          <label className="block text-sm font-medium text-gray-400 mt-2">Offset X ({activeTextElement.shadowOffsetX}px)</label>
+                          <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.shadowOffsetX', { value: activeTextElement.shadowOffsetX })}</label>
                           <input type="range" min="-50" max="50" value={activeTextElement.shadowOffsetX} onChange={e => handleUpdateActiveTextElement({ shadowOffsetX: parseInt(e.target.value) })} className="w-full mt-1" />
-                          <label className="block text-sm font-medium text-gray-400 mt-2">Offset Y ({activeTextElement.shadowOffsetY}px)</label>
+                          <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.shadowOffsetY', { value: activeTextElement.shadowOffsetY })}</label>
                           <input type="range" min="-50" max="50" value={activeTextElement.shadowOffsetY} onChange={e => handleUpdateActiveTextElement({ shadowOffsetY: parseInt(e.target.value) })} className="w-full mt-1" />
                         </div>
                          <div className="pt-4">
-                          <h3 className="text-sm font-bold text-gray-300 mb-2">Transformação</h3>
-                          <label className="block text-sm font-medium text-gray-400">Rotação ({activeTextElement.rotation}°)</label>
+                          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.transform')}</h3>
+                          <label className="block text-sm font-medium text-gray-400">{t('editor.rotation', { value: activeTextElement.rotation })}</label>
                           <input type="range" min="-45" max="45" value={activeTextElement.rotation} onChange={e => handleUpdateActiveTextElement({ rotation: parseInt(e.target.value) })} className="w-full mt-1" />
                         </div>
-                      <div className="pt-4">
-                        <button onClick={handleRemoveActiveTextElement} className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 flex items-center justify-center">
-                           <i className="fa-solid fa-trash mr-2"></i> Remover Texto
+                      </>
+                      ) : (
+                        <PictureLayerControls layer={activeLayer} onChange={handleUpdateActiveTextElement} />
+                      )}
+                      <div className="pt-4 space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          <button onClick={handleDuplicateSelection} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-md transition text-sm">
+                            <i className="fa-solid fa-copy mr-2"></i> {t('editor.duplicate')}
+                          </button>
+                          {isSelectionGrouped ? (
+                            <button onClick={handleUngroupSelection} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-md transition text-sm">
+                              <i className="fa-solid fa-object-ungroup mr-2"></i> {t('editor.ungroup')}
+                            </button>
+                          ) : (
+                            <button
+                              onClick={handleGroupSelection}
+                              disabled={selectedTextElementIds.length < 2}
+                              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-3 rounded-md transition text-sm"
+                              title={t('editor.groupHint')}
+                            >
+                              <i className="fa-solid fa-object-group mr-2"></i> {t('editor.group')}
+                            </button>
+                          )}
+                        </div>
+                        <button onClick={handleRemoveSelectedTextElements} className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition duration-300 flex items-center justify-center">
+                           <i className="fa-solid fa-trash mr-2"></i> {selectedTextElementIds.length > 1 ? t('editor.removeLayers', { count: selectedTextElementIds.length }) : t('editor.removeLayer')}
                         </button>
                       </div>
                     </div>
                   ) : (
                     <div className="text-center text-gray-500 p-4 border-2 border-dashed border-gray-700 rounded-lg">
-                      <p>Clique em "Adicionar Texto" para começar ou selecione um texto na imagem para editar.</p>
+                      <p>{t('editor.empty')}</p>
                     </div>
                   )}
                 </div>
 
                  <div className="md:col-span-3 mt-4 space-y-4">
+                    <YouTubePreview
+                      image={appState.generatedImage}
+                      textElements={appState.textElements}
+                      previewWidth={previewWidth}
+                      adjustments={appState.imageAdjustments}
+                      title={activeHeadline || appState.originalHeadline}
+                    />
+
+                    {/* Variants and formats both swap the composition in the editor, so only one mode at a time */}
+                    {appState.formats.length === 0 && (
+                      <VariantsPanel
+                        variants={syncedVariants}
+                        activeVariantId={appState.activeVariantId}
+                        headlineOptions={headlineOptions}
+                        previewWidth={previewWidth}
+                        adjustments={appState.imageAdjustments}
+                        defaultSetName={slugify(appState.originalHeadline || appState.selectedHeadline)}
+                        onEnable={handleEnableVariants}
+                        onDisable={handleDisableVariants}
+                        onAdd={handleAddVariant}
+                        onRemove={handleRemoveVariant}
+                        onSelect={handleSelectVariant}
+                        onChangeHeadline={handleChangeVariantHeadline}
+                        onExport={handleExportVariants}
+                      />
+                    )}
+
+                    {appState.variants.length === 0 && (
+                      <FormatsPanel
+                        formats={syncedFormats}
+                        activeFormatId={appState.activeFormatId}
+                        previewWidth={previewWidth}
+                        adjustments={appState.imageAdjustments}
+                        isDeriving={isDerivingFormat}
+                        onEnable={handleEnableFormats}
+                        onDisable={handleDisableFormats}
+                        onAdd={handleAddFormat}
+                        onRemove={handleRemoveFormat}
+                        onSelect={handleSelectFormat}
+                        onExport={handleExportFormats}
+                      />
+                    )}
+
+                    {appState.imageGallery.length > 1 && (
+                      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+                        <h3 className="text-base font-bold text-gray-200">
+                          <i className="fa-solid fa-images mr-2 text-indigo-400"></i>
+                          {t('editor.gallery')}
+                        </h3>
+                        <p className="text-sm text-gray-400">{t('editor.galleryHint')}</p>
+                        <ImageGrid
+                          images={appState.imageGallery}
+                          selectedImage={appState.generatedImage}
+                          onSelect={handleSelectGalleryImage}
+                          columnsClassName="grid-cols-4 sm:grid-cols-6"
+                        />
+                      </div>
+                    )}
+
                     {appState.finalPrompt && (
                       <PromptDisplay prompt={appState.finalPrompt} />
                     )}
+
+                    <AdjustmentsPanel
+                      adjustments={appState.imageAdjustments}
+                      onChange={handleChangeAdjustments}
+                      onReset={handleResetAdjustments}
+                    />
+
+                    <TranslatePanel
+                      contentLanguage={appState.contentLanguage}
+                      disabled={!provider}
+                      onTranslate={handleTranslateThumbnail}
+                    />
+
+                    <ReframePanel
+                      generatedImage={appState.generatedImage}
+                      textElements={appState.textElements}
+                      aspectRatio={appState.aspectRatio}
+                      previewWidth={previewWidth}
+                      adjustments={appState.imageAdjustments}
+                      disabledReason={
+                        appState.variants.length > 0 ? t('editor.reframeInVariants')
+                          : appState.formats.length > 0 ? t('editor.reframeInFormats')
+                          : null
+                      }
+                      onPreview={handlePreviewReframe}
+                      onApply={handleApplyReframe}
+                    />
                     
                     <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
                         <h3 className="text-base font-bold text-gray-200">
                           <i className="fa-solid fa-wand-magic-sparkles mr-2 text-indigo-400"></i>
-                          Modificar Imagem
+                          {t('editor.modify')}
                         </h3>
-                        <p className="text-sm text-gray-400">Descreva a alteração que você quer fazer na imagem atual (em português).</p>
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-sm text-gray-400">{t('editor.modifyHint')}</p>
+                          <button
+                            onClick={() => {
+                              setMaskTool(prev => prev ? null : 'brush');
+                              setHasMask(false);
+                            }}
+                            className={`flex-shrink-0 text-xs py-1 px-2 rounded transition ${maskTool ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                            title={t('editor.maskHint')}
+                          >
+                            <i className="fa-solid fa-paintbrush mr-1"></i> {maskTool ? t('editor.maskExit') : t('editor.maskStart')}
+                          </button>
+                        </div>
+                        {maskTool && (
+                          <MaskToolbar
+                            tool={maskTool}
+                            brushSize={brushSize}
+                            hasMask={hasMask}
+                            onToolChange={setMaskTool}
+                            onBrushSizeChange={setBrushSize}
+                            onClear={handleClearMask}
+                          />
+                        )}
                         <div className="flex gap-2">
                             <input
                                 type="text"
                                 value={modificationPrompt}
                                 onChange={(e) => setModificationPrompt(e.target.value)}
-                                placeholder="Ex: adicione um chapéu de pirata, mude o fundo para uma praia"
+                                placeholder={t('editor.modifyPlaceholder')}
                                 className="w-full bg-gray-700 border-2 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500 transition"
                                 disabled={appState.isLoading}
                             />
@@ -1138,35 +2133,44 @@ const App: React.FC = () => {
                                 onClick={handleModifyImage}
                                 disabled={appState.isLoading || !modificationPrompt.trim()}
                                 className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md flex items-center justify-center"
-                                title="Aplicar Modificação"
+                                title={t('editor.modifyApply')}
                             >
-                                {appState.isLoading && loadingMessage === 'Aplicando modificações...' ? <LoadingSpinner /> : <i className="fa-solid fa-arrow-right"></i>}
+                                {appState.isLoading && loadingMessage === t('loading.modifying') ? <LoadingSpinner /> : <i className="fa-solid fa-arrow-right"></i>}
                             </button>
                         </div>
                     </div>
 
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                        <button
-                        onClick={handleDownloadWithText}
+                        onClick={() => setIsExportDialogOpen(true)}
                         className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
                       >
                         <i className="fa-solid fa-download mr-2"></i>
-                        Finalizar e Baixar
+                        {t('editor.download')}
                       </button>
+                      {isExportDialogOpen && imageRef.current && (
+                        <ExportDialog
+                          aspectRatio={appState.aspectRatio}
+                          headline={appState.selectedHeadline || appState.originalHeadline}
+                          naturalSize={{ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight }}
+                          onExport={handleExport}
+                          onClose={() => setIsExportDialogOpen(false)}
+                        />
+                      )}
                       <button
                         onClick={handleGenerateFinalImage}
                         disabled={appState.isLoading}
                         className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center disabled:bg-purple-900/50 disabled:cursor-not-allowed"
                       >
                         <i className="fa-solid fa-arrows-rotate mr-2"></i>
-                        Gerar Novamente
+                        {t('editor.regenerate')}
                       </button>
                       <button
                         onClick={handleReset}
                         className="w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
                       >
                         <i className="fa-solid fa-arrow-rotate-left mr-2"></i>
-                        Começar Novamente
+                        {t('editor.startOver')}
                       </button>
                     </div>
                   </div>
@@ -1178,7 +2182,7 @@ const App: React.FC = () => {
              <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 animate-fade-in flex flex-col items-center justify-center">
                 <h2 className="text-2xl font-bold text-center mb-4 text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-500">
                     <i className="fa-solid fa-wand-magic-sparkles mr-2"></i>
-                    Gerando sua Thumbnail...
+                    {t('loading.thumbnail')}
                 </h2>
                 <div className="flex flex-col items-center justify-center p-8">
                   <LoadingSpinner />
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { ContentLanguage, ShapeKind, StickerDefinition, UploadedImage } from '../types';
+import { SHAPE_OPTIONS, STICKERS } from '../constants';
+import { toDataUrl } from '../services/imageUtils';
+import { shapeLabelKey, stickerLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface AddLayerMenuProps {
+  onAddImage: (file: File) => void;
+  onAddShape: (shape: ShapeKind) => void;
+  onAddSticker: (sticker: StickerDefinition) => void;
+  // Badge stickers are shown in the language they will be drawn in
+  contentLanguage: ContentLanguage;
+  // Subject cut-outs made on the upload step
+  cutouts: UploadedImage[];
+  onAddCutout: (cutout: UploadedImage) => void;
+}
+
+const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-white py-2 px-2 rounded-md transition text-sm';
+
+const AddLayerMenu: React.FC<AddLayerMenuProps> = ({ onAddImage, onAddShape, onAddSticker, contentLanguage, cutouts, onAddCutout }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showStickers, setShowStickers] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-6 gap-1">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={buttonClass}
+          aria-label={t('addLayer.image')}
+          title={t('addLayer.imageHint')}
+        >
+          <i className="fa-regular fa-image"></i>
+        </button>
+        {SHAPE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onAddShape(option.value)}
+            className={buttonClass}
+            aria-label={t('addLayer.shape', { shape: t(shapeLabelKey(option.value)) })}
+            title={t(shapeLabelKey(option.value))}
+          >
+            <i className={option.icon}></i>
+          </button>
+        ))}
+        <button
+          onClick={() => setShowStickers(prev => !prev)}
+          className={`${buttonClass} ${showStickers ? 'ring-2 ring-indigo-500' : ''}`}
+          aria-label={t('addLayer.stickers')}
+          title={t('addLayer.stickers')}
+        >
+          <i className="fa-regular fa-face-smile"></i>
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png,image/webp,image/jpeg,image/svg+xml"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onAddImage(file);
+          e.target.value = '';
+        }}
+      />
+      {showStickers && (
+        <div className="grid grid-cols-5 gap-1 bg-gray-900/50 p-2 rounded-md">
+          {STICKERS.map(sticker => (
+            <button
+              key={sticker.id}
+              onClick={() => onAddSticker(sticker)}
+              className="h-10 rounded hover:bg-gray-700 transition flex items-center justify-center"
+              title={t(stickerLabelKey(sticker.id))}
+            >
+              {sticker.emoji
+                ? <span className="text-2xl">{sticker.emoji}</span>
+                : (
+                  <span
+                    className="px-1 rounded text-[10px] font-bold leading-tight border border-white"
+                    style={{ background: sticker.badge!.background, color: sticker.badge!.color }}
+                  >
+                    {sticker.badge!.text[contentLanguage]}
+                  </span>
+                )}
+            </button>
+          ))}
+        </div>
+      )}
+      {cutouts.length > 0 && (
+        <div className="flex flex-wrap gap-1 items-center">
+          <span className="text-xs text-gray-400 mr-1">{t('addLayer.cutouts')}</span>
+          {cutouts.map((cutout, index) => (
+            <button
+              key={index}
+              onClick={() => onAddCutout(cutout)}
+              className="w-10 h-10 rounded bg-gray-900/50 hover:bg-gray-700 transition p-0.5"
+              title={t('addLayer.cutoutHint')}
+            >
+              <img src={toDataUrl(cutout)} alt={t('addLayer.cutoutAlt', { number: index + 1 })} className="w-full h-full object-contain" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddLayerMenu;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ImageAdjustments } from '../types';
+import { DEFAULT_IMAGE_ADJUSTMENTS, STYLES } from '../constants';
+import { hasAdjustments } from '../services/adjustments';
+import { styleLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/pt-BR';
+
+interface AdjustmentsPanelProps {
+  adjustments: ImageAdjustments;
+  onChange: (updates: Partial<ImageAdjustments>) => void;
+  onReset: () => void;
+}
+
+type SliderKey = Exclude<keyof ImageAdjustments, 'preset'>;
+
+const sliders: { key: SliderKey; labelKey: MessageKey; min: number }[] = [
+  { key: 'brightness', labelKey: 'adjust.brightness', min: -100 },
+  { key: 'contrast', labelKey: 'adjust.contrast', min: -100 },
+  { key: 'saturation', labelKey: 'adjust.saturation', min: -100 },
+  { key: 'vibrance', labelKey: 'adjust.vibrance', min: -100 },
+  { key: 'temperature', labelKey: 'adjust.temperature', min: -100 },
+  { key: 'sharpen', labelKey: 'adjust.sharpen', min: 0 },
+  { key: 'vignette', labelKey: 'adjust.vignette', min: 0 },
+];
+
+// Colour corrections of the base image. Nothing here touches the stored image:
+// the values travel with the project and are applied when rendering.
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange, onReset }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-gray-200">
+          <i className="fa-solid fa-sliders mr-2 text-indigo-400"></i>
+          {t('adjust.title')}
+        </h3>
+        <button
+          onClick={onReset}
+          disabled={!hasAdjustments(adjustments)}
+          className="text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('adjust.reset')}
+        </button>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-400">{t('adjust.look')}</label>
+        <select
+          value={adjustments.preset ?? ''}
+          onChange={e => onChange({ preset: e.target.value || null })}
+          className="w-full mt-1 bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">{t('adjust.noLook')}</option>
+          {STYLES.map(style => <option key={style.value} value={style.value}>{style.icon} {t(styleLabelKey(style.value))}</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        {sliders.map(slider => (
+          <label key={slider.key} className="block text-xs text-gray-400">
+            {t(slider.labelKey)} ({adjustments[slider.key]})
+            <input
+              type="range"
+              min={slider.min}
+              max="100"
+              value={adjustments[slider.key]}
+              onChange={e => onChange({ [slider.key]: parseInt(e.target.value) })}
+              onDoubleClick={() => onChange({ [slider.key]: DEFAULT_IMAGE_ADJUSTMENTS[slider.key] })}
+              className="w-full"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
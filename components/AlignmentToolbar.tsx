@@ -0,0 +1,62 @@
+import React from 'react';
+import { AlignMode, DistributeAxis } from '../services/alignment';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/pt-BR';
+
+interface AlignmentToolbarProps {
+  selectionCount: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const alignButtons: { mode: AlignMode; labelKey: MessageKey; icon: string }[] = [
+  { mode: 'left', labelKey: 'align.left', icon: 'fa-solid fa-arrow-left' },
+  { mode: 'center', labelKey: 'align.center', icon: 'fa-solid fa-arrows-left-right' },
+  { mode: 'right', labelKey: 'align.right', icon: 'fa-solid fa-arrow-right' },
+  { mode: 'top', labelKey: 'align.top', icon: 'fa-solid fa-arrow-up' },
+  { mode: 'middle', labelKey: 'align.middle', icon: 'fa-solid fa-arrows-up-down' },
+  { mode: 'bottom', labelKey: 'align.bottom', icon: 'fa-solid fa-arrow-down' },
+];
+
+const buttonClass = 'px-2 py-1 text-sm rounded text-gray-300 hover:bg-gray-700 transition-colors';
+
+const AlignmentToolbar: React.FC<AlignmentToolbarProps> = ({ selectionCount, onAlign, onDistribute }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-400">{t('align.title')}</span>
+        <span className="text-xs text-gray-500">
+          {selectionCount > 1 ? t('align.selected', { count: selectionCount }) : t('align.relativeToImage')}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 bg-gray-900/50 p-1 rounded-md">
+        {alignButtons.map(button => (
+          <button
+            key={button.mode}
+            onClick={() => onAlign(button.mode)}
+            className={buttonClass}
+            aria-label={t(button.labelKey)}
+            title={t(button.labelKey)}
+          >
+            <i className={button.icon}></i>
+          </button>
+        ))}
+        {selectionCount >= 3 && (
+          <>
+            <button onClick={() => onDistribute('horizontal')} className={buttonClass} title={t('align.distributeHorizontal')}>
+              <i className="fa-solid fa-grip-lines-vertical"></i>
+            </button>
+            <button onClick={() => onDistribute('vertical')} className={buttonClass} title={t('align.distributeVertical')}>
+              <i className="fa-solid fa-grip-lines"></i>
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">{t('align.hint')}</p>
+    </div>
+  );
+};
+
+export default AlignmentToolbar;
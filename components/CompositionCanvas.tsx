@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layer } from '../types';
+import { prepareLayers } from '../services/compositionRenderer';
+
+interface CompositionCanvasProps {
+  layers: Layer[];
+  width: number;
+  height: number;
+}
+
+// Paints the layers with the export renderer so the editor shows exactly what
+// gets downloaded. Interaction happens on the transparent frames above it.
+const CompositionCanvas: React.FC<CompositionCanvasProps> = ({ layers, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const pixelRatio = window.devicePixelRatio || 1;
+
+  // Fonts used by the layers may finish loading after the first paint
+  useEffect(() => {
+    const handleLoadingDone = () => setFontsVersion(prev => prev + 1);
+    document.fonts.addEventListener('loadingdone', handleLoadingDone);
+    return () => document.fonts.removeEventListener('loadingdone', handleLoadingDone);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    prepareLayers(layers, pixelRatio)
+      .then(paintLayers => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (cancelled || !canvas || !ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        paintLayers(ctx);
+      })
+      .catch(err => console.error("Failed to render editor preview:", err));
+    return () => { cancelled = true; };
+  }, [layers, width, height, pixelRatio, fontsVersion]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * pixelRatio)}
+      height={Math.round(height * pixelRatio)}
+      className="absolute top-0 left-0 pointer-events-none"
+      style={{ width: `${width}px`, height: `${height}px` }}
+    />
+  );
+};
+
+export default CompositionCanvas;
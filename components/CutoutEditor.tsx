@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedImage } from '../types';
+import { createCanvas, loadImage, toDataUrl } from '../services/imageUtils';
+import { applyCutoutMask, segmentSubject } from '../services/segmentation';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../hooks/useI18n';
+import { getErrorMessage } from '../services/i18n';
+
+interface CutoutEditorProps {
+  image: UploadedImage;
+  onSave: (cutout: UploadedImage, replaceOriginal: boolean) => void;
+  onClose: () => void;
+}
+
+type RefineTool = 'add' | 'erase';
+
+const CHECKERBOARD = 'repeating-conic-gradient(#4b5563 0% 25%, #374151 0% 50%) 50% / 20px 20px';
+
+// Automatic subject cut-out with brushes to fix what the model got wrong. The
+// mask is kept at the image's natural size; brush sizes are in screen pixels.
+const CutoutEditor: React.FC<CutoutEditorProps> = ({ image, onSave, onClose }) => {
+  const { t } = useI18n();
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const [isSegmenting, setIsSegmenting] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tool, setTool] = useState<RefineTool>('erase');
+  const [brushSize, setBrushSize] = useState(30);
+
+  const redraw = () => {
+    const display = displayRef.current;
+    const img = imgRef.current;
+    const mask = maskRef.current;
+    const ctx = display?.getContext('2d');
+    if (!display || !img || !mask || !ctx) return;
+
+    ctx.clearRect(0, 0, display.width, display.height);
+    // The discarded part stays faintly visible so it can be brushed back in
+    ctx.globalAlpha = 0.25;
+    ctx.drawImage(img, 0, 0);
+    ctx.globalAlpha = 1;
+
+    const subject = createCanvas(display.width, display.height);
+    subject.ctx.drawImage(img, 0, 0);
+    subject.ctx.globalCompositeOperation = 'destination-in';
+    subject.ctx.drawImage(mask, 0, 0);
+    ctx.drawImage(subject.canvas, 0, 0);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const img = await loadImage(toDataUrl(image));
+        if (cancelled) return;
+        imgRef.current = img;
+        const { canvas: mask, ctx: maskCtx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        maskRef.current = mask;
+        if (displayRef.current) {
+          displayRef.current.width = img.naturalWidth;
+          displayRef.current.height = img.naturalHeight;
+        }
+        redraw();
+
+        const segmented = await segmentSubject(image);
+        if (cancelled) return;
+        maskCtx.drawImage(segmented, 0, 0);
+        redraw();
+      } catch (err) {
+        console.error("Failed to segment image:", err);
+        if (!cancelled) {
+          setError(getErrorMessage(err, t('cutout.segmentFailed'), t));
+          // Without a model the cut-out starts empty and is painted by hand
+          setTool('add');
+        }
+      } finally {
+        if (!cancelled) setIsSegmenting(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [image]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const display = displayRef.current;
+    const ctx = maskRef.current?.getContext('2d');
+    if (!display || !ctx) return;
+    e.preventDefault();
+
+    const rect = display.getBoundingClientRect();
+    const scale = display.width / rect.width;
+    const toImage = (event: MouseEvent | React.MouseEvent) => ({
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale,
+    });
+
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    let last = toImage(e);
+    ctx.beginPath();
+    ctx.moveTo(last.x, last.y);
+    ctx.lineTo(last.x + 0.01, last.y);
+    ctx.stroke();
+    redraw();
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const point = toImage(moveEvent);
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      last = point;
+      redraw();
+    };
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const handleSave = async (replaceOriginal: boolean) => {
+    if (!maskRef.current) return;
+    setIsSaving(true);
+    try {
+      onSave(await applyCutoutMask(image, maskRef.current), replaceOriginal);
+    } catch (err) {
+      setError(getErrorMessage(err, t('cutout.saveFailed'), t));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-2xl max-h-[95vh] overflow-y-auto p-5 space-y-4" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-200">
+            <i className="fa-solid fa-scissors mr-2 text-indigo-400"></i>
+            {t('cutout.title')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('cutout.close')}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="relative rounded-md overflow-hidden" style={{ background: CHECKERBOARD }}>
+          <canvas ref={displayRef} onMouseDown={handleMouseDown} className="block w-full h-auto" style={{ cursor: 'crosshair' }} />
+          {isSegmenting && (
+            <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-sm text-gray-200">
+              <LoadingSpinner /> {t('cutout.detecting')}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-amber-400">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-gray-900 rounded-md p-1">
+            <button
+              onClick={() => setTool('add')}
+              className={`px-3 py-1 text-sm rounded transition-colors ${tool === 'add' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              <i className="fa-solid fa-plus mr-1"></i> {t('cutout.add')}
+            </button>
+            <button
+              onClick={() => setTool('erase')}
+              className={`px-3 py-1 text-sm rounded transition-colors ${tool === 'erase' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              <i className="fa-solid fa-eraser mr-1"></i> {t('cutout.erase')}
+            </button>
+          </div>
+          <label className="flex-grow text-xs text-gray-400">
+            {t('cutout.brushSize', { size: brushSize })}
+            <input type="range" min="5" max="120" value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="w-full" />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={isSegmenting || isSaving}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition"
+            title={t('cutout.addAsNewHint')}
+          >
+            {t('cutout.addAsNew')}
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={isSegmenting || isSaving}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition"
+          >
+            {t('cutout.replace')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutEditor;
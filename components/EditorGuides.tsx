@@ -0,0 +1,69 @@
+import React from 'react';
+import { GuideOptions, AspectRatio } from '../types';
+import { DURATION_BADGE_ZONE, TITLE_SAFE_AREAS, GuideRect, getCropFrame } from '../services/safeZones';
+
+interface EditorGuidesProps {
+  options: GuideOptions;
+  aspectRatio: string;
+}
+
+const pct = (value: number) => `${value * 100}%`;
+
+const rectProps = (rect: GuideRect) => ({
+  x: pct(rect.x),
+  y: pct(rect.y),
+  width: pct(rect.width),
+  height: pct(rect.height),
+});
+
+const EditorGuides: React.FC<EditorGuidesProps> = ({ options, aspectRatio }) => {
+  if (!options.enabled) return null;
+  const safeArea = TITLE_SAFE_AREAS[aspectRatio as AspectRatio] ?? TITLE_SAFE_AREAS['16:9'];
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+      {options.ruleOfThirds && [1 / 3, 2 / 3].map(f => (
+        <g key={f} stroke="rgba(255,255,255,0.45)" strokeWidth="1">
+          <line x1={pct(f)} y1="0" x2={pct(f)} y2="100%" />
+          <line x1="0" y1={pct(f)} x2="100%" y2={pct(f)} />
+        </g>
+      ))}
+      {options.centerLines && (
+        <g stroke="rgba(129,140,248,0.8)" strokeWidth="1" strokeDasharray="6 4">
+          <line x1="50%" y1="0" x2="50%" y2="100%" />
+          <line x1="0" y1="50%" x2="100%" y2="50%" />
+        </g>
+      )}
+      {options.safeArea && (
+        <rect {...rectProps(safeArea)} fill="none" stroke="rgba(250,204,21,0.9)" strokeWidth="1.5" strokeDasharray="8 4" />
+      )}
+      {options.cropFrames.filter(ratio => ratio !== aspectRatio).map(ratio => {
+        const frame = getCropFrame(aspectRatio, ratio);
+        return (
+          <g key={ratio}>
+            <rect {...rectProps(frame)} fill="none" stroke="rgba(52,211,153,0.9)" strokeWidth="1.5" />
+            <text x={pct(frame.x + 0.005)} y={pct(frame.y)} dy="14" fill="rgba(52,211,153,0.95)" fontSize="12" fontWeight="bold">{ratio}</text>
+          </g>
+        );
+      })}
+      {options.durationBadge && (
+        <g>
+          <rect {...rectProps(DURATION_BADGE_ZONE)} fill="rgba(239,68,68,0.25)" stroke="rgba(239,68,68,0.9)" strokeWidth="1.5" />
+          <text
+            x={pct(DURATION_BADGE_ZONE.x + DURATION_BADGE_ZONE.width / 2)}
+            y={pct(DURATION_BADGE_ZONE.y + DURATION_BADGE_ZONE.height / 2)}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="white"
+            fontSize="12"
+            fontWeight="bold"
+          >
+            12:34
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default EditorGuides;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { AspectRatio, ExportSettings } from '../types';
+import { EXPORT_BYTE_LIMIT_OPTIONS, EXPORT_FORMAT_OPTIONS, EXPORT_SIZE_PRESETS } from '../constants';
+import { EncodedImage, buildExportFileName, formatBytes, getFormatOption, loadExportSettings, resolveExportSize, saveExportSettings } from '../services/exportImage';
+import { getErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ExportDialogProps {
+  aspectRatio: AspectRatio;
+  headline: string;
+  naturalSize: { width: number; height: number };
+  onExport: (settings: ExportSettings, fileName: string) => Promise<EncodedImage>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full mt-1 bg-gray-700 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ aspectRatio, headline, naturalSize, onExport, onClose }) => {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<ExportSettings>(() => {
+    const stored = loadExportSettings();
+    return { ...stored, size: resolveExportSize(stored.size, aspectRatio) };
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<EncodedImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<ExportSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setResult(null);
+  };
+
+  const outputSize = settings.size ?? naturalSize;
+  const fileName = buildExportFileName(settings.fileNameTemplate, { headline, ...outputSize }, settings.format);
+  const lossy = getFormatOption(settings.format).lossy;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      saveExportSettings(settings);
+      setResult(await onExport(settings, fileName));
+    } catch (err) {
+      console.error("Failed to export thumbnail:", err);
+      setError(getErrorMessage(err, t('export.failed'), t));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-md p-5 space-y-4" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-200">
+            <i className="fa-solid fa-file-export mr-2 text-indigo-400"></i>
+            {t('export.title')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('export.close')}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-400">{t('export.format')}</label>
+          <div className="grid grid-cols-3 gap-2 mt-1">
+            {EXPORT_FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update({ format: option.value })}
+                className={`py-2 rounded-md text-sm font-bold transition-colors ${settings.format === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {lossy && (
+          <div>
+            <label className="block text-sm font-medium text-gray-400">{t('export.quality', { value: Math.round(settings.quality * 100) })}</label>
+            <input type="range" min="0.4" max="1" step="0.01" value={settings.quality} onChange={e => update({ quality: parseFloat(e.target.value) })} className="w-full mt-1" />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-400">{t('export.resolution')}</label>
+          <select
+            value={settings.size ? `${settings.size.width}x${settings.size.height}` : 'original'}
+            onChange={e => {
+              const preset = EXPORT_SIZE_PRESETS[aspectRatio].find(p => `${p.width}x${p.height}` === e.target.value);
+              update({ size: preset ? { width: preset.width, height: preset.height } : null });
+            }}
+            className={inputClass}
+          >
+            {EXPORT_SIZE_PRESETS[aspectRatio].map(preset => (
+              <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+            ))}
+            <option value="original">{t('export.original', { width: naturalSize.width, height: naturalSize.height })}</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-400">{t('export.maxFileSize')}</label>
+          <select
+            value={settings.maxBytes ?? ''}
+            onChange={e => update({ maxBytes: e.target.value ? parseInt(e.target.value) : null })}
+            className={inputClass}
+          >
+            <option value="">{t('export.noLimit')}</option>
+            {EXPORT_BYTE_LIMIT_OPTIONS.map(option => (
+              <option key={option.label} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {settings.maxBytes && (
+            <p className="text-xs text-gray-500 mt-1">
+              {lossy ? t('export.limitLossyHint') : t('export.limitPngHint')}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-400">{t('export.fileName')}</label>
+          <input type="text" value={settings.fileNameTemplate} onChange={e => update({ fileNameTemplate: e.target.value })} className={inputClass} />
+          <p className="text-xs text-gray-500 mt-1">
+            {t('export.fileNameHint')} <span className="text-gray-300 break-all">{fileName}</span>
+          </p>
+        </div>
+
+        {result && (
+          <p className={`text-sm ${result.withinBudget ? 'text-green-400' : 'text-amber-400'}`}>
+            <i className={`fa-solid ${result.withinBudget ? 'fa-circle-check' : 'fa-triangle-exclamation'} mr-2`}></i>
+            {formatBytes(result.blob.size)}
+            {lossy && ` ${t('export.resultQuality', { value: Math.round(result.quality * 100) })}`}
+            {!result.withinBudget && ` — ${t('export.overLimit')}`}
+          </p>
+        )}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-green-900/50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-md transition duration-300 flex items-center justify-center"
+        >
+          {isExporting ? <LoadingSpinner /> : <><i className="fa-solid fa-download mr-2"></i> {t('export.download')}</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
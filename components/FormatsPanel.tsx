@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, FormatSource, ImageAdjustments, ReframeMode, ThumbnailFormat } from '../types';
+import { ASPECT_RATIO_OPTIONS } from '../constants';
+import { renderComposition } from '../services/compositionRenderer';
+import { aspectRatioLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/pt-BR';
+import LoadingSpinner from './LoadingSpinner';
+
+interface FormatsPanelProps {
+  formats: ThumbnailFormat[];
+  activeFormatId: string | null;
+  previewWidth: number;
+  adjustments: ImageAdjustments;
+  isDeriving: boolean;
+  onEnable: () => void;
+  onDisable: () => void;
+  onAdd: (aspectRatio: AspectRatio, source: ReframeMode) => void;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+  onExport: () => Promise<void>;
+}
+
+const sourceLabelKeys: Record<FormatSource, MessageKey> = {
+  master: 'formats.sourceMaster',
+  crop: 'formats.sourceCrop',
+  outpaint: 'formats.sourceOutpaint',
+};
+
+const FormatsPanel: React.FC<FormatsPanelProps> = ({
+  formats,
+  activeFormatId,
+  previewWidth,
+  adjustments,
+  isDeriving,
+  onEnable,
+  onDisable,
+  onAdd,
+  onRemove,
+  onSelect,
+  onExport,
+}) => {
+  const { t } = useI18n();
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const availableRatios = ASPECT_RATIO_OPTIONS.filter(option => !formats.some(f => f.aspectRatio === option.value));
+  const [newRatio, setNewRatio] = useState<AspectRatio | ''>('');
+  const selectedRatio = availableRatios.some(option => option.value === newRatio) ? newRatio : availableRatios[0]?.value;
+
+  useEffect(() => {
+    if (formats.length === 0 || previewWidth <= 0) return;
+    let cancelled = false;
+
+    // Debounced like the variant previews, so editing doesn't re-render every format per frame
+    const timeoutId = setTimeout(async () => {
+      const rendered: Record<string, string> = {};
+      for (const format of formats) {
+        if (!format.generatedImage) continue;
+        try {
+          const canvas = await renderComposition(format.generatedImage, format.textElements, previewWidth, undefined, adjustments);
+          rendered[format.id] = canvas.toDataURL('image/jpeg', 0.7);
+        } catch (err) {
+          console.error("Failed to render format preview:", err);
+        }
+      }
+      if (!cancelled) setPreviews(rendered);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [formats, previewWidth, adjustments]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-gray-200">
+          <i className="fa-solid fa-table-cells-large mr-2 text-indigo-400"></i>
+          {t('formats.title')}
+        </h3>
+        {formats.length > 0 && (
+          <button onClick={onDisable} className="text-xs text-gray-400 hover:text-white">
+            {t('formats.disable')}
+          </button>
+        )}
+      </div>
+
+      {formats.length === 0 ? (
+        <>
+          <p className="text-sm text-gray-400">{t('formats.intro')}</p>
+          <button
+            onClick={onEnable}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition"
+          >
+            <i className="fa-solid fa-crop-simple mr-2"></i> {t('formats.enable')}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400">{t('formats.hint')}</p>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 items-start">
+            {formats.map(format => (
+              <div key={format.id} className="relative group">
+                <button
+                  onClick={() => onSelect(format.id)}
+                  className={`w-full rounded-lg overflow-hidden border-2 transition-all text-left ${
+                    format.id === activeFormatId ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-gray-700 hover:border-indigo-400'
+                  }`}
+                >
+                  {previews[format.id]
+                    ? <img src={previews[format.id]} alt={t('formats.previewAlt', { ratio: format.aspectRatio })} className="w-full h-auto" />
+                    : <div className="w-full bg-gray-700" style={{ aspectRatio: format.aspectRatio.replace(':', '/') }} />}
+                  <div className="p-2 bg-gray-900/70">
+                    <span className="font-bold text-indigo-400 mr-2">{format.aspectRatio}</span>
+                    <span className="text-xs text-gray-300">{t(sourceLabelKeys[format.source])}</span>
+                  </div>
+                </button>
+                {format.source !== 'master' && (
+                  <button
+                    onClick={() => onRemove(format.id)}
+                    className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={t('formats.remove', { ratio: format.aspectRatio })}
+                  >
+                    <i className="fa-solid fa-times text-sm"></i>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {selectedRatio && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <select
+                value={selectedRatio}
+                onChange={e => setNewRatio(e.target.value as AspectRatio)}
+                className="bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+              >
+                {availableRatios.map(option => <option key={option.value} value={option.value}>{t(aspectRatioLabelKey(option.value))}</option>)}
+              </select>
+              <button
+                onClick={() => onAdd(selectedRatio, 'crop')}
+                disabled={isDeriving}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition"
+                title={t('formats.cropHint')}
+              >
+                <i className="fa-solid fa-crop mr-2"></i> {t('formats.crop')}
+              </button>
+              <button
+                onClick={() => onAdd(selectedRatio, 'outpaint')}
+                disabled={isDeriving}
+                className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition flex items-center justify-center"
+                title={t('formats.outpaintHint')}
+              >
+                {isDeriving ? <LoadingSpinner /> : <><i className="fa-solid fa-expand mr-2"></i> {t('formats.outpaint')}</>}
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-green-900/50 text-white font-bold py-2 px-4 rounded-md transition flex items-center justify-center"
+            title={t('formats.exportHint')}
+          >
+            {isExporting ? <LoadingSpinner /> : <><i className="fa-solid fa-file-zipper mr-2"></i> {t('formats.exportAll')}</>}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FormatsPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { GuideOptions, AspectRatio } from '../types';
+import { ASPECT_RATIO_OPTIONS } from '../constants';
+import { aspectRatioLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/pt-BR';
+
+interface GuidesToolbarProps {
+  options: GuideOptions;
+  aspectRatio: string;
+  onChange: (options: GuideOptions) => void;
+}
+
+const toggles: { key: 'durationBadge' | 'ruleOfThirds' | 'centerLines' | 'safeArea'; labelKey: MessageKey; icon: string }[] = [
+  { key: 'durationBadge', labelKey: 'guides.durationBadge', icon: 'fa-solid fa-clock' },
+  { key: 'ruleOfThirds', labelKey: 'guides.ruleOfThirds', icon: 'fa-solid fa-table-cells' },
+  { key: 'centerLines', labelKey: 'guides.centerLines', icon: 'fa-solid fa-crosshairs' },
+  { key: 'safeArea', labelKey: 'guides.safeArea', icon: 'fa-solid fa-vector-square' },
+];
+
+const chipClass = (isOn: boolean) =>
+  `px-2 py-1 text-xs rounded transition-colors ${isOn ? 'bg-indigo-600 text-white' : 'text-gray-300 bg-gray-700 hover:bg-gray-600'}`;
+
+const GuidesToolbar: React.FC<GuidesToolbarProps> = ({ options, aspectRatio, onChange }) => {
+  const { t } = useI18n();
+
+  const toggleCropFrame = (ratio: AspectRatio) => {
+    const cropFrames = options.cropFrames.includes(ratio)
+      ? options.cropFrames.filter(r => r !== ratio)
+      : [...options.cropFrames, ratio];
+    onChange({ ...options, cropFrames });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button
+        onClick={() => onChange({ ...options, enabled: !options.enabled })}
+        className={chipClass(options.enabled)}
+        title={t('guides.hint')}
+      >
+        <i className={`fa-solid ${options.enabled ? 'fa-eye' : 'fa-eye-slash'} mr-1`}></i> {t('guides.toggle')}
+      </button>
+      {options.enabled && (
+        <>
+          {toggles.map(toggle => (
+            <button
+              key={toggle.key}
+              onClick={() => onChange({ ...options, [toggle.key]: !options[toggle.key] })}
+              className={chipClass(options[toggle.key])}
+              title={t(toggle.labelKey)}
+            >
+              <i className={`${toggle.icon} mr-1`}></i> {t(toggle.labelKey)}
+            </button>
+          ))}
+          <span className="text-xs text-gray-500 ml-1">{t('guides.cropFrames')}</span>
+          {ASPECT_RATIO_OPTIONS.filter(option => option.value !== aspectRatio).map(option => (
+            <button
+              key={option.value}
+              onClick={() => toggleCropFrame(option.value)}
+              className={chipClass(options.cropFrames.includes(option.value))}
+              title={t(aspectRatioLabelKey(option.value))}
+            >
+              {option.value}
+            </button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuidesToolbar;
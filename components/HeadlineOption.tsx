@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { HeadlineVariation } from '../types';
+import HeadlineScoreDetails from './HeadlineScoreDetails';
+import { useI18n } from '../hooks/useI18n';
+
+interface HeadlineOptionProps {
+  headline: HeadlineVariation;
+  isOriginal: boolean;
+  // The headline text with its keywords highlighted
+  children: React.ReactNode;
+  onSelect: () => void;
+  onTogglePin?: () => void;
+  onEdit: (text: string) => void;
+}
+
+// One choice in the headline step: click to use it, or pin/edit it first.
+const HeadlineOption: React.FC<HeadlineOptionProps> = ({ headline, isOriginal, children, onSelect, onTogglePin, onEdit }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const saveDraft = () => {
+    if (draft !== null && draft.trim() && draft.trim() !== headline.text) onEdit(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <form
+        onSubmit={e => { e.preventDefault(); saveDraft(); }}
+        className="flex gap-2 p-3 bg-gray-800 border border-indigo-500 rounded-md"
+      >
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && setDraft(null)}
+          className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500"
+        />
+        <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 rounded-md transition" title={t('headlineOption.save')}>
+          <i className="fa-solid fa-check"></i>
+        </button>
+        <button type="button" onClick={() => setDraft(null)} className="bg-gray-700 hover:bg-gray-600 text-white px-3 rounded-md transition" title={t('headlineOption.cancel')}>
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className={`flex items-start gap-2 p-3 bg-gray-800 border rounded-md transition hover:bg-gray-700 ${headline.pinned ? 'border-amber-500' : 'border-gray-700'}`}>
+      <button onClick={onSelect} className="flex-grow text-left">
+        {isOriginal ? <span className="font-bold text-purple-400">[{t('headlineOption.original')}] </span> : ''}
+        {children}
+        {headline.score && <HeadlineScoreDetails score={headline.score} />}
+      </button>
+      <div className="flex flex-col gap-1">
+        {onTogglePin && (
+          <button
+            onClick={onTogglePin}
+            className={`p-1 ${headline.pinned ? 'text-amber-400' : 'text-gray-500 hover:text-white'}`}
+            title={headline.pinned ? t('headlineOption.unpin') : t('headlineOption.pin')}
+          >
+            <i className="fa-solid fa-thumbtack"></i>
+          </button>
+        )}
+        <button onClick={() => setDraft(headline.text)} className="p-1 text-gray-500 hover:text-white" title={t('headlineOption.edit')}>
+          <i className="fa-solid fa-pen"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HeadlineOption;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { HEADLINE_REFINEMENTS } from '../constants';
+import { refinementLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import LoadingSpinner from './LoadingSpinner';
+
+interface HeadlineRefinementBarProps {
+  isGenerating: boolean;
+  disabled: boolean;
+  onGenerate: (refinement?: string) => void;
+}
+
+// Asks for another round of suggestions, as is or steered by a quick
+// refinement or a free-form instruction.
+const HeadlineRefinementBar: React.FC<HeadlineRefinementBarProps> = ({ isGenerating, disabled, onGenerate }) => {
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+  const isDisabled = disabled || isGenerating;
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onGenerate()}
+          disabled={isDisabled}
+          className="text-sm bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-1.5 px-3 rounded-md transition flex items-center"
+        >
+          {isGenerating ? <LoadingSpinner /> : <><i className="fa-solid fa-rotate mr-2"></i> {t('refinement.more')}</>}
+        </button>
+        {HEADLINE_REFINEMENTS.map(refinement => (
+          <button
+            key={refinement.value}
+            onClick={() => onGenerate(refinement.instruction)}
+            disabled={isDisabled}
+            className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-gray-200 py-1.5 px-3 rounded-full transition"
+          >
+            {t(refinementLabelKey(refinement.value))}
+          </button>
+        ))}
+      </div>
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          if (!instruction.trim()) return;
+          onGenerate(instruction.trim());
+          setInstruction('');
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder={t('refinement.customPlaceholder')}
+          className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={isDisabled || !instruction.trim()}
+          className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white px-3 rounded-md transition"
+        >
+          {t('refinement.submit')}
+        </button>
+      </form>
+      <p className="text-xs text-gray-500">{t('refinement.hint')}</p>
+    </div>
+  );
+};
+
+export default HeadlineRefinementBar;
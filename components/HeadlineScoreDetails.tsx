@@ -0,0 +1,49 @@
+import React from 'react';
+import { HeadlineScore } from '../types';
+import { HEADLINE_CRITERIA, HEADLINE_READABILITY } from '../constants';
+import { criterionLabelKey, scoreNoteKey, triggerLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface HeadlineScoreDetailsProps {
+  score: HeadlineScore;
+}
+
+const scoreColor = (total: number) =>
+  total >= 75 ? 'bg-green-600' : total >= 55 ? 'bg-amber-500' : 'bg-red-600';
+
+// Score badge, per-criterion bars and the reasons behind them, shown under a
+// headline option.
+const HeadlineScoreDetails: React.FC<HeadlineScoreDetailsProps> = ({ score }) => {
+  const { t } = useI18n();
+  const noteParams = { words: score.wordCount, chars: score.charCount, idealWords: HEADLINE_READABILITY.idealWords };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className={`${scoreColor(score.total)} text-white font-bold px-2 py-0.5 rounded`}>{score.total}/100</span>
+        <span className="bg-gray-900 text-gray-300 px-2 py-0.5 rounded">
+          {t(triggerLabelKey(score.trigger))}
+        </span>
+        <span className="text-gray-500">{t('headlineScore.counts', { words: score.wordCount, chars: score.charCount })}</span>
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {HEADLINE_CRITERIA.map(criterion => (
+          <div key={criterion.value} title={`${t(criterionLabelKey(criterion.value))}: ${score.breakdown[criterion.value]}/10`}>
+            <div className="text-[10px] text-gray-400 truncate">{t(criterionLabelKey(criterion.value))}</div>
+            <div className="h-1.5 bg-gray-900 rounded">
+              <div className="h-full bg-indigo-500 rounded" style={{ width: `${score.breakdown[criterion.value] * 10}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      {score.critique && <p className="text-xs text-indigo-300"><i className="fa-solid fa-robot mr-1"></i>{score.critique}</p>}
+      {score.notes.length > 0 && (
+        <ul className="text-xs text-gray-400 list-disc list-inside">
+          {score.notes.map(note => <li key={note}>{t(scoreNoteKey(note), noteParams)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HeadlineScoreDetails;
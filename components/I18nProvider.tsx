@@ -0,0 +1,29 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UiLanguage } from '../types';
+import { loadUiLanguage, saveUiLanguage, translate } from '../services/i18n';
+import { I18n, I18nContext } from '../hooks/useI18n';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [language, setLanguage] = useState<UiLanguage>(loadUiLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo<I18n>(() => ({
+    language,
+    setLanguage: (next: UiLanguage) => {
+      saveUiLanguage(next);
+      setLanguage(next);
+    },
+    t: (key, params) => translate(language, key, params),
+  }), [language]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
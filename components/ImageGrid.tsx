@@ -0,0 +1,44 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImageGridProps {
+  images: string[];
+  selectedImage?: string | null;
+  onSelect: (image: string) => void;
+  columnsClassName?: string;
+  imageClassName?: string;
+}
+
+const ImageGrid: React.FC<ImageGridProps> = ({
+  images,
+  selectedImage,
+  onSelect,
+  columnsClassName = 'grid-cols-2',
+  imageClassName = 'w-full h-auto',
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className={`grid ${columnsClassName} gap-3`}>
+      {images.map((image, index) => (
+        <button
+          key={index}
+          onClick={() => onSelect(image)}
+          className={`relative rounded-lg overflow-hidden border-2 transition-all duration-200 ${
+            image === selectedImage ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-gray-700 hover:border-indigo-400'
+          }`}
+          aria-label={t('imageGrid.select', { number: index + 1 })}
+        >
+          <img src={`data:image/png;base64,${image}`} alt={t('imageGrid.option', { number: index + 1 })} className={`${imageClassName} object-cover`} />
+          {image === selectedImage && (
+            <span className="absolute top-1 right-1 bg-indigo-600 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs">
+              <i className="fa-solid fa-check"></i>
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ImageGrid;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Layer } from '../types';
+import { getLayerName } from '../services/layers';
+import { useI18n } from '../hooks/useI18n';
+
+interface LayersPanelProps {
+  textElements: Layer[];
+  selectedIds: string[];
+  baseImage: string;
+  onSelect: (id: string, additive: boolean) => void;
+  onMove: (id: string, targetIndex: number) => void;
+  onUpdate: (id: string, updates: Partial<Layer>) => void;
+}
+
+const layerIcons: Record<NonNullable<Layer['type']>, string> = {
+  text: 'fa-solid fa-font',
+  image: 'fa-regular fa-image',
+  shape: 'fa-solid fa-shapes',
+};
+
+const iconButtonClass = 'w-7 h-7 flex items-center justify-center rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors';
+
+const LayersPanel: React.FC<LayersPanelProps> = ({ textElements, selectedIds, baseImage, onSelect, onMove, onUpdate }) => {
+  const { t } = useI18n();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Top layer first, like every design tool
+  const rows = textElements.map((el, index) => ({ el, index })).reverse();
+
+  const commitRename = () => {
+    if (editingId) onUpdate(editingId, { name: draftName.trim() || undefined });
+    setEditingId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedId && dropIndex !== null) onMove(draggedId, dropIndex);
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+      <h3 className="text-sm font-bold text-gray-300">
+        <i className="fa-solid fa-layer-group mr-2 text-indigo-400"></i>
+        {t('layers.title')}
+      </h3>
+      <ul className="space-y-1" onDragOver={e => e.preventDefault()} onDrop={handleDrop}>
+        {rows.map(({ el, index }) => (
+          <li
+            key={el.id}
+            draggable={editingId !== el.id}
+            onDragStart={e => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(el.id);
+            }}
+            onDragOver={e => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            onClick={e => onSelect(el.id, e.shiftKey)}
+            className={`flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer border transition-colors ${
+              selectedIds.includes(el.id) ? 'bg-indigo-600/30 border-indigo-500' : 'bg-gray-700/50 border-transparent hover:bg-gray-700'
+            } ${dropIndex === index && draggedId && draggedId !== el.id ? 'border-t-indigo-300' : ''} ${el.hidden ? 'opacity-50' : ''}`}
+          >
+            <i className="fa-solid fa-grip-vertical text-gray-500 cursor-grab"></i>
+            <i className={`${layerIcons[el.type ?? 'text']} text-gray-400 text-xs w-3 text-center`}></i>
+            {editingId === el.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onClick={e => e.stopPropagation()}
+                className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded px-1 text-sm"
+              />
+            ) : (
+              <span
+                className="flex-grow min-w-0 truncate text-sm text-gray-200"
+                onDoubleClick={() => {
+                  setEditingId(el.id);
+                  setDraftName(getLayerName(el, t));
+                }}
+                title={t('layers.renameHint')}
+              >
+                {getLayerName(el, t)}
+                {el.groupId && <i className="fa-solid fa-link ml-2 text-xs text-gray-500" title={t('layers.grouped')}></i>}
+              </span>
+            )}
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onUpdate(el.id, { hidden: !el.hidden });
+              }}
+              className={iconButtonClass}
+              aria-label={el.hidden ? t('layers.show') : t('layers.hide')}
+              title={el.hidden ? t('layers.show') : t('layers.hide')}
+            >
+              <i className={`fa-solid ${el.hidden ? 'fa-eye-slash' : 'fa-eye'}`}></i>
+            </button>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onUpdate(el.id, { locked: !el.locked });
+              }}
+              className={iconButtonClass}
+              aria-label={el.locked ? t('layers.unlock') : t('layers.lock')}
+              title={el.locked ? t('layers.unlock') : t('layers.lock')}
+            >
+              <i className={`fa-solid ${el.locked ? 'fa-lock text-amber-400' : 'fa-lock-open'}`}></i>
+            </button>
+          </li>
+        ))}
+        <li className="flex items-center gap-2 px-2 py-1 rounded-md bg-gray-900/50 border border-transparent">
+          <img src={`data:image/png;base64,${baseImage}`} alt={t('layers.baseImage')} className="w-10 h-6 object-cover rounded" />
+          <span className="flex-grow text-sm text-gray-400">{t('layers.baseImage')}</span>
+          <i className="fa-solid fa-lock text-gray-500 w-7 text-center" title={t('layers.baseImageHint')}></i>
+        </li>
+      </ul>
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { hasPaintedPixels } from '../services/mask';
+
+export type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+interface MaskCanvasProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  tool: MaskTool;
+  brushSize: number;
+  width: number;
+  height: number;
+  onChange: (hasMask: boolean) => void;
+}
+
+const MASK_COLOR = '#ef4444';
+
+// Paint overlay on top of the editor preview, in preview pixels. What gets
+// painted is turned into the model's mask on submit; it never reaches the export.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ canvasRef, tool, brushSize, width, height, onChange }) => {
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+
+  // Resizing the canvas wipes what was painted
+  useEffect(() => onChange(false), [width, height]);
+
+  const getPoint = (e: MouseEvent | React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const start = getPoint(e);
+    const points = [start];
+    let last = start;
+
+    if (tool === 'lasso') {
+      setLassoPoints(points);
+    } else {
+      ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = brushSize;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(start.x + 0.01, start.y);
+      ctx.stroke();
+    }
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const point = getPoint(moveEvent);
+      if (tool === 'lasso') {
+        points.push(point);
+        setLassoPoints([...points]);
+      } else {
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+      }
+      last = point;
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      if (tool === 'lasso') {
+        if (points.length > 2) {
+          ctx.globalCompositeOperation = 'source-over';
+          ctx.fillStyle = MASK_COLOR;
+          ctx.beginPath();
+          points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+          ctx.closePath();
+          ctx.fill();
+        }
+        setLassoPoints([]);
+      }
+      onChange(hasPaintedPixels(canvasRef.current!));
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(width)}
+        height={Math.round(height)}
+        onMouseDown={handleMouseDown}
+        className="absolute top-0 left-0 z-20 opacity-50"
+        style={{ width: `${width}px`, height: `${height}px`, cursor: 'crosshair' }}
+      />
+      {lassoPoints.length > 1 && (
+        <svg className="absolute top-0 left-0 z-20 pointer-events-none" width={width} height={height}>
+          <polyline
+            points={lassoPoints.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="rgba(239, 68, 68, 0.25)"
+            stroke="#ffffff"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default MaskCanvas;
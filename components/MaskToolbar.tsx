@@ -0,0 +1,58 @@
+import React from 'react';
+import { MaskTool } from './MaskCanvas';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../locales/pt-BR';
+
+interface MaskToolbarProps {
+  tool: MaskTool;
+  brushSize: number;
+  hasMask: boolean;
+  onToolChange: (tool: MaskTool) => void;
+  onBrushSizeChange: (size: number) => void;
+  onClear: () => void;
+}
+
+const tools: { value: MaskTool; labelKey: MessageKey; icon: string }[] = [
+  { value: 'brush', labelKey: 'mask.brush', icon: 'fa-solid fa-paintbrush' },
+  { value: 'lasso', labelKey: 'mask.lasso', icon: 'fa-solid fa-draw-polygon' },
+  { value: 'eraser', labelKey: 'mask.eraser', icon: 'fa-solid fa-eraser' },
+];
+
+const MaskToolbar: React.FC<MaskToolbarProps> = ({ tool, brushSize, hasMask, onToolChange, onBrushSizeChange, onClear }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-gray-900/50 p-2 rounded-md space-y-2">
+      <div className="flex items-center gap-1">
+        {tools.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onToolChange(option.value)}
+            className={`px-3 py-1 text-sm rounded transition-colors ${tool === option.value ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            title={t(option.labelKey)}
+          >
+            <i className={`${option.icon} mr-1`}></i> {t(option.labelKey)}
+          </button>
+        ))}
+        <button
+          onClick={onClear}
+          disabled={!hasMask}
+          className="ml-auto text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('mask.clear')}
+        </button>
+      </div>
+      {tool !== 'lasso' && (
+        <div>
+          <label className="block text-xs font-medium text-gray-400">{t('mask.brushSize', { size: brushSize })}</label>
+          <input type="range" min="5" max="120" value={brushSize} onChange={e => onBrushSizeChange(parseInt(e.target.value))} className="w-full mt-1" />
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        {hasMask ? t('mask.hintPainted') : t('mask.hintEmpty')}
+      </p>
+    </div>
+  );
+};
+
+export default MaskToolbar;
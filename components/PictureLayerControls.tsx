@@ -0,0 +1,59 @@
+import React from 'react';
+import { ImageLayer, ShapeLayer } from '../types';
+import { SHAPE_OPTIONS } from '../constants';
+import { shapeLabelKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface PictureLayerControlsProps {
+  layer: ImageLayer | ShapeLayer;
+  onChange: (updates: Partial<ImageLayer> | Partial<ShapeLayer>) => void;
+}
+
+// Controls for the non-text layers; text keeps its own panel in App.
+const PictureLayerControls: React.FC<PictureLayerControlsProps> = ({ layer, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {layer.type === 'shape' ? (
+        <div className="pt-2">
+          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('layer.shape')}</h3>
+          <select
+            value={layer.shape}
+            onChange={e => onChange({ shape: e.target.value as ShapeLayer['shape'] })}
+            className="w-full mt-1 bg-gray-700 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500"
+          >
+            {SHAPE_OPTIONS.map(option => <option key={option.value} value={option.value}>{t(shapeLabelKey(option.value))}</option>)}
+          </select>
+          <label className="block text-sm font-medium text-gray-400 mt-2">{t('editor.color')}</label>
+          <input type="color" value={layer.color} onChange={e => onChange({ color: e.target.value })} className="w-full mt-1 h-10 bg-gray-700 border-gray-600 rounded-md p-1" />
+          {layer.shape !== 'arrow' && (
+            <>
+              <label className="block text-sm font-medium text-gray-400 mt-2">{t('layer.thickness', { value: layer.strokeWidth })}</label>
+              <input type="range" min="1" max="40" value={layer.strokeWidth} onChange={e => onChange({ strokeWidth: parseInt(e.target.value) })} className="w-full mt-1" />
+            </>
+          )}
+          {(layer.shape === 'circle' || layer.shape === 'rectangle') && (
+            <label className="flex items-center mt-3 text-sm text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={layer.filled} onChange={e => onChange({ filled: e.target.checked })} className="mr-2" />
+              {t('layer.filled')}
+            </label>
+          )}
+        </div>
+      ) : (
+        <div className="pt-2">
+          <h3 className="text-sm font-bold text-gray-300 mb-2">{t('layer.image')}</h3>
+          <label className="block text-sm font-medium text-gray-400">{t('layer.opacity', { value: Math.round(layer.opacity * 100) })}</label>
+          <input type="range" min="0.1" max="1" step="0.05" value={layer.opacity} onChange={e => onChange({ opacity: parseFloat(e.target.value) })} className="w-full mt-1" />
+        </div>
+      )}
+      <div className="pt-4">
+        <h3 className="text-sm font-bold text-gray-300 mb-2">{t('editor.transform')}</h3>
+        <label className="block text-sm font-medium text-gray-400">{t('editor.rotation', { value: layer.rotation })}</label>
+        <input type="range" min="-180" max="180" value={layer.rotation} onChange={e => onChange({ rotation: parseInt(e.target.value) })} className="w-full mt-1" />
+      </div>
+    </>
+  );
+};
+
+export default PictureLayerControls;
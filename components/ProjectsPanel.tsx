@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ThumbnailProject, UiLanguage } from '../types';
+import {
+  listProjects,
+  deleteProject,
+  duplicateProject,
+  renameProject,
+  saveProject,
+  serializeProject,
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+} from '../services/projectStorage';
+import { downloadBlob, readFileAsText, slugify } from '../services/fileUtils';
+import { getErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProjectsPanelProps {
+  currentProjectId: string | null;
+  // Bumped by the parent after each autosave so the list stays fresh.
+  refreshKey: number;
+  onOpen: (project: ThumbnailProject) => void;
+  onDeleted: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+const formatDate = (timestamp: number, language: UiLanguage) =>
+  new Date(timestamp).toLocaleString(language, { dateStyle: 'short', timeStyle: 'short' });
+
+const ProjectsPanel: React.FC<ProjectsPanelProps> = ({ currentProjectId, refreshKey, onOpen, onDeleted, onError }) => {
+  const { t, language } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [projects, setProjects] = useState<ThumbnailProject[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(err => {
+        console.error("Failed to list projects:", err);
+        onError(t('projects.loadFailed'));
+      });
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refreshKey]);
+
+  const handleDuplicate = async (project: ThumbnailProject) => {
+    try {
+      await duplicateProject(project, t('projects.copyName', { name: project.name }));
+      refresh();
+    } catch (err) {
+      console.error("Failed to duplicate project:", err);
+      onError(t('projects.duplicateFailed'));
+    }
+  };
+
+  const handleDelete = async (project: ThumbnailProject) => {
+    if (!window.confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      refresh();
+    } catch (err) {
+      console.error("Failed to delete project:", err);
+      onError(t('projects.deleteFailed'));
+    }
+  };
+
+  const handleRenameSubmit = async (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await renameProject(id, name);
+      refresh();
+    } catch (err) {
+      console.error("Failed to rename project:", err);
+      onError(t('projects.renameFailed'));
+    }
+  };
+
+  const handleExport = (project: ThumbnailProject) => {
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    downloadBlob(blob, `${slugify(project.name)}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = parseProjectFile(await readFileAsText(file), t('projects.importedName'));
+      await saveProject(project);
+      refresh();
+      onOpen(project);
+    } catch (err) {
+      console.error("Failed to import project:", err);
+      onError(getErrorMessage(err, t('projects.importFailed'), t));
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border-2 border-gray-700 rounded-lg p-6">
+      <button onClick={() => setIsOpen(prev => !prev)} className="w-full flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-8 h-8 rounded-full flex items-center justify-center bg-gray-700 text-gray-300 font-bold text-sm mr-4">
+            <i className="fa-solid fa-folder-open"></i>
+          </div>
+          <h2 className="text-xl font-bold text-white">{t('projects.title')}</h2>
+        </div>
+        <i className={`fa-solid ${isOpen ? 'fa-chevron-up' : 'fa-chevron-down'} text-gray-400`}></i>
+      </button>
+
+      {isOpen && (
+        <div className="pl-12 mt-4 space-y-3">
+          <p className="text-gray-400 text-sm">{t('projects.autosaveHint')}</p>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition text-sm"
+          >
+            <i className="fa-solid fa-file-import mr-2"></i> {t('projects.import')}
+          </button>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+
+          {projects.length === 0 ? (
+            <p className="text-gray-500 text-sm italic">{t('projects.empty')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {projects.map(project => (
+                <li
+                  key={project.id}
+                  className={`flex items-center gap-3 p-2 rounded-md border ${project.id === currentProjectId ? 'border-indigo-500 bg-gray-700/50' : 'border-gray-700 bg-gray-900/40'}`}
+                >
+                  <div className="w-20 h-12 flex-shrink-0 rounded bg-gray-700 overflow-hidden flex items-center justify-center">
+                    {project.data.generatedImage
+                      ? <img src={`data:image/png;base64,${project.data.generatedImage}`} alt="" className="w-full h-full object-cover" />
+                      : <i className="fa-solid fa-image text-gray-500"></i>}
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    {renamingId === project.id ? (
+                      <form onSubmit={(e) => handleRenameSubmit(e, project.id)}>
+                        <input
+                          autoFocus
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={(e) => handleRenameSubmit(e, project.id)}
+                          className="w-full bg-gray-700 border border-gray-600 rounded p-1 text-sm focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </form>
+                    ) : (
+                      <p className="text-sm font-semibold text-gray-200 truncate">{project.name}</p>
+                    )}
+                    <p className="text-xs text-gray-500">{t('projects.editedAt', { date: formatDate(project.updatedAt, language) })}</p>
+                  </div>
+                  <div className="flex items-center gap-1 text-gray-400">
+                    <button onClick={() => onOpen(project)} className="p-2 hover:text-white" title={t('projects.open')} aria-label={t('projects.open')}>
+                      <i className="fa-solid fa-folder-open"></i>
+                    </button>
+                    <button
+                      onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                      className="p-2 hover:text-white"
+                      title={t('projects.rename')}
+                      aria-label={t('projects.rename')}
+                    >
+                      <i className="fa-solid fa-pen"></i>
+                    </button>
+                    <button onClick={() => handleDuplicate(project)} className="p-2 hover:text-white" title={t('projects.duplicate')} aria-label={t('projects.duplicate')}>
+                      <i className="fa-solid fa-copy"></i>
+                    </button>
+                    <button onClick={() => handleExport(project)} className="p-2 hover:text-white" title={t('projects.export')} aria-label={t('projects.export')}>
+                      <i className="fa-solid fa-file-export"></i>
+                    </button>
+                    <button onClick={() => handleDelete(project)} className="p-2 hover:text-red-400" title={t('projects.delete')} aria-label={t('projects.delete')}>
+                      <i className="fa-solid fa-trash"></i>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectsPanel;
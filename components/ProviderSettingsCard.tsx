@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { ProviderSettings, ProviderKind, LocalImageApi } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProviderSettingsCardProps {
+  settings: ProviderSettings;
+  isConfigured: boolean;
+  isLocked?: boolean;
+  onSave: (settings: ProviderSettings) => void;
+}
+
+const providerOptions: { value: ProviderKind; labelKey: MessageKey; icon: string }[] = [
+  { value: 'gemini', labelKey: 'provider.gemini', icon: 'fa-brands fa-google' },
+  { value: 'local', labelKey: 'provider.local', icon: 'fa-solid fa-server' },
+  { value: 'mock', labelKey: 'provider.mock', icon: 'fa-solid fa-flask' },
+];
+
+const imageApiOptions: { value: LocalImageApi; labelKey: MessageKey }[] = [
+  { value: 'openai', labelKey: 'provider.imageApiOpenAI' },
+  { value: 'sd-webui', labelKey: 'provider.imageApiSdWebui' },
+];
+
+const inputClassName = "w-full bg-gray-700 border-2 border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition";
+
+const ProviderSettingsCard: React.FC<ProviderSettingsCardProps> = ({ settings, isConfigured, isLocked = false, onSave }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const updateLocal = (updates: Partial<ProviderSettings['local']>) => {
+    setDraft(prev => ({ ...prev, local: { ...prev.local, ...updates } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      apiKey: draft.apiKey.trim(),
+      local: { ...draft.local, baseUrl: draft.local.baseUrl.trim() },
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 border-2 border-gray-700 rounded-lg p-6">
+      <div className="flex items-center mb-2">
+        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${isConfigured ? 'bg-green-600' : 'bg-yellow-600'} text-white font-bold text-sm mr-4`}>
+          <i className={`fas ${isConfigured ? 'fa-check' : 'fa-key'}`}></i>
+        </div>
+        <h2 className="text-xl font-bold text-white">{t('provider.title')}</h2>
+      </div>
+      <form onSubmit={handleSubmit} className="pl-12 space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          {providerOptions.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              disabled={isLocked}
+              onClick={() => setDraft(prev => ({ ...prev, kind: option.value }))}
+              className={`p-2 border-2 rounded-lg flex items-center justify-center gap-2 text-sm font-semibold transition-all duration-200 ${
+                draft.kind === option.value
+                  ? 'bg-indigo-600 border-indigo-500 text-white'
+                  : 'bg-gray-700 border-gray-600 hover:border-indigo-500 text-gray-300'
+              }`}
+            >
+              <i className={option.icon}></i>
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+
+        {draft.kind === 'mock' && (
+          <p className="text-gray-400 text-sm">
+            {isLocked
+              ? t('provider.mockLocked')
+              : t('provider.mockHint')}
+          </p>
+        )}
+        {draft.kind === 'gemini' && (
+          <>
+            <p className="text-gray-400 text-sm">
+              {t('provider.geminiHint')}
+              {' '}
+              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
+                {t('provider.getKey')}
+              </a>
+            </p>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+              placeholder={t('provider.apiKeyPlaceholder')}
+              className={inputClassName}
+            />
+          </>
+        )}
+        {draft.kind === 'local' && (
+          <>
+            <p className="text-gray-400 text-sm">
+              {t('provider.localHint')}
+            </p>
+            <input
+              type="url"
+              value={draft.local.baseUrl}
+              onChange={(e) => updateLocal({ baseUrl: e.target.value })}
+              placeholder="http://localhost:8080"
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-400">{t('provider.textModel')}</label>
+                <input
+                  type="text"
+                  value={draft.local.textModel}
+                  onChange={(e) => updateLocal({ textModel: e.target.value })}
+                  className={`mt-1 ${inputClassName}`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400">{t('provider.imageModel')}</label>
+                <input
+                  type="text"
+                  value={draft.local.imageModel}
+                  onChange={(e) => updateLocal({ imageModel: e.target.value })}
+                  className={`mt-1 ${inputClassName}`}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400">{t('provider.imageApi')}</label>
+              <select
+                value={draft.local.imageApi}
+                onChange={(e) => updateLocal({ imageApi: e.target.value as LocalImageApi })}
+                className={`mt-1 ${inputClassName}`}
+              >
+                {imageApiOptions.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+              </select>
+            </div>
+          </>
+        )}
+
+        <button
+          type="submit"
+          disabled={isLocked}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-5 rounded-md transition"
+        >
+          {t('provider.save')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ProviderSettingsCard;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, ImageAdjustments, Layer, ReframeMode } from '../types';
+import { ASPECT_RATIO_OPTIONS } from '../constants';
+import { renderComposition } from '../services/compositionRenderer';
+import { ReframedComposition } from '../services/reframe';
+import { aspectRatioLabelKey, getErrorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ReframePanelProps {
+  generatedImage: string;
+  textElements: Layer[];
+  aspectRatio: string;
+  previewWidth: number;
+  adjustments: ImageAdjustments;
+  // Variants and formats keep several compositions that share one ratio
+  disabledReason: string | null;
+  onPreview: (aspectRatio: AspectRatio, mode: ReframeMode) => Promise<ReframedComposition>;
+  onApply: (result: ReframedComposition) => void;
+}
+
+const ReframePanel: React.FC<ReframePanelProps> = ({
+  generatedImage,
+  textElements,
+  aspectRatio,
+  previewWidth,
+  adjustments,
+  disabledReason,
+  onPreview,
+  onApply,
+}) => {
+  const { t } = useI18n();
+  const ratioOptions = ASPECT_RATIO_OPTIONS.filter(option => option.value !== aspectRatio);
+  const [targetRatio, setTargetRatio] = useState<AspectRatio>(ratioOptions[0].value);
+  const [mode, setMode] = useState<ReframeMode>('outpaint');
+  const [result, setResult] = useState<ReframedComposition | null>(null);
+  const [previews, setPreviews] = useState<{ before: string; after: string } | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview made from an older image or layout would undo those edits on apply
+  useEffect(() => {
+    setResult(null);
+    setPreviews(null);
+  }, [generatedImage, textElements, aspectRatio]);
+
+  useEffect(() => {
+    if (!ratioOptions.some(option => option.value === targetRatio)) setTargetRatio(ratioOptions[0].value);
+  }, [aspectRatio]);
+
+  const handlePreview = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const reframed = await onPreview(targetRatio, mode);
+      const [before, after] = await Promise.all([
+        renderComposition(generatedImage, textElements, previewWidth, undefined, adjustments),
+        renderComposition(reframed.generatedImage, reframed.textElements, previewWidth, undefined, adjustments),
+      ]);
+      setResult(reframed);
+      setPreviews({ before: before.toDataURL('image/jpeg', 0.8), after: after.toDataURL('image/jpeg', 0.8) });
+    } catch (err) {
+      console.error("Failed to reframe image:", err);
+      setError(getErrorMessage(err, t('reframe.failed'), t));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const discard = () => {
+    setResult(null);
+    setPreviews(null);
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <h3 className="text-base font-bold text-gray-200">
+        <i className="fa-solid fa-expand mr-2 text-indigo-400"></i>
+        {t('reframe.title')}
+      </h3>
+      {disabledReason ? (
+        <p className="text-sm text-gray-400">{disabledReason}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400">{t('reframe.description')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <select
+              value={targetRatio}
+              onChange={e => { setTargetRatio(e.target.value as AspectRatio); discard(); }}
+              className="bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+            >
+              {ratioOptions.map(option => <option key={option.value} value={option.value}>{t(aspectRatioLabelKey(option.value))}</option>)}
+            </select>
+            <div className="flex bg-gray-900 rounded-md p-1">
+              {(['outpaint', 'crop'] as ReframeMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => { setMode(option); discard(); }}
+                  className={`flex-1 text-sm rounded transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {option === 'outpaint' ? t('reframe.outpaint') : t('reframe.crop')}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handlePreview}
+              disabled={isGenerating}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition flex items-center justify-center"
+            >
+              {isGenerating ? <LoadingSpinner /> : <><i className="fa-solid fa-eye mr-2"></i> {t('reframe.preview')}</>}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {result && previews && (
+            <>
+              <div className="grid grid-cols-2 gap-3 items-start">
+                <figure>
+                  <img src={previews.before} alt={t('reframe.beforeAlt')} className="w-full h-auto rounded border border-gray-700" />
+                  <figcaption className="text-xs text-gray-400 mt-1 text-center">{t('reframe.before', { ratio: aspectRatio })}</figcaption>
+                </figure>
+                <figure>
+                  <img src={previews.after} alt={t('reframe.afterAlt')} className="w-full h-auto rounded border border-indigo-500" />
+                  <figcaption className="text-xs text-gray-400 mt-1 text-center">{t('reframe.after', { ratio: result.aspectRatio })}</figcaption>
+                </figure>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={discard} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition">
+                  {t('reframe.discard')}
+                </button>
+                <button
+                  onClick={() => onApply(result)}
+                  className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition"
+                >
+                  <i className="fa-solid fa-check mr-2"></i> {t('reframe.apply')}
+                </button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReframePanel;
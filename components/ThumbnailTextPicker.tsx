@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../hooks/useI18n';
+
+interface ThumbnailTextPickerProps {
+  title: string;
+  value: string;
+  options: string[];
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onChange: (text: string) => void;
+  onGenerate: () => void;
+}
+
+// Picks the phrase written on the image, separate from the video title shown
+// under the thumbnail. Nothing picked means the title goes on the image.
+const ThumbnailTextPicker: React.FC<ThumbnailTextPickerProps> = ({
+  title,
+  value,
+  options,
+  isGenerating,
+  canGenerate,
+  onChange,
+  onGenerate,
+}) => {
+  const { t } = useI18n();
+  const [custom, setCustom] = useState('');
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-md space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-bold text-gray-300">{t('imageText.title')}</h3>
+          <p className="text-xs text-gray-500">{t('imageText.hint', { title })}</p>
+        </div>
+        <button
+          onClick={onGenerate}
+          disabled={isGenerating || !canGenerate}
+          className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white py-1.5 px-3 rounded-md transition flex items-center flex-shrink-0"
+        >
+          {isGenerating ? <LoadingSpinner /> : <><i className="fa-solid fa-rotate mr-2"></i> {t('imageText.suggestMore')}</>}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <button
+            key={option}
+            onClick={() => onChange(value === option ? '' : option)}
+            className={`text-sm font-bold uppercase py-1.5 px-3 rounded-md border transition ${value === option ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700'}`}
+          >
+            {option}
+          </button>
+        ))}
+        {value && !options.includes(value) && (
+          <button onClick={() => onChange('')} className="text-sm font-bold uppercase py-1.5 px-3 rounded-md border bg-indigo-600 border-indigo-400 text-white">
+            {value}
+          </button>
+        )}
+        {options.length === 0 && !isGenerating && <span className="text-xs text-gray-500">{t('imageText.noSuggestions')}</span>}
+      </div>
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          if (!custom.trim()) return;
+          onChange(custom.trim());
+          setCustom('');
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={custom}
+          onChange={e => setCustom(e.target.value)}
+          placeholder={t('imageText.customPlaceholder')}
+          className="flex-grow bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={!custom.trim()}
+          className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white px-3 rounded-md transition"
+        >
+          {t('imageText.use')}
+        </button>
+      </form>
+      <p className="text-xs text-gray-400">
+        {value ? <>{t('imageText.current')} <span className="font-bold text-white uppercase">{value}</span></> : t('imageText.none')}
+      </p>
+    </div>
+  );
+};
+
+export default ThumbnailTextPicker;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ContentLanguage } from '../types';
+import { CONTENT_LANGUAGE_OPTIONS } from '../constants';
+import LoadingSpinner from './LoadingSpinner';
+import { useI18n } from '../hooks/useI18n';
+import { getErrorMessage } from '../services/i18n';
+
+interface TranslatePanelProps {
+  contentLanguage: ContentLanguage;
+  disabled: boolean;
+  onTranslate: (language: ContentLanguage) => Promise<void>;
+}
+
+// Re-localises the texts of the open composition; positions, fonts and sizes
+// stay, so it can be undone like any other edit.
+const TranslatePanel: React.FC<TranslatePanelProps> = ({ contentLanguage, disabled, onTranslate }) => {
+  const { t } = useI18n();
+  const [language, setLanguage] = useState<ContentLanguage>(
+    CONTENT_LANGUAGE_OPTIONS.find(option => option.value !== contentLanguage)!.value
+  );
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      await onTranslate(language);
+    } catch (err) {
+      console.error("Failed to translate thumbnail:", err);
+      setError(getErrorMessage(err, t('translate.failed'), t));
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <h3 className="text-base font-bold text-gray-200">
+        <i className="fa-solid fa-language mr-2 text-indigo-400"></i>
+        {t('translate.title')}
+      </h3>
+      <p className="text-sm text-gray-400">{t('translate.description')}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <select
+          value={language}
+          onChange={e => setLanguage(e.target.value as ContentLanguage)}
+          className="bg-gray-700 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+        >
+          {CONTENT_LANGUAGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.flag} {option.label}</option>)}
+        </select>
+        <button
+          onClick={handleTranslate}
+          disabled={disabled || isTranslating}
+          className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition flex items-center justify-center"
+        >
+          {isTranslating ? <LoadingSpinner /> : <><i className="fa-solid fa-language mr-2"></i> {t('translate.submit')}</>}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TranslatePanel;
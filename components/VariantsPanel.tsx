@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { HeadlineVariation, ImageAdjustments, ThumbnailVariant } from '../types';
+import { renderComposition } from '../services/compositionRenderer';
+import { VARIANT_LABELS } from '../services/variants';
+import { useI18n } from '../hooks/useI18n';
+import LoadingSpinner from './LoadingSpinner';
+
+interface VariantsPanelProps {
+  variants: ThumbnailVariant[];
+  activeVariantId: string | null;
+  headlineOptions: HeadlineVariation[];
+  previewWidth: number;
+  adjustments: ImageAdjustments;
+  defaultSetName: string;
+  onEnable: () => void;
+  onDisable: () => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+  onChangeHeadline: (headline: string) => void;
+  onExport: (setName: string) => Promise<void>;
+}
+
+const VariantsPanel: React.FC<VariantsPanelProps> = ({
+  variants,
+  activeVariantId,
+  headlineOptions,
+  previewWidth,
+  adjustments,
+  defaultSetName,
+  onEnable,
+  onDisable,
+  onAdd,
+  onRemove,
+  onSelect,
+  onChangeHeadline,
+  onExport,
+}) => {
+  const { t } = useI18n();
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [setName, setSetName] = useState(defaultSetName);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (variants.length === 0 || previewWidth <= 0) return;
+    let cancelled = false;
+
+    // Debounced so dragging text in the editor doesn't re-render every variant per frame
+    const timeoutId = setTimeout(async () => {
+      const rendered: Record<string, string> = {};
+      for (const variant of variants) {
+        if (!variant.generatedImage) continue;
+        try {
+          const canvas = await renderComposition(variant.generatedImage, variant.textElements, previewWidth, undefined, adjustments);
+          rendered[variant.id] = canvas.toDataURL('image/jpeg', 0.7);
+        } catch (err) {
+          console.error("Failed to render variant preview:", err);
+        }
+      }
+      if (!cancelled) setPreviews(rendered);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [variants, previewWidth, adjustments]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(setName.trim() || defaultSetName);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const activeVariant = variants.find(v => v.id === activeVariantId);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-bold text-gray-200">
+          <i className="fa-solid fa-flask-vial mr-2 text-indigo-400"></i>
+          {t('variants.title')}
+        </h3>
+        {variants.length > 0 && (
+          <button onClick={onDisable} className="text-xs text-gray-400 hover:text-white">
+            {t('variants.exit')}
+          </button>
+        )}
+      </div>
+
+      {variants.length === 0 ? (
+        <>
+          <p className="text-sm text-gray-400">{t('variants.intro', { max: VARIANT_LABELS.length })}</p>
+          <button
+            onClick={onEnable}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-md transition"
+          >
+            <i className="fa-solid fa-clone mr-2"></i> {t('variants.create')}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400">{t('variants.hint')}</p>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {variants.map(variant => (
+              <div key={variant.id} className="relative group">
+                <button
+                  onClick={() => onSelect(variant.id)}
+                  className={`w-full rounded-lg overflow-hidden border-2 transition-all text-left ${
+                    variant.id === activeVariantId ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-gray-700 hover:border-indigo-400'
+                  }`}
+                >
+                  {previews[variant.id]
+                    ? <img src={previews[variant.id]} alt={t('variants.variant', { label: variant.label })} className="w-full h-auto" />
+                    : <div className="w-full aspect-video bg-gray-700" />}
+                  <div className="p-2 bg-gray-900/70">
+                    <span className="font-bold text-indigo-400 mr-2">{variant.label}</span>
+                    <span className="text-xs text-gray-300">{variant.headline}</span>
+                  </div>
+                </button>
+                {variants.length > 1 && (
+                  <button
+                    onClick={() => onRemove(variant.id)}
+                    className="absolute top-1 right-1 bg-red-600/80 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={t('variants.remove', { label: variant.label })}
+                  >
+                    <i className="fa-solid fa-times text-sm"></i>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {activeVariant && (
+            <div>
+              <label className="block text-sm font-medium text-gray-400">{t('variants.headline', { label: activeVariant.label })}</label>
+              <select
+                value={activeVariant.headline}
+                onChange={e => onChangeHeadline(e.target.value)}
+                className="w-full mt-1 bg-gray-700 border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-indigo-500"
+              >
+                {headlineOptions.map((headline, index) => <option key={index} value={headline.text}>{headline.text}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <button
+              onClick={onAdd}
+              disabled={variants.length >= VARIANT_LABELS.length}
+              className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition"
+            >
+              <i className="fa-solid fa-plus mr-2"></i> {t('variants.add')}
+            </button>
+            <input
+              type="text"
+              value={setName}
+              onChange={e => setSetName(e.target.value)}
+              placeholder={defaultSetName}
+              className="bg-gray-700 border-2 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+              title={t('variants.setName')}
+            />
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-green-900/50 text-white font-bold py-2 px-4 rounded-md transition flex items-center justify-center"
+            >
+              {isExporting ? <LoadingSpinner /> : <><i className="fa-solid fa-download mr-2"></i> {t('variants.export')}</>}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VariantsPanel;
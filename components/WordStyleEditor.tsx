@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { TextElement, TextRunStyle } from '../types';
+import { KEYWORD_RUN_STYLE } from '../constants';
+import { findKeywordWords, getRunStyle, getWords, updateRuns } from '../services/textRuns';
+import { useI18n } from '../hooks/useI18n';
+
+interface WordStyleEditorProps {
+  element: TextElement;
+  keywords: string[];
+  onChange: (runs: TextRunStyle[]) => void;
+}
+
+const clearButtonClass = 'text-xs text-gray-400 hover:text-white px-2';
+
+const WordStyleEditor: React.FC<WordStyleEditorProps> = ({ element, keywords, onChange }) => {
+  const { t } = useI18n();
+  const [selectedWords, setSelectedWords] = useState<number[]>([]);
+  const words = getWords(element.text);
+  const keywordWords = findKeywordWords(element.text, keywords);
+
+  // Another layer, or text edits that removed words, invalidate the selection
+  useEffect(() => setSelectedWords([]), [element.id]);
+  useEffect(() => {
+    setSelectedWords(prev => prev.filter(index => index < words.length));
+  }, [words.length]);
+
+  const firstRun = selectedWords.length > 0 ? getRunStyle(element, selectedWords[0]) : undefined;
+  const apply = (updates: Partial<TextRunStyle>) => onChange(updateRuns(element.runs, selectedWords, updates));
+
+  const toggleWord = (index: number) =>
+    setSelectedWords(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+  return (
+    <div className="pt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-gray-300">{t('wordStyle.title')}</h3>
+        <button
+          onClick={() => onChange(updateRuns(element.runs, keywordWords, KEYWORD_RUN_STYLE))}
+          disabled={keywordWords.length === 0}
+          className="text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed text-white py-1 px-2 rounded transition"
+          title={keywords.length > 0 ? t('wordStyle.keywords', { keywords: keywords.join(', ') }) : t('wordStyle.noKeywords')}
+        >
+          <i className="fa-solid fa-wand-magic-sparkles mr-1"></i> {t('wordStyle.highlightKeywords')}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {words.map((word, index) => {
+          const run = getRunStyle(element, index);
+          return (
+            <button
+              key={index}
+              onClick={() => toggleWord(index)}
+              className={`px-2 py-0.5 rounded text-xs font-bold transition-colors border ${
+                selectedWords.includes(index) ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-gray-700 border-transparent text-gray-200 hover:bg-gray-600'
+              }`}
+              style={{ color: selectedWords.includes(index) ? undefined : run?.color, backgroundColor: selectedWords.includes(index) ? undefined : run?.highlightColor }}
+            >
+              {word}
+            </button>
+          );
+        })}
+      </div>
+      {selectedWords.length > 0 ? (
+        <div className="grid grid-cols-2 gap-2 bg-gray-900/50 p-2 rounded-md">
+          <div>
+            <label className="block text-xs font-medium text-gray-400">
+              {t('wordStyle.color')}
+              {firstRun?.color && <button onClick={() => apply({ color: undefined })} className={clearButtonClass}>{t('wordStyle.clear')}</button>}
+            </label>
+            <input type="color" value={firstRun?.color ?? element.color} onChange={e => apply({ color: e.target.value })} className="w-full mt-1 h-8 bg-gray-700 border-gray-600 rounded-md p-1" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400">
+              {t('wordStyle.stroke')}
+              {firstRun?.strokeColor && <button onClick={() => apply({ strokeColor: undefined })} className={clearButtonClass}>{t('wordStyle.clear')}</button>}
+            </label>
+            <input type="color" value={firstRun?.strokeColor ?? element.strokeColor} onChange={e => apply({ strokeColor: e.target.value })} className="w-full mt-1 h-8 bg-gray-700 border-gray-600 rounded-md p-1" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400">
+              {t('wordStyle.highlight')}
+              {firstRun?.highlightColor && <button onClick={() => apply({ highlightColor: undefined })} className={clearButtonClass}>{t('wordStyle.clear')}</button>}
+            </label>
+            <input type="color" value={firstRun?.highlightColor ?? '#ef4444'} onChange={e => apply({ highlightColor: e.target.value })} className="w-full mt-1 h-8 bg-gray-700 border-gray-600 rounded-md p-1" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400">{t('wordStyle.size', { percent: Math.round((firstRun?.fontScale ?? 1) * 100) })}</label>
+            <input
+              type="range"
+              min="0.5"
+              max="2"
+              step="0.05"
+              value={firstRun?.fontScale ?? 1}
+              onChange={e => {
+                const fontScale = parseFloat(e.target.value);
+                apply({ fontScale: fontScale === 1 ? undefined : fontScale });
+              }}
+              className="w-full mt-3"
+            />
+          </div>
+          <button
+            onClick={() => apply({ color: undefined, strokeColor: undefined, highlightColor: undefined, fontScale: undefined })}
+            className="col-span-2 text-xs bg-gray-700 hover:bg-gray-600 text-white py-1 rounded transition"
+          >
+            {t('wordStyle.clearSelected')}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">{t('wordStyle.hint')}</p>
+      )}
+    </div>
+  );
+};
+
+export default WordStyleEditor;
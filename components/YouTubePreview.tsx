@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ImageAdjustments, Layer } from '../types';
+import { useRenderedComposition } from '../hooks/useRenderedComposition';
+import { useI18n } from '../hooks/useI18n';
+
+interface YouTubePreviewProps {
+  image: string;
+  textElements: Layer[];
+  previewWidth: number;
+  adjustments: ImageAdjustments;
+  title: string;
+}
+
+type Theme = 'dark' | 'light';
+
+// Thumbnail sizes YouTube uses on each surface, in CSS pixels.
+const surfaces = [
+  { id: 'home', labelKey: 'youtube.home', width: 320, height: 180 },
+  { id: 'search', labelKey: 'youtube.search', width: 360, height: 202 },
+  { id: 'sidebar', labelKey: 'youtube.sidebar', width: 168, height: 94 },
+  { id: 'mobile', labelKey: 'youtube.mobile', width: 375, height: 211 },
+] as const;
+
+const themeClasses: Record<Theme, { bg: string; title: string; meta: string; avatar: string }> = {
+  dark: { bg: 'bg-[#0f0f0f]', title: 'text-[#f1f1f1]', meta: 'text-[#aaaaaa]', avatar: 'bg-gray-600' },
+  light: { bg: 'bg-white', title: 'text-[#0f0f0f]', meta: 'text-[#606060]', avatar: 'bg-gray-300' },
+};
+
+const Thumbnail: React.FC<{ src: string | null; width: number; height: number; duration: string }> = ({ src, width, height, duration }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="relative flex-shrink-0 overflow-hidden rounded-lg bg-gray-700" style={{ width, height }}>
+      {src && <img src={src} alt={t('youtube.previewAlt')} className="w-full h-full object-cover" />}
+      <span
+        className="absolute bottom-1 right-1 px-1 rounded bg-black/80 text-white font-medium leading-tight"
+        style={{ fontSize: width < 200 ? 11 : 12 }}
+      >
+        {duration}
+      </span>
+    </div>
+  );
+};
+
+const YouTubePreview: React.FC<YouTubePreviewProps> = ({ image, textElements, previewWidth, adjustments, title }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [theme, setTheme] = useState<Theme>('dark');
+  // A typed title only replaces the one it was typed over; switching headline or
+  // variant shows the new title again.
+  const [titleOverride, setTitleOverride] = useState<{ source: string; text: string } | null>(null);
+  const fakeTitle = titleOverride?.source === title ? titleOverride.text : title;
+  const [customChannelName, setChannelName] = useState<string | null>(null);
+  const channelName = customChannelName ?? t('youtube.defaultChannel');
+  const [duration, setDuration] = useState('12:34');
+  const composition = useRenderedComposition(image, textElements, previewWidth, adjustments, isOpen);
+  const colors = themeClasses[theme];
+  const meta = t('youtube.meta', { channel: channelName });
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <button onClick={() => setIsOpen(prev => !prev)} className="w-full flex items-center justify-between">
+        <h3 className="text-base font-bold text-gray-200">
+          <i className="fa-brands fa-youtube mr-2 text-red-500"></i>
+          {t('youtube.title')}
+        </h3>
+        <i className={`fa-solid ${isOpen ? 'fa-chevron-up' : 'fa-chevron-down'} text-gray-400`}></i>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input
+              type="text"
+              value={fakeTitle}
+              onChange={e => setTitleOverride({ source: title, text: e.target.value })}
+              placeholder={t('youtube.videoTitle')}
+              className="sm:col-span-2 bg-gray-700 border-2 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={channelName}
+              onChange={e => setChannelName(e.target.value)}
+              placeholder={t('youtube.channelName')}
+              className="bg-gray-700 border-2 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={duration}
+              onChange={e => setDuration(e.target.value)}
+              placeholder="12:34"
+              className="bg-gray-700 border-2 border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex items-center space-x-1 bg-gray-900/50 p-1 rounded-md w-fit">
+            {(['dark', 'light'] as Theme[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setTheme(option)}
+                className={`px-3 py-1 text-sm rounded transition-colors ${theme === option ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              >
+                <i className={`fa-solid ${option === 'dark' ? 'fa-moon' : 'fa-sun'} mr-1`}></i>
+                {option === 'dark' ? t('youtube.dark') : t('youtube.light')}
+              </button>
+            ))}
+          </div>
+
+          <div className={`${colors.bg} rounded-lg p-4 space-y-6 overflow-x-auto`}>
+            {surfaces.map(surface => (
+              <div key={surface.id}>
+                <p className={`text-xs uppercase tracking-wide mb-2 ${colors.meta}`}>
+                  {t(surface.labelKey)} · {surface.width}×{surface.height}
+                </p>
+                {surface.id === 'home' || surface.id === 'mobile' ? (
+                  <div style={{ width: surface.width }}>
+                    <Thumbnail src={composition} width={surface.width} height={surface.height} duration={duration} />
+                    <div className="flex gap-3 mt-3">
+                      <div className={`w-9 h-9 rounded-full flex-shrink-0 flex items-center justify-center font-bold ${colors.avatar} ${colors.title}`}>
+                        {channelName.charAt(0).toUpperCase()}
+                      </div>
+                      <div className="min-w-0">
+                        <p className={`text-sm font-semibold leading-5 line-clamp-2 ${colors.title}`}>{fakeTitle}</p>
+                        <p className={`text-xs mt-1 ${colors.meta}`}>{meta}</p>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-3" style={{ maxWidth: surface.width * 2.5 }}>
+                    <Thumbnail src={composition} width={surface.width} height={surface.height} duration={duration} />
+                    <div className="min-w-0">
+                      <p className={`${surface.id === 'search' ? 'text-lg' : 'text-sm'} font-semibold leading-snug line-clamp-2 ${colors.title}`}>{fakeTitle}</p>
+                      <p className={`text-xs mt-1 ${colors.meta}`}>{meta}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default YouTubePreview;
@@ -1,13 +1,30 @@
+import { AspectRatio, ContentLanguage, EmotionalTrigger, ExportFormat, ExportSettings, HeadlineCriterion, HeadlineRefinement, ImageAdjustments, ShapeKind, StickerDefinition, TextRunStyle, UiLanguage } from './types';
 
+
+// Labels live in the locale catalogs under `style.<value>`.
 export const STYLES = [
-  { label: 'Cinemático', value: 'cinematic', icon: '🎬' },
-  { label: 'Gamer', value: 'gamer', icon: '🎮' },
-  { label: 'Vintage', value: 'vintage', icon: '📜' },
-  { label: 'Anime', value: 'anime', icon: '🌸' },
-  { label: 'Cyberpunk', value: 'cyberpunk', icon: '🤖' },
-  { label: 'Minimalista', value: 'minimalist', icon: '✨' },
-  { label: '3D/Render', value: '3d render', icon: '🧊' },
-  { label: 'Vlog', value: 'vlog', icon: '📸' },
+  { value: 'cinematic', icon: '🎬' },
+  { value: 'gamer', icon: '🎮' },
+  { value: 'vintage', icon: '📜' },
+  { value: 'anime', icon: '🌸' },
+  { value: 'cyberpunk', icon: '🤖' },
+  { value: 'minimalist', icon: '✨' },
+  { value: '3d render', icon: '🧊' },
+  { value: 'vlog', icon: '📸' },
+];
+
+// `promptName` is how the (Portuguese) prompts refer to the language.
+export const CONTENT_LANGUAGE_OPTIONS: { value: ContentLanguage; label: string; flag: string; promptName: string }[] = [
+  { value: 'pt-BR', label: 'Português', flag: '🇧🇷', promptName: 'português do Brasil' },
+  { value: 'en', label: 'English', flag: '🇺🇸', promptName: 'inglês' },
+  { value: 'es', label: 'Español', flag: '🇪🇸', promptName: 'espanhol' },
+];
+
+// Each language is named in itself so it can be found from any of them.
+export const UI_LANGUAGE_OPTIONS: { value: UiLanguage; label: string; flag: string }[] = [
+  { value: 'pt-BR', label: 'Português', flag: '🇧🇷' },
+  { value: 'en', label: 'English', flag: '🇺🇸' },
+  { value: 'es', label: 'Español', flag: '🇪🇸' },
 ];
 
 export const FONTS = [
@@ -21,3 +38,189 @@ export const FONTS = [
   { name: 'Bangers', value: 'Bangers, cursive' },
   { name: 'Roboto', value: 'Roboto, sans-serif' },
 ];
+
+// Labels live in the locale catalogs under `aspectRatio.<value>`.
+export const ASPECT_RATIO_OPTIONS: { value: AspectRatio; icon: string }[] = [
+  { value: '16:9', icon: 'fa-solid fa-tv' },
+  { value: '9:16', icon: 'fa-solid fa-mobile-screen-button' },
+  { value: '1:1', icon: 'fa-solid fa-square' },
+  { value: '4:3', icon: 'fa-solid fa-display' },
+  { value: '3:4', icon: 'fa-solid fa-portrait' },
+];
+
+// Labels live in the locale catalogs under `shape.<value>`.
+export const SHAPE_OPTIONS: { value: ShapeKind; icon: string }[] = [
+  { value: 'arrow', icon: 'fa-solid fa-arrow-right-long' },
+  { value: 'circle', icon: 'fa-regular fa-circle' },
+  { value: 'rectangle', icon: 'fa-regular fa-square' },
+  { value: 'underline', icon: 'fa-solid fa-minus' },
+];
+
+// Labels live in the locale catalogs under `sticker.<id>`. Badge text is drawn
+// on the thumbnail, so it follows the content language, not the interface one.
+export const STICKERS: StickerDefinition[] = [
+  { id: 'fire', emoji: '🔥' },
+  { id: 'shocked', emoji: '😱' },
+  { id: 'mind-blown', emoji: '🤯' },
+  { id: 'eyes', emoji: '👀' },
+  { id: 'point-right', emoji: '👉' },
+  { id: 'check', emoji: '✅' },
+  { id: 'cross', emoji: '❌' },
+  { id: 'money', emoji: '💰' },
+  { id: 'star', emoji: '⭐' },
+  { id: 'warning', emoji: '⚠️' },
+  { id: 'badge-new', badge: { text: { 'pt-BR': 'NOVO', en: 'NEW', es: 'NUEVO' }, background: '#ef4444', color: '#ffffff' } },
+  { id: 'badge-free', badge: { text: { 'pt-BR': 'GRÁTIS', en: 'FREE', es: 'GRATIS' }, background: '#22c55e', color: '#ffffff' } },
+  { id: 'badge-live', badge: { text: { 'pt-BR': 'AO VIVO', en: 'LIVE', es: 'EN VIVO' }, background: '#dc2626', color: '#ffffff' } },
+  { id: 'badge-top', badge: { text: { 'pt-BR': 'TOP 10', en: 'TOP 10', es: 'TOP 10' }, background: '#facc15', color: '#111827' } },
+];
+
+// Applied by "Destacar palavras-chave" to the headline's power words.
+export const KEYWORD_RUN_STYLE: Omit<TextRunStyle, 'wordIndex'> = { color: '#facc15' };
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; mimeType: string; extension: string; lossy: boolean }[] = [
+  { value: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  { value: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  { value: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+];
+
+export const EXPORT_SIZE_PRESETS: Record<AspectRatio, { label: string; width: number; height: number }[]> = {
+  '16:9': [
+    { label: 'YouTube (1280×720)', width: 1280, height: 720 },
+    { label: 'Full HD (1920×1080)', width: 1920, height: 1080 },
+    { label: '4K (3840×2160)', width: 3840, height: 2160 },
+  ],
+  '9:16': [
+    { label: 'Shorts/Story (1080×1920)', width: 1080, height: 1920 },
+    { label: 'HD (720×1280)', width: 720, height: 1280 },
+  ],
+  '1:1': [
+    { label: 'Instagram (1080×1080)', width: 1080, height: 1080 },
+    { label: '720×720', width: 720, height: 720 },
+  ],
+  '4:3': [
+    { label: '1440×1080', width: 1440, height: 1080 },
+    { label: '1024×768', width: 1024, height: 768 },
+  ],
+  '3:4': [
+    { label: '1080×1440', width: 1080, height: 1440 },
+    { label: '768×1024', width: 768, height: 1024 },
+  ],
+};
+
+// The UI lists "no limit" before these.
+export const EXPORT_BYTE_LIMIT_OPTIONS: { value: number; label: string }[] = [
+  { value: 2 * 1024 * 1024, label: '2 MB (YouTube)' },
+  { value: 1024 * 1024, label: '1 MB' },
+  { value: 500 * 1024, label: '500 KB' },
+];
+
+// Placeholders: {titulo} headline slug, {data} YYYY-MM-DD, {largura}, {altura}
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 0.92,
+  size: { width: 1280, height: 720 },
+  maxBytes: 2 * 1024 * 1024,
+  fileNameTemplate: '{titulo}-{data}',
+};
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  vibrance: 0,
+  temperature: 0,
+  sharpen: 0,
+  vignette: 0,
+  preset: null,
+};
+
+// Lift/gain colour grades (per-channel levels for black and white, 0..1) plus
+// the contrast and saturation that go with each look, keyed by STYLES value.
+export const IMAGE_LOOK_PRESETS: Record<string, { lift: [number, number, number]; gain: [number, number, number]; contrast: number; saturation: number }> = {
+  cinematic: { lift: [0.02, 0.06, 0.08], gain: [1, 0.95, 0.88], contrast: 15, saturation: -10 },
+  gamer: { lift: [0.02, 0, 0.06], gain: [1, 0.97, 1], contrast: 20, saturation: 25 },
+  vintage: { lift: [0.1, 0.07, 0.04], gain: [0.98, 0.93, 0.8], contrast: -10, saturation: -30 },
+  anime: { lift: [0.02, 0.02, 0.05], gain: [1, 1, 1], contrast: 5, saturation: 30 },
+  cyberpunk: { lift: [0.06, 0, 0.1], gain: [1, 0.88, 1], contrast: 20, saturation: 30 },
+  minimalist: { lift: [0.04, 0.04, 0.04], gain: [1, 1, 1], contrast: -10, saturation: -20 },
+  '3d render': { lift: [0, 0.01, 0.03], gain: [1, 1, 1], contrast: 10, saturation: 10 },
+  vlog: { lift: [0.03, 0.02, 0.01], gain: [1, 0.98, 0.94], contrast: 5, saturation: 10 },
+};
+
+// A thumbnail is read in about a second: past this the text stops being legible
+// at feed size.
+export const HEADLINE_READABILITY = { idealWords: 4, maxWords: 6, idealChars: 24, maxChars: 32 };
+
+// Labels live in the locale catalogs under `criterion.<value>`.
+export const HEADLINE_CRITERIA: { value: HeadlineCriterion; weight: number }[] = [
+  { value: 'length', weight: 0.25 },
+  { value: 'emotion', weight: 0.2 },
+  { value: 'curiosity', weight: 0.2 },
+  { value: 'numbers', weight: 0.1 },
+  { value: 'clarity', weight: 0.25 },
+];
+
+// Words per content language, matched without accents and in lower case.
+// Labels live in the locale catalogs under `trigger.<value>`.
+export const EMOTIONAL_TRIGGERS: { value: EmotionalTrigger; words: Record<ContentLanguage, string[]> }[] = [
+  {
+    value: 'curiosity',
+    words: {
+      'pt-BR': ['segredo', 'ninguem', 'verdade', 'descobri', 'revelado', 'escondido', 'misterio', 'olha'],
+      en: ['secret', 'nobody', 'truth', 'discovered', 'revealed', 'hidden', 'mystery', 'look'],
+      es: ['secreto', 'nadie', 'verdad', 'descubri', 'revelado', 'escondido', 'misterio', 'mira'],
+    },
+  },
+  {
+    value: 'fear',
+    words: {
+      'pt-BR': ['erro', 'errar', 'perigo', 'cuidado', 'nunca', 'pare', 'evite', 'risco', 'golpe', 'pior'],
+      en: ['mistake', 'mistakes', 'danger', 'careful', 'never', 'stop', 'avoid', 'risk', 'scam', 'worst'],
+      es: ['error', 'errores', 'peligro', 'cuidado', 'nunca', 'deja', 'evita', 'riesgo', 'estafa', 'peor'],
+    },
+  },
+  {
+    value: 'urgency',
+    words: {
+      'pt-BR': ['agora', 'hoje', 'urgente', 'ultima', 'rapido', 'antes', 'ja', 'imediatamente'],
+      en: ['now', 'today', 'urgent', 'last', 'fast', 'before', 'quick', 'immediately'],
+      es: ['ahora', 'hoy', 'urgente', 'ultima', 'rapido', 'antes', 'ya', 'inmediatamente'],
+    },
+  },
+  {
+    value: 'surprise',
+    words: {
+      'pt-BR': ['chocante', 'inacreditavel', 'incrivel', 'absurdo', 'surpreendente', 'insano', 'deu'],
+      en: ['shocking', 'unbelievable', 'incredible', 'insane', 'surprising', 'crazy', 'worked'],
+      es: ['impactante', 'increible', 'absurdo', 'sorprendente', 'locura', 'loco', 'funciono'],
+    },
+  },
+  {
+    value: 'desire',
+    words: {
+      'pt-BR': ['gratis', 'facil', 'melhor', 'dinheiro', 'rico', 'sonho', 'perfeito', 'metodo'],
+      en: ['free', 'easy', 'best', 'money', 'rich', 'dream', 'perfect', 'method'],
+      es: ['gratis', 'facil', 'mejor', 'dinero', 'rico', 'sueno', 'perfecto', 'metodo'],
+    },
+  },
+  {
+    value: 'achievement',
+    words: {
+      'pt-BR': ['consegui', 'fiz', 'venci', 'milhao', 'primeiro', 'recorde', 'dias', 'transformei'],
+      en: ['finally', 'made', 'won', 'million', 'first', 'record', 'days', 'transformed'],
+      es: ['logre', 'hice', 'gane', 'millon', 'primer', 'record', 'dias', 'transforme'],
+    },
+  },
+  { value: 'neutral', words: { 'pt-BR': [], en: [], es: [] } },
+];
+
+// Quick refinements for another round of headline suggestions; `instruction`
+// completes "Gere mais 4 variações…". Labels live in the locale catalogs under
+// `refinement.<value>`.
+export const HEADLINE_REFINEMENTS: { value: HeadlineRefinement; instruction: string }[] = [
+  { value: 'shorter', instruction: 'mais curtas, com no máximo 4 palavras' },
+  { value: 'curiosity', instruction: 'que despertem mais curiosidade, sem entregar a resposta' },
+  { value: 'number', instruction: 'que incluam um número concreto' },
+  { value: 'lessClickbait', instruction: 'menos sensacionalistas: honestas e diretas, sem exagero' },
+];
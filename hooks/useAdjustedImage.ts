@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { ImageAdjustments } from '../types';
+import { applyAdjustments, hasAdjustments } from '../services/adjustments';
+import { createCanvas, loadImage } from '../services/imageUtils';
+
+// The base image with its adjustments applied, as an object URL for the editor
+// preview. Rendered at natural size so sharpening looks as it will on export;
+// debounced so dragging a slider doesn't queue a render per step.
+export const useAdjustedImage = (image: string | null, adjustments: ImageAdjustments): string | null => {
+  const original = image ? `data:image/png;base64,${image}` : null;
+  const [adjusted, setAdjusted] = useState<{ source: string; url: string } | null>(null);
+  const isAdjusted = hasAdjustments(adjustments);
+
+  useEffect(() => {
+    if (!original || !isAdjusted) {
+      setAdjusted(null);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const img = await loadImage(original);
+        const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        applyAdjustments(ctx, canvas.width, canvas.height, adjustments);
+        canvas.toBlob(blob => {
+          if (cancelled || !blob) return;
+          url = URL.createObjectURL(blob);
+          setAdjusted({ source: original, url });
+        });
+      } catch (err) {
+        console.error("Failed to render adjusted image:", err);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      // The next render replaces this one; keep it on screen until then
+      if (url) setTimeout(() => URL.revokeObjectURL(url!), 1000);
+    };
+  }, [original, adjustments, isAdjusted]);
+
+  // Never show an adjusted copy of a different base image
+  return isAdjusted && adjusted?.source === original ? adjusted.url : original;
+};
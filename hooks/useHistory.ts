@@ -0,0 +1,64 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Consecutive records sharing a group key within this window collapse into a
+// single entry, so a slider scrub or a typing burst undoes in one step.
+const GROUP_WINDOW_MS = 1000;
+
+export const useHistory = <T>(limit = 100) => {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const lastGroup = useRef<{ key: string | null; time: number }>({ key: null, time: 0 });
+  const [, setVersion] = useState(0);
+
+  const notify = () => setVersion(v => v + 1);
+
+  // Stores the state as it was *before* a change.
+  const record = useCallback((snapshot: T, groupKey?: string) => {
+    const now = Date.now();
+    const isSameGroup = !!groupKey
+      && lastGroup.current.key === groupKey
+      && now - lastGroup.current.time < GROUP_WINDOW_MS;
+    lastGroup.current = { key: groupKey ?? null, time: now };
+    if (isSameGroup) return;
+
+    past.current = [...past.current, snapshot].slice(-limit);
+    future.current = [];
+    notify();
+  }, [limit]);
+
+  const undo = useCallback((current: T): T | null => {
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return null;
+    past.current = past.current.slice(0, -1);
+    future.current = [...future.current, current];
+    lastGroup.current = { key: null, time: 0 };
+    notify();
+    return previous;
+  }, []);
+
+  const redo = useCallback((current: T): T | null => {
+    const next = future.current[future.current.length - 1];
+    if (next === undefined) return null;
+    future.current = future.current.slice(0, -1);
+    past.current = [...past.current, current];
+    lastGroup.current = { key: null, time: 0 };
+    notify();
+    return next;
+  }, []);
+
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    lastGroup.current = { key: null, time: 0 };
+    notify();
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+};
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { UiLanguage } from '../types';
+import { Translate, translate } from '../services/i18n';
+
+export interface I18n {
+  language: UiLanguage;
+  setLanguage: (language: UiLanguage) => void;
+  t: Translate;
+}
+
+// Outside an I18nProvider everything renders in Portuguese and can't be switched.
+export const I18nContext = createContext<I18n>({
+  language: 'pt-BR',
+  setLanguage: () => {},
+  t: (key, params) => translate('pt-BR', key, params),
+});
+
+export const useI18n = () => useContext(I18nContext);
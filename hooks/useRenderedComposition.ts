@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { ImageAdjustments, Layer } from '../types';
+import { renderComposition } from '../services/compositionRenderer';
+
+// Renders the composition to a data URL, debounced so it can follow live edits.
+export const useRenderedComposition = (
+  image: string | null,
+  textElements: Layer[],
+  previewWidth: number,
+  adjustments?: ImageAdjustments,
+  enabled = true
+): string | null => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !image || previewWidth <= 0) return;
+    let cancelled = false;
+
+    const timeoutId = setTimeout(() => {
+      renderComposition(image, textElements, previewWidth, undefined, adjustments)
+        .then(canvas => {
+          if (!cancelled) setDataUrl(canvas.toDataURL('image/jpeg', 0.85));
+        })
+        .catch(err => console.error("Failed to render composition preview:", err));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [image, textElements, previewWidth, adjustments, enabled]);
+
+  return dataUrl;
+};
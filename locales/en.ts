@@ -0,0 +1,452 @@
+import { MessageKey } from './pt-BR';
+
+export const en: Record<MessageKey, string> = {
+  'app.title': 'Viral Thumbnail Generator',
+  'app.tagline': 'Your AI art director for high-impact thumbnails.',
+  'app.errorPrefix': 'Oops!',
+  'app.interfaceLanguage': 'Interface language',
+
+  'errors.missingProvider': 'Please enter your Google Gemini API key or set up a local server to continue.',
+  'errors.quota': 'You have exceeded your Gemini API quota. Check that your API key is set up with a billing plan in Google AI Studio or Google Cloud, as the free API has strict limits.',
+  'errors.invalidApiKey': 'Your API key seems to be invalid. Check that you copied it correctly.',
+  'errors.headlines': 'Failed to generate headline variations. Please try again.',
+  'errors.regenerateHeadlines': 'Failed to generate new headline variations. Please try again.',
+  'errors.critique': 'Failed to analyse the headlines. Please try again.',
+  'errors.thumbnailTexts': 'Failed to suggest texts for the image. Write your own or try again.',
+  'errors.uploadImages': 'Failed to load one or more images.',
+  'errors.generateImage': 'Failed to generate the thumbnail. Please try again.',
+  'errors.exportVariants': 'Failed to export the variants.',
+  'errors.createFormat': 'Failed to create the format.',
+  'errors.exportFormats': 'Failed to export the formats.',
+  'errors.modifyImage': 'Failed to modify the image.',
+  'errors.layerFileType': 'Choose an image file (PNG, WebP, JPG or SVG).',
+  'errors.layerImage': 'Could not load the image.',
+  'errors.cutout': 'Could not load the cut-out.',
+  'errors.nothingToExport': 'No image to export.',
+  'errors.processingCanvas': 'Could not create a canvas to process the image.',
+  'errors.encodeImage': 'Could not convert the image.',
+  'errors.formatUnsupported': 'This browser can\'t export to {format}.',
+  'errors.localServerUrl': 'The local server address is missing.',
+  'errors.localServerStatus': 'The local server returned error {status} for {path}. {details}',
+  'errors.localServerBase64': 'The local server didn\'t return a base64 image (b64_json).',
+  'errors.localServerNoImage': 'The local server didn\'t return any image.',
+  'errors.localServerNoText': 'The local server didn\'t return a text response.',
+  'errors.noImageToEdit': 'No image was provided to edit.',
+  'errors.missingGeminiKey': 'The Gemini API key is missing.',
+  'errors.imageGenerationFailed': 'The image generation AI couldn\'t create the image. Try again with a different prompt or style.',
+  'errors.editRefused': 'The editing AI failed and returned a message: "{message}"',
+  'errors.editEmpty': 'Unexpected error: the image editing model returned neither an image nor a text message.',
+  'errors.invalidThumbnailTexts': 'The AI didn\'t return valid text suggestions.',
+  'errors.incompleteTranslation': 'The AI didn\'t return a translation for every thumbnail text.',
+  'errors.invalidCritique': 'The AI didn\'t return a valid headline analysis.',
+  'errors.unexpectedResponse': 'The AI\'s response wasn\'t in the expected format.',
+  'errors.projectMalformed': 'The file isn\'t a valid project (malformed JSON).',
+  'errors.projectInvalid': 'The file isn\'t a valid thumbnail project.',
+  'errors.projectTooNew': 'This project was created by a newer version of the app.',
+  'errors.segmentationModelMissing': 'Cut-out model not found at {url}. Use the brushes to cut out by hand.',
+  'errors.cutoutEmpty': 'The cut-out is empty. Paint over the subject before saving.',
+  'errors.noVariantImages': 'No variant has a base image to export.',
+  'errors.formatNoBaseImage': 'The main composition doesn\'t have a base image yet.',
+  'errors.noFormatImages': 'No format has a base image to export.',
+  'errors.reframeProvider': 'Set up an AI provider to extend the image.',
+  'errors.nothingToTranslate': 'The thumbnail has no text to translate.',
+
+  'loading.prompt': 'Generating the art prompt...',
+  'loading.candidates': 'Creating {count} thumbnail options...',
+  'loading.candidate': 'Creating your magic thumbnail...',
+  'loading.modifying': 'Applying changes...',
+  'loading.thumbnail': 'Generating your Thumbnail...',
+
+  'headlineStep.title': 'Enter the Video Headline',
+  'headlineStep.placeholder': 'E.g. How I made my first million...',
+  'headlineStep.contentLanguage': 'Language of the headlines and thumbnail texts',
+  'headlineStep.configureProvider': 'Set up the AI provider to continue',
+  'headlineStep.submit': 'Analyse and Generate Variations',
+
+  'selectionStep.title': 'Choose the Best Headline',
+  'selectionStep.introStart': 'Select the headline to use on the thumbnail. The keywords are',
+  'selectionStep.introHighlight': 'highlighted',
+  'selectionStep.introEnd': 'for you. Options are sorted by their readability and thumbnail appeal score.',
+  'selectionStep.critique': 'Ask the AI for a review',
+  'selectionStep.critiqueHint': 'The AI rates the variations on the same criteria and the score then combines both reviews',
+
+  'styleStep.title': 'Choose the Visual Style',
+  'styleStep.customDivider': 'Or type a custom style',
+  'styleStep.customPlaceholder': 'E.g. Crayon art, Steampunk, Vaporwave',
+  'styleStep.customSubmit': 'Use Custom Style',
+
+  'imageStep.titleEdit': 'Fine-tune the Thumbnail',
+  'imageStep.titlePick': 'Choose the Base Image',
+  'imageStep.titleGenerate': 'Generate the Base Image',
+  'imageStep.uploadClick': 'Click to upload',
+  'imageStep.uploadDrop': 'or drag and drop',
+  'imageStep.uploadHint': 'PNG, JPG, WEBP (MAX. 5MB)',
+  'imageStep.uploaded': 'Uploaded Images:',
+  'imageStep.cutoutBadge': 'CUT-OUT',
+  'imageStep.cutout': 'Cut out subject',
+  'imageStep.cutoutHint': 'Cut out subject (removes the background)',
+  'imageStep.removeImage': 'Remove image',
+  'imageStep.aspectRatio': 'Aspect Ratio',
+  'imageStep.candidateCount': 'Options per generation',
+  'imageStep.noBaseImage': "Don't have a base image? No worries! The AI will create one from scratch.",
+  'imageStep.generate': 'Generate Base Image',
+  'imageStep.pickIntro': 'Choose the image to use as the base of the thumbnail.',
+  'imageStep.pickPrevious': 'Or pick an earlier image from this session',
+  'imageStep.backToEditor': 'Back to the Editor without Changes',
+
+  'editor.underDurationBadge': "The text sits under YouTube's duration badge",
+  'editor.outsideSafeArea': 'The text goes past the safe margin',
+  'editor.outsideCropFrame': 'The text is cut off by one of the active crop frames',
+  'editor.addText': 'Add Text',
+  'editor.newText': 'AMAZING TEXT',
+  'editor.undo': 'Undo',
+  'editor.undoHint': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo',
+  'editor.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'editor.text': 'Text',
+  'editor.font': 'Font',
+  'editor.fontSize': 'Size ({value}px)',
+  'editor.letterSpacing': 'Letter Spacing ({value}px)',
+  'editor.lineHeight': 'Line Height ({value})',
+  'editor.alignment': 'Alignment',
+  'editor.alignLeft': 'Align left',
+  'editor.alignCenter': 'Center',
+  'editor.alignRight': 'Align right',
+  'editor.color': 'Colour',
+  'editor.useGradient': 'Use Gradient',
+  'editor.gradientColor1': 'Colour 1',
+  'editor.gradientColor2': 'Colour 2',
+  'editor.gradientAngle': 'Angle ({value}°)',
+  'editor.solidColor': 'Solid Colour',
+  'editor.stroke': 'Outline',
+  'editor.strokeWidth': 'Outline Width ({value}px)',
+  'editor.shadow': 'Shadow',
+  'editor.shadowBlur': 'Blur ({value}px)',
+  'editor.shadowOffsetX': 'Offset X ({value}px)',
+  'editor.shadowOffsetY': 'Offset Y ({value}px)',
+  'editor.transform': 'Transform',
+  'editor.rotation': 'Rotation ({value}°)',
+  'editor.duplicate': 'Duplicate',
+  'editor.group': 'Group',
+  'editor.groupHint': 'Select two or more layers (Shift+click or drag on the image)',
+  'editor.ungroup': 'Ungroup',
+  'editor.removeLayer': 'Remove Layer',
+  'editor.removeLayers': 'Remove {count} Layers',
+  'editor.empty': 'Click "Add Text" or add an image, shape or sticker. Select a layer on the image to edit it.',
+  'editor.gallery': 'Session Gallery',
+  'editor.galleryHint': 'Swap the base image for any image generated this session, at no cost.',
+  'editor.reframeInVariants': 'Leave variants mode to change the aspect ratio: all variants share the same one.',
+  'editor.reframeInFormats': 'In formats mode, create a new format instead of reframing.',
+  'editor.modify': 'Modify Image',
+  'editor.modifyHint': 'Describe the change you want to make to the current image.',
+  'editor.maskHint': 'Paint the area of the image that may be changed',
+  'editor.maskStart': 'Paint area',
+  'editor.maskExit': 'Leave mask',
+  'editor.modifyPlaceholder': 'E.g. add a pirate hat, change the background to a beach',
+  'editor.modifyApply': 'Apply Change',
+  'editor.download': 'Finish and Download',
+  'editor.regenerate': 'Generate Again',
+  'editor.startOver': 'Start Over',
+
+  'prompt.english': 'Prompt in English (for the image AI)',
+  'prompt.copy': 'Copy in 1 click',
+  'prompt.copied': 'Copied!',
+  'prompt.copyFailed': 'Copy failed',
+  'prompt.translation': 'See the {language} translation',
+
+  'style.cinematic': 'Cinematic',
+  'style.gamer': 'Gamer',
+  'style.vintage': 'Vintage',
+  'style.anime': 'Anime',
+  'style.cyberpunk': 'Cyberpunk',
+  'style.minimalist': 'Minimalist',
+  'style.3d render': '3D/Render',
+  'style.vlog': 'Vlog',
+
+  'aspectRatio.16:9': 'Thumbnail (16:9)',
+  'aspectRatio.9:16': 'Story (9:16)',
+  'aspectRatio.1:1': 'Square (1:1)',
+  'aspectRatio.4:3': 'Classic (4:3)',
+  'aspectRatio.3:4': 'Portrait (3:4)',
+
+  'projects.title': 'My Projects',
+  'projects.autosaveHint': 'Your work is saved automatically in this browser.',
+  'projects.import': 'Import Project',
+  'projects.empty': 'No saved projects yet.',
+  'projects.editedAt': 'Edited {date}',
+  'projects.open': 'Open',
+  'projects.rename': 'Rename',
+  'projects.duplicate': 'Duplicate',
+  'projects.export': 'Export',
+  'projects.delete': 'Delete',
+  'projects.confirmDelete': 'Delete the project "{name}"? This can\'t be undone.',
+  'projects.loadFailed': 'Could not load your saved projects.',
+  'projects.duplicateFailed': 'Could not duplicate the project.',
+  'projects.deleteFailed': 'Could not delete the project.',
+  'projects.renameFailed': 'Could not rename the project.',
+  'projects.importFailed': 'Could not import the project.',
+  'projects.untitled': 'Untitled',
+  'projects.copyName': '{name} (copy)',
+  'projects.importedName': 'Imported project',
+
+  'provider.title': 'AI Provider',
+  'provider.gemini': 'Google Gemini',
+  'provider.local': 'Local Server',
+  'provider.mock': 'Offline Demo',
+  'provider.mockLocked': 'Demo mode was turned on by the MOCK_AI variable. No network calls are made.',
+  'provider.mockHint': 'Fixed answers and placeholder images generated locally. Handy for trying the editor without an API key.',
+  'provider.geminiHint': 'To use this tool you need a Google Gemini API key. The key is saved locally in your browser.',
+  'provider.getKey': 'Get your key here.',
+  'provider.apiKeyPlaceholder': 'Paste your API key here',
+  'provider.localHint': 'Use a local HTTP server (OpenAI or Stable Diffusion WebUI compatible) to run the assistant offline or in automated tests.',
+  'provider.textModel': 'Text model',
+  'provider.imageModel': 'Image model',
+  'provider.imageApi': 'Image API',
+  'provider.imageApiOpenAI': 'OpenAI compatible (/v1/images)',
+  'provider.imageApiSdWebui': 'Stable Diffusion WebUI (/sdapi/v1)',
+  'provider.save': 'Save',
+
+  'shape.arrow': 'Arrow',
+  'shape.circle': 'Circle',
+  'shape.rectangle': 'Rectangle',
+  'shape.underline': 'Underline',
+
+  'sticker.fire': 'Fire',
+  'sticker.shocked': 'Shocked',
+  'sticker.mind-blown': 'Mind blown',
+  'sticker.eyes': 'Eyes',
+  'sticker.point-right': 'Pointing',
+  'sticker.check': 'Right',
+  'sticker.cross': 'Wrong',
+  'sticker.money': 'Money',
+  'sticker.star': 'Star',
+  'sticker.warning': 'Warning',
+  'sticker.badge-new': 'NOVO badge',
+  'sticker.badge-free': 'GRÁTIS badge',
+  'sticker.badge-live': 'AO VIVO badge',
+  'sticker.badge-top': 'TOP 10 badge',
+
+  'criterion.length': 'Length',
+  'criterion.emotion': 'Emotion',
+  'criterion.curiosity': 'Curiosity',
+  'criterion.numbers': 'Numbers',
+  'criterion.clarity': 'Clarity',
+
+  'trigger.curiosity': 'Curiosity',
+  'trigger.fear': 'Fear',
+  'trigger.urgency': 'Urgency',
+  'trigger.surprise': 'Surprise',
+  'trigger.desire': 'Desire',
+  'trigger.achievement': 'Achievement',
+  'trigger.neutral': 'Neutral',
+
+  'refinement.shorter': 'Shorter',
+  'refinement.curiosity': 'More curiosity',
+  'refinement.number': 'With a number',
+  'refinement.lessClickbait': 'Less clickbait',
+
+  'export.title': 'Export thumbnail',
+  'export.close': 'Close',
+  'export.format': 'Format',
+  'export.quality': 'Quality ({value}%)',
+  'export.resolution': 'Resolution',
+  'export.original': 'Original ({width}×{height})',
+  'export.maxFileSize': 'Maximum file size',
+  'export.noLimit': 'No limit',
+  'export.limitLossyHint': 'Quality is lowered automatically if the file goes over the limit.',
+  'export.limitPngHint': 'PNG is lossless: if it goes over the limit, use JPEG or WebP.',
+  'export.fileName': 'File name',
+  'export.fileNameHint': 'Use {titulo} (headline), {data} (date), {largura} (width) and {altura} (height). Result:',
+  'export.resultQuality': 'at {value}% quality',
+  'export.overLimit': 'over the chosen limit',
+  'export.download': 'Download',
+  'export.failed': 'Could not create the thumbnail file.',
+
+  'addLayer.image': 'Add image',
+  'addLayer.imageHint': 'Add image (PNG/WebP with transparency)',
+  'addLayer.shape': 'Add {shape}',
+  'addLayer.stickers': 'Stickers',
+  'addLayer.cutouts': 'Cut-outs:',
+  'addLayer.cutoutHint': 'Add cut-out as a layer',
+  'addLayer.cutoutAlt': 'Cut-out {number}',
+
+  'layer.shape': 'Shape',
+  'layer.thickness': 'Thickness ({value}px)',
+  'layer.filled': 'Filled',
+  'layer.image': 'Image',
+  'layer.opacity': 'Opacity ({value}%)',
+  'layer.cutout': 'Cut-out',
+
+  'layers.title': 'Layers',
+  'layers.renameHint': 'Double-click to rename',
+  'layers.grouped': 'Grouped',
+  'layers.show': 'Show layer',
+  'layers.hide': 'Hide layer',
+  'layers.lock': 'Lock layer',
+  'layers.unlock': 'Unlock layer',
+  'layers.baseImage': 'Base image',
+  'layers.baseImageHint': 'The base image always stays at the bottom',
+
+  'refinement.more': 'Generate more',
+  'refinement.customPlaceholder': 'Or ask for something specific: e.g. funnier, no punctuation...',
+  'refinement.submit': 'Refine',
+  'refinement.hint': 'Pinned options are kept; the rest are replaced by new suggestions that don\'t repeat earlier ones.',
+
+  'headlineOption.original': 'Original',
+  'headlineOption.save': 'Save',
+  'headlineOption.cancel': 'Cancel',
+  'headlineOption.pin': 'Pin: stays in the list when new variations are generated',
+  'headlineOption.unpin': 'Unpin',
+  'headlineOption.edit': 'Edit before using',
+
+  'headlineScore.counts': '{words} words · {chars} characters',
+  'scoreNote.tooLong': 'Long for a thumbnail ({words} words, {chars} characters); aim for {idealWords} words at most.',
+  'scoreNote.noTrigger': 'No clear emotional trigger.',
+  'scoreNote.strongCuriosity': 'Opens a strong curiosity gap.',
+  'scoreNote.weakCuriosity': 'Gives everything away: little curiosity.',
+  'scoreNote.concreteNumber': 'A concrete number helps grab attention.',
+  'scoreNote.hardToRead': 'Long words or filler make it hard to read at a glance.',
+
+  'variants.title': 'A/B Variants',
+  'variants.exit': 'Leave variants mode',
+  'variants.intro': 'Build 2 to {max} versions of the thumbnail, each with its own headline, base image and layout, to test the CTR.',
+  'variants.create': 'Create Variants',
+  'variants.hint': 'Click a variant to edit it in the editor above. Use the gallery to change each one\'s base image.',
+  'variants.variant': 'Variant {label}',
+  'variants.remove': 'Remove variant {label}',
+  'variants.headline': 'Variant {label} headline',
+  'variants.add': 'Variant',
+  'variants.setName': 'Set name (file name prefix)',
+  'variants.export': 'Export Set',
+
+  'youtube.title': 'YouTube Preview',
+  'youtube.previewAlt': 'Preview',
+  'youtube.videoTitle': 'Video title',
+  'youtube.channelName': 'Channel name',
+  'youtube.defaultChannel': 'Your Channel',
+  'youtube.meta': '{channel} • 12K views • 2 days ago',
+  'youtube.dark': 'Dark',
+  'youtube.light': 'Light',
+  'youtube.home': 'Home (grid)',
+  'youtube.search': 'Search result',
+  'youtube.sidebar': 'Sidebar suggestion',
+  'youtube.mobile': 'Mobile feed',
+
+
+  'translate.title': 'Translate thumbnail',
+  'translate.description': 'Swaps the image texts for localized versions and keeps the layout. Check that each text still fits.',
+  'translate.submit': 'Translate',
+  'translate.failed': 'Failed to translate the thumbnail.',
+
+  'imageText.title': 'Text on the image',
+  'imageText.hint': 'The title "{title}" already shows below the thumbnail. On the image, 2 to 4 words that complement it work best.',
+  'imageText.suggestMore': 'Suggest others',
+  'imageText.noSuggestions': 'No suggestions yet.',
+  'imageText.customPlaceholder': 'Or write your own: e.g. IT WORKED!',
+  'imageText.use': 'Use',
+  'imageText.current': 'On the image:',
+  'imageText.none': 'No phrase picked: the title goes on the image.',
+
+
+  'align.title': 'Position',
+  'align.selected': '{count} selected',
+  'align.relativeToImage': 'Relative to the image',
+  'align.left': 'Align left',
+  'align.center': 'Center horizontally',
+  'align.right': 'Align right',
+  'align.top': 'Align top',
+  'align.middle': 'Center vertically',
+  'align.bottom': 'Align bottom',
+  'align.distributeHorizontal': 'Distribute horizontally',
+  'align.distributeVertical': 'Distribute vertically',
+  'align.hint': 'Arrow keys move 1px (Shift: 10px). Hold Alt while dragging to turn snapping off.',
+
+  'mask.brush': 'Brush',
+  'mask.lasso': 'Lasso',
+  'mask.eraser': 'Eraser',
+  'mask.clear': 'Clear area',
+  'mask.brushSize': 'Brush size ({size}px)',
+  'mask.hintPainted': 'Only the painted area will change; the rest of the image stays intact.',
+  'mask.hintEmpty': 'Paint the area of the image the AI may change.',
+
+
+  'cutout.title': 'Cut out subject',
+  'cutout.close': 'Close',
+  'cutout.detecting': 'Detecting the subject...',
+  'cutout.add': 'Add',
+  'cutout.erase': 'Erase',
+  'cutout.brushSize': 'Brush ({size}px)',
+  'cutout.addAsNew': 'Add as a new image',
+  'cutout.addAsNewHint': 'Keeps the original photo and adds the cut-out as another image',
+  'cutout.replace': 'Replace the photo',
+  'cutout.segmentFailed': 'Failed to cut out the image.',
+  'cutout.saveFailed': 'Failed to save the cut-out.',
+
+
+  'wordStyle.title': 'Per-word style',
+  'wordStyle.keywords': 'Keywords: {keywords}',
+  'wordStyle.noKeywords': 'The selected headline has no keywords',
+  'wordStyle.highlightKeywords': 'Highlight keywords',
+  'wordStyle.clear': 'clear',
+  'wordStyle.color': 'Color',
+  'wordStyle.stroke': 'Outline',
+  'wordStyle.highlight': 'Highlight',
+  'wordStyle.size': 'Size ({percent}%)',
+  'wordStyle.clearSelected': 'Clear the style of the selected words',
+  'wordStyle.hint': 'Click words to change the color, size, outline or highlight of each one.',
+
+  'imageGrid.select': 'Select image {number}',
+  'imageGrid.option': 'Option {number}',
+
+
+  'adjust.title': 'Image adjustments',
+  'adjust.reset': 'Reset',
+  'adjust.look': 'Look',
+  'adjust.noLook': 'None',
+  'adjust.brightness': 'Brightness',
+  'adjust.contrast': 'Contrast',
+  'adjust.saturation': 'Saturation',
+  'adjust.vibrance': 'Vibrance',
+  'adjust.temperature': 'Temperature',
+  'adjust.sharpen': 'Sharpness',
+  'adjust.vignette': 'Vignette',
+
+  'guides.toggle': 'Guides',
+  'guides.hint': 'Guides don\'t show in the exported image',
+  'guides.durationBadge': 'Duration badge',
+  'guides.ruleOfThirds': 'Rule of thirds',
+  'guides.centerLines': 'Center lines',
+  'guides.safeArea': 'Safe area',
+  'guides.cropFrames': 'Crop:',
+
+
+  'formats.title': 'Formats',
+  'formats.disable': 'Leave formats mode',
+  'formats.intro': 'Use this composition as the master and derive the other formats from it (Shorts, square post...), each adjustable on its own.',
+  'formats.enable': 'Create Formats',
+  'formats.hint': 'Click a format to adjust it in the editor above. Derived formats copy the master at the moment they are created.',
+  'formats.previewAlt': '{ratio} format',
+  'formats.remove': 'Remove {ratio} format',
+  'formats.sourceMaster': 'Master',
+  'formats.sourceCrop': 'Crop',
+  'formats.sourceOutpaint': 'Expanded (AI)',
+  'formats.crop': 'Crop',
+  'formats.cropHint': 'Crops the center of the master image',
+  'formats.outpaint': 'Expand with AI',
+  'formats.outpaintHint': 'The AI extends the master image to the new format',
+  'formats.exportAll': 'Export All (.zip)',
+  'formats.exportHint': 'Uses the options of the last export (format, quality and size limit)',
+
+  'reframe.title': 'Reframe',
+  'reframe.description': 'Change the aspect ratio without generating the image again: the AI extends the scene or the center is cropped. Texts follow proportionally.',
+  'reframe.outpaint': 'Expand (AI)',
+  'reframe.crop': 'Crop',
+  'reframe.preview': 'Preview',
+  'reframe.before': 'Before ({ratio})',
+  'reframe.beforeAlt': 'Before',
+  'reframe.after': 'After ({ratio})',
+  'reframe.afterAlt': 'After',
+  'reframe.discard': 'Discard',
+  'reframe.apply': 'Apply',
+  'reframe.failed': 'Failed to reframe the image.',
+};
@@ -0,0 +1,452 @@
+import { MessageKey } from './pt-BR';
+
+export const es: Record<MessageKey, string> = {
+  'app.title': 'Generador de Miniaturas Virales',
+  'app.tagline': 'Tu director de arte con IA para miniaturas de alto impacto.',
+  'app.errorPrefix': '¡Ups!',
+  'app.interfaceLanguage': 'Idioma de la interfaz',
+
+  'errors.missingProvider': 'Introduce tu clave de API de Google Gemini o configura un servidor local para continuar.',
+  'errors.quota': 'Has superado tu cuota de uso de la API de Gemini. Comprueba que tu clave de API tenga un plan de facturación en Google AI Studio o Google Cloud, ya que la API gratuita tiene límites estrictos.',
+  'errors.invalidApiKey': 'Tu clave de API parece no ser válida. Comprueba que la copiaste correctamente.',
+  'errors.headlines': 'No se pudieron generar variaciones del titular. Inténtalo de nuevo.',
+  'errors.regenerateHeadlines': 'No se pudieron generar nuevas variaciones del titular. Inténtalo de nuevo.',
+  'errors.critique': 'No se pudieron analizar los titulares. Inténtalo de nuevo.',
+  'errors.thumbnailTexts': 'No se pudieron sugerir textos para la imagen. Escribe el tuyo o inténtalo de nuevo.',
+  'errors.uploadImages': 'No se pudieron cargar una o más imágenes.',
+  'errors.generateImage': 'No se pudo generar la miniatura. Inténtalo de nuevo.',
+  'errors.exportVariants': 'No se pudieron exportar las variantes.',
+  'errors.createFormat': 'No se pudo crear el formato.',
+  'errors.exportFormats': 'No se pudieron exportar los formatos.',
+  'errors.modifyImage': 'No se pudo modificar la imagen.',
+  'errors.layerFileType': 'Elige un archivo de imagen (PNG, WebP, JPG o SVG).',
+  'errors.layerImage': 'No se pudo cargar la imagen.',
+  'errors.cutout': 'No se pudo cargar el recorte.',
+  'errors.nothingToExport': 'No hay ninguna imagen para exportar.',
+  'errors.processingCanvas': 'No se pudo crear un lienzo para procesar la imagen.',
+  'errors.encodeImage': 'No se pudo convertir la imagen.',
+  'errors.formatUnsupported': 'Este navegador no puede exportar en {format}.',
+  'errors.localServerUrl': 'Falta la dirección del servidor local.',
+  'errors.localServerStatus': 'El servidor local respondió con el error {status} en {path}. {details}',
+  'errors.localServerBase64': 'El servidor local no devolvió una imagen en base64 (b64_json).',
+  'errors.localServerNoImage': 'El servidor local no devolvió ninguna imagen.',
+  'errors.localServerNoText': 'El servidor local no devolvió una respuesta de texto.',
+  'errors.noImageToEdit': 'No se proporcionó ninguna imagen para editar.',
+  'errors.missingGeminiKey': 'Falta la clave de API de Gemini.',
+  'errors.imageGenerationFailed': 'La IA de generación de imágenes no pudo crear la imagen. Inténtalo de nuevo con otro prompt u otro estilo.',
+  'errors.editRefused': 'La IA de edición falló y devolvió un mensaje: "{message}"',
+  'errors.editEmpty': 'Error inesperado: el modelo de edición de imágenes no devolvió ni una imagen ni un mensaje de texto.',
+  'errors.invalidThumbnailTexts': 'La IA no devolvió sugerencias de texto válidas.',
+  'errors.incompleteTranslation': 'La IA no devolvió una traducción para cada texto de la miniatura.',
+  'errors.invalidCritique': 'La IA no devolvió un análisis válido de los titulares.',
+  'errors.unexpectedResponse': 'La respuesta de la IA no tenía el formato esperado.',
+  'errors.projectMalformed': 'El archivo no es un proyecto válido (JSON mal formado).',
+  'errors.projectInvalid': 'El archivo no es un proyecto de miniatura válido.',
+  'errors.projectTooNew': 'Este proyecto se creó con una versión más reciente de la aplicación.',
+  'errors.segmentationModelMissing': 'No se encontró el modelo de recorte en {url}. Usa los pinceles para recortar a mano.',
+  'errors.cutoutEmpty': 'El recorte está vacío. Pinta la zona del objeto antes de guardar.',
+  'errors.noVariantImages': 'Ninguna variante tiene imagen base para exportar.',
+  'errors.formatNoBaseImage': 'La composición principal aún no tiene imagen base.',
+  'errors.noFormatImages': 'Ningún formato tiene imagen base para exportar.',
+  'errors.reframeProvider': 'Configura un proveedor de IA para ampliar la imagen.',
+  'errors.nothingToTranslate': 'La miniatura no tiene textos que traducir.',
+
+  'loading.prompt': 'Generando el prompt de arte...',
+  'loading.candidates': 'Creando {count} opciones de miniatura...',
+  'loading.candidate': 'Creando tu miniatura mágica...',
+  'loading.modifying': 'Aplicando cambios...',
+  'loading.thumbnail': 'Generando tu Miniatura...',
+
+  'headlineStep.title': 'Introduce el Titular del Vídeo',
+  'headlineStep.placeholder': 'Ej.: Cómo gané mi primer millón...',
+  'headlineStep.contentLanguage': 'Idioma de los titulares y de los textos de la miniatura',
+  'headlineStep.configureProvider': 'Configura el proveedor de IA para continuar',
+  'headlineStep.submit': 'Analizar y Generar Variaciones',
+
+  'selectionStep.title': 'Elige el Mejor Titular',
+  'selectionStep.introStart': 'Selecciona el titular que se usará en la miniatura. Las palabras clave están',
+  'selectionStep.introHighlight': 'destacadas',
+  'selectionStep.introEnd': 'para ti. Las opciones están ordenadas por su nota de legibilidad y atractivo en la miniatura.',
+  'selectionStep.critique': 'Pedir análisis a la IA',
+  'selectionStep.critiqueHint': 'La IA evalúa las variaciones con los mismos criterios y la nota pasa a combinar ambos análisis',
+
+  'styleStep.title': 'Elige el Estilo Visual',
+  'styleStep.customDivider': 'O escribe un estilo personalizado',
+  'styleStep.customPlaceholder': 'Ej.: Arte con ceras, Steampunk, Vaporwave',
+  'styleStep.customSubmit': 'Usar Estilo Personalizado',
+
+  'imageStep.titleEdit': 'Ajuste Fino de la Miniatura',
+  'imageStep.titlePick': 'Elige la Imagen Base',
+  'imageStep.titleGenerate': 'Genera la Imagen Base',
+  'imageStep.uploadClick': 'Haz clic para subir',
+  'imageStep.uploadDrop': 'o arrastra y suelta',
+  'imageStep.uploadHint': 'PNG, JPG, WEBP (MÁX. 5MB)',
+  'imageStep.uploaded': 'Imágenes Cargadas:',
+  'imageStep.cutoutBadge': 'RECORTE',
+  'imageStep.cutout': 'Recortar objeto',
+  'imageStep.cutoutHint': 'Recortar objeto (quita el fondo)',
+  'imageStep.removeImage': 'Quitar imagen',
+  'imageStep.aspectRatio': 'Proporción de la Imagen',
+  'imageStep.candidateCount': 'Opciones por generación',
+  'imageStep.noBaseImage': '¿No tienes una imagen base? ¡No te preocupes! La IA creará una desde cero.',
+  'imageStep.generate': 'Generar Imagen Base',
+  'imageStep.pickIntro': 'Elige la imagen que se usará como base de la miniatura.',
+  'imageStep.pickPrevious': 'O elige una imagen anterior de esta sesión',
+  'imageStep.backToEditor': 'Volver al Editor sin Cambios',
+
+  'editor.underDurationBadge': 'El texto queda bajo el sello de duración de YouTube',
+  'editor.outsideSafeArea': 'El texto sobrepasa el margen seguro',
+  'editor.outsideCropFrame': 'El texto queda cortado en uno de los recortes activos',
+  'editor.addText': 'Añadir Texto',
+  'editor.newText': 'TEXTO INCREÍBLE',
+  'editor.undo': 'Deshacer',
+  'editor.undoHint': 'Deshacer (Ctrl+Z)',
+  'editor.redo': 'Rehacer',
+  'editor.redoHint': 'Rehacer (Ctrl+Shift+Z)',
+  'editor.text': 'Texto',
+  'editor.font': 'Fuente',
+  'editor.fontSize': 'Tamaño ({value}px)',
+  'editor.letterSpacing': 'Espaciado de Letras ({value}px)',
+  'editor.lineHeight': 'Altura de Línea ({value})',
+  'editor.alignment': 'Alineación',
+  'editor.alignLeft': 'Alinear a la izquierda',
+  'editor.alignCenter': 'Centrar',
+  'editor.alignRight': 'Alinear a la derecha',
+  'editor.color': 'Color',
+  'editor.useGradient': 'Usar Degradado',
+  'editor.gradientColor1': 'Color 1',
+  'editor.gradientColor2': 'Color 2',
+  'editor.gradientAngle': 'Ángulo ({value}°)',
+  'editor.solidColor': 'Color Sólido',
+  'editor.stroke': 'Contorno',
+  'editor.strokeWidth': 'Grosor del Contorno ({value}px)',
+  'editor.shadow': 'Sombra',
+  'editor.shadowBlur': 'Desenfoque ({value}px)',
+  'editor.shadowOffsetX': 'Desplazamiento X ({value}px)',
+  'editor.shadowOffsetY': 'Desplazamiento Y ({value}px)',
+  'editor.transform': 'Transformación',
+  'editor.rotation': 'Rotación ({value}°)',
+  'editor.duplicate': 'Duplicar',
+  'editor.group': 'Agrupar',
+  'editor.groupHint': 'Selecciona dos o más capas (Mayús+clic o arrastra sobre la imagen)',
+  'editor.ungroup': 'Desagrupar',
+  'editor.removeLayer': 'Eliminar Capa',
+  'editor.removeLayers': 'Eliminar {count} Capas',
+  'editor.empty': 'Haz clic en "Añadir Texto" o añade una imagen, forma o sticker. Selecciona una capa en la imagen para editarla.',
+  'editor.gallery': 'Galería de la Sesión',
+  'editor.galleryHint': 'Cambia la imagen base por cualquiera generada en esta sesión, sin coste.',
+  'editor.reframeInVariants': 'Sal del modo variantes para cambiar la proporción: todas las variantes usan la misma.',
+  'editor.reframeInFormats': 'En el modo formatos, crea un formato nuevo en lugar de reencuadrar.',
+  'editor.modify': 'Modificar Imagen',
+  'editor.modifyHint': 'Describe el cambio que quieres hacer en la imagen actual.',
+  'editor.maskHint': 'Pinta la zona de la imagen que se puede modificar',
+  'editor.maskStart': 'Pintar zona',
+  'editor.maskExit': 'Salir de la máscara',
+  'editor.modifyPlaceholder': 'Ej.: añade un sombrero pirata, cambia el fondo por una playa',
+  'editor.modifyApply': 'Aplicar Cambio',
+  'editor.download': 'Finalizar y Descargar',
+  'editor.regenerate': 'Generar de Nuevo',
+  'editor.startOver': 'Empezar de Nuevo',
+
+  'prompt.english': 'Prompt en Inglés (para la IA de imagen)',
+  'prompt.copy': 'Copiar con 1 clic',
+  'prompt.copied': '¡Copiado!',
+  'prompt.copyFailed': 'No se pudo copiar',
+  'prompt.translation': 'Ver traducción en {language}',
+
+  'style.cinematic': 'Cinematográfico',
+  'style.gamer': 'Gamer',
+  'style.vintage': 'Vintage',
+  'style.anime': 'Anime',
+  'style.cyberpunk': 'Cyberpunk',
+  'style.minimalist': 'Minimalista',
+  'style.3d render': '3D/Render',
+  'style.vlog': 'Vlog',
+
+  'aspectRatio.16:9': 'Miniatura (16:9)',
+  'aspectRatio.9:16': 'Story (9:16)',
+  'aspectRatio.1:1': 'Cuadrado (1:1)',
+  'aspectRatio.4:3': 'Clásico (4:3)',
+  'aspectRatio.3:4': 'Retrato (3:4)',
+
+  'projects.title': 'Mis Proyectos',
+  'projects.autosaveHint': 'Tu trabajo se guarda automáticamente en este navegador.',
+  'projects.import': 'Importar Proyecto',
+  'projects.empty': 'Aún no hay proyectos guardados.',
+  'projects.editedAt': 'Editado el {date}',
+  'projects.open': 'Abrir',
+  'projects.rename': 'Renombrar',
+  'projects.duplicate': 'Duplicar',
+  'projects.export': 'Exportar',
+  'projects.delete': 'Eliminar',
+  'projects.confirmDelete': '¿Eliminar el proyecto "{name}"? Esta acción no se puede deshacer.',
+  'projects.loadFailed': 'No se pudieron cargar tus proyectos guardados.',
+  'projects.duplicateFailed': 'No se pudo duplicar el proyecto.',
+  'projects.deleteFailed': 'No se pudo eliminar el proyecto.',
+  'projects.renameFailed': 'No se pudo renombrar el proyecto.',
+  'projects.importFailed': 'No se pudo importar el proyecto.',
+  'projects.untitled': 'Sin título',
+  'projects.copyName': '{name} (copia)',
+  'projects.importedName': 'Proyecto importado',
+
+  'provider.title': 'Proveedor de IA',
+  'provider.gemini': 'Google Gemini',
+  'provider.local': 'Servidor Local',
+  'provider.mock': 'Demo sin Conexión',
+  'provider.mockLocked': 'El modo demo se activó con la variable MOCK_AI. No se hace ninguna llamada de red.',
+  'provider.mockHint': 'Respuestas fijas e imágenes de marcador generadas localmente. Ideal para probar el editor sin clave de API.',
+  'provider.geminiHint': 'Para usar esta herramienta necesitas una clave de API de Google Gemini. La clave se guarda localmente en tu navegador.',
+  'provider.getKey': 'Consigue tu clave aquí.',
+  'provider.apiKeyPlaceholder': 'Pega tu clave de API aquí',
+  'provider.localHint': 'Usa un servidor HTTP local (compatible con OpenAI o Stable Diffusion WebUI) para ejecutar el asistente sin conexión o en pruebas automatizadas.',
+  'provider.textModel': 'Modelo de texto',
+  'provider.imageModel': 'Modelo de imagen',
+  'provider.imageApi': 'API de imagen',
+  'provider.imageApiOpenAI': 'Compatible con OpenAI (/v1/images)',
+  'provider.imageApiSdWebui': 'Stable Diffusion WebUI (/sdapi/v1)',
+  'provider.save': 'Guardar',
+
+  'shape.arrow': 'Flecha',
+  'shape.circle': 'Círculo',
+  'shape.rectangle': 'Rectángulo',
+  'shape.underline': 'Subrayado',
+
+  'sticker.fire': 'Fuego',
+  'sticker.shocked': 'Impactado',
+  'sticker.mind-blown': 'Mente explotando',
+  'sticker.eyes': 'Ojos',
+  'sticker.point-right': 'Señalando',
+  'sticker.check': 'Correcto',
+  'sticker.cross': 'Incorrecto',
+  'sticker.money': 'Dinero',
+  'sticker.star': 'Estrella',
+  'sticker.warning': 'Atención',
+  'sticker.badge-new': 'Sello NOVO',
+  'sticker.badge-free': 'Sello GRÁTIS',
+  'sticker.badge-live': 'Sello AO VIVO',
+  'sticker.badge-top': 'Sello TOP 10',
+
+  'criterion.length': 'Longitud',
+  'criterion.emotion': 'Emoción',
+  'criterion.curiosity': 'Curiosidad',
+  'criterion.numbers': 'Números',
+  'criterion.clarity': 'Claridad',
+
+  'trigger.curiosity': 'Curiosidad',
+  'trigger.fear': 'Miedo',
+  'trigger.urgency': 'Urgencia',
+  'trigger.surprise': 'Sorpresa',
+  'trigger.desire': 'Deseo',
+  'trigger.achievement': 'Logro',
+  'trigger.neutral': 'Neutro',
+
+  'refinement.shorter': 'Más corta',
+  'refinement.curiosity': 'Más curiosidad',
+  'refinement.number': 'Con número',
+  'refinement.lessClickbait': 'Menos clickbait',
+
+  'export.title': 'Exportar miniatura',
+  'export.close': 'Cerrar',
+  'export.format': 'Formato',
+  'export.quality': 'Calidad ({value}%)',
+  'export.resolution': 'Resolución',
+  'export.original': 'Original ({width}×{height})',
+  'export.maxFileSize': 'Tamaño máximo del archivo',
+  'export.noLimit': 'Sin límite',
+  'export.limitLossyHint': 'La calidad se reduce automáticamente si el archivo supera el límite.',
+  'export.limitPngHint': 'PNG no tiene pérdidas: si supera el límite, usa JPEG o WebP.',
+  'export.fileName': 'Nombre del archivo',
+  'export.fileNameHint': 'Usa {titulo} (título), {data} (fecha), {largura} (ancho) y {altura} (alto). Resultado:',
+  'export.resultQuality': 'con calidad {value}%',
+  'export.overLimit': 'por encima del límite elegido',
+  'export.download': 'Descargar',
+  'export.failed': 'No se pudo generar el archivo de la miniatura.',
+
+  'addLayer.image': 'Añadir imagen',
+  'addLayer.imageHint': 'Añadir imagen (PNG/WebP con transparencia)',
+  'addLayer.shape': 'Añadir {shape}',
+  'addLayer.stickers': 'Stickers',
+  'addLayer.cutouts': 'Recortes:',
+  'addLayer.cutoutHint': 'Añadir recorte como capa',
+  'addLayer.cutoutAlt': 'Recorte {number}',
+
+  'layer.shape': 'Forma',
+  'layer.thickness': 'Grosor ({value}px)',
+  'layer.filled': 'Relleno',
+  'layer.image': 'Imagen',
+  'layer.opacity': 'Opacidad ({value}%)',
+  'layer.cutout': 'Recorte',
+
+  'layers.title': 'Capas',
+  'layers.renameHint': 'Doble clic para renombrar',
+  'layers.grouped': 'Agrupado',
+  'layers.show': 'Mostrar capa',
+  'layers.hide': 'Ocultar capa',
+  'layers.lock': 'Bloquear capa',
+  'layers.unlock': 'Desbloquear capa',
+  'layers.baseImage': 'Imagen base',
+  'layers.baseImageHint': 'La imagen base siempre queda al fondo',
+
+  'refinement.more': 'Generar más',
+  'refinement.customPlaceholder': 'O pide algo concreto: p. ej. más graciosos, sin puntuación...',
+  'refinement.submit': 'Refinar',
+  'refinement.hint': 'Las opciones fijadas se mantienen; las demás se cambian por sugerencias nuevas, sin repetir las anteriores.',
+
+  'headlineOption.original': 'Original',
+  'headlineOption.save': 'Guardar',
+  'headlineOption.cancel': 'Cancelar',
+  'headlineOption.pin': 'Fijar: sigue en la lista al generar nuevas variaciones',
+  'headlineOption.unpin': 'Desfijar',
+  'headlineOption.edit': 'Editar antes de usar',
+
+  'headlineScore.counts': '{words} palabras · {chars} caracteres',
+  'scoreNote.tooLong': 'Largo para una miniatura ({words} palabras, {chars} caracteres); lo ideal es hasta {idealWords} palabras.',
+  'scoreNote.noTrigger': 'No tiene un disparador emocional claro.',
+  'scoreNote.strongCuriosity': 'Abre una fuerte brecha de curiosidad.',
+  'scoreNote.weakCuriosity': 'Lo cuenta todo de una vez: poca curiosidad.',
+  'scoreNote.concreteNumber': 'Un número concreto ayuda a llamar la atención.',
+  'scoreNote.hardToRead': 'Las palabras largas o de relleno dificultan la lectura rápida.',
+
+  'variants.title': 'Variantes A/B',
+  'variants.exit': 'Salir del modo variantes',
+  'variants.intro': 'Crea de 2 a {max} versiones de la miniatura, cada una con su titular, imagen base y diseño, para probar el CTR.',
+  'variants.create': 'Crear Variantes',
+  'variants.hint': 'Haz clic en una variante para editarla en el editor de arriba. Usa la galería para cambiar la imagen base de cada una.',
+  'variants.variant': 'Variante {label}',
+  'variants.remove': 'Quitar variante {label}',
+  'variants.headline': 'Titular de la variante {label}',
+  'variants.add': 'Variante',
+  'variants.setName': 'Nombre del conjunto (prefijo de los archivos)',
+  'variants.export': 'Exportar Conjunto',
+
+  'youtube.title': 'Vista Previa en YouTube',
+  'youtube.previewAlt': 'Vista previa',
+  'youtube.videoTitle': 'Título del vídeo',
+  'youtube.channelName': 'Nombre del canal',
+  'youtube.defaultChannel': 'Tu Canal',
+  'youtube.meta': '{channel} • 12 mil visualizaciones • hace 2 días',
+  'youtube.dark': 'Oscuro',
+  'youtube.light': 'Claro',
+  'youtube.home': 'Inicio (cuadrícula)',
+  'youtube.search': 'Resultado de búsqueda',
+  'youtube.sidebar': 'Sugerencia lateral',
+  'youtube.mobile': 'Feed móvil',
+
+
+  'translate.title': 'Traducir miniatura',
+  'translate.description': 'Cambia los textos de la imagen por versiones localizadas, manteniendo el diseño. Comprueba que cada texto aún quepa en su lugar.',
+  'translate.submit': 'Traducir',
+  'translate.failed': 'No se pudo traducir la miniatura.',
+
+  'imageText.title': 'Texto en la imagen',
+  'imageText.hint': 'El título "{title}" ya aparece debajo de la miniatura. En la imagen, funcionan mejor 2 a 4 palabras que lo complementen.',
+  'imageText.suggestMore': 'Sugerir otras',
+  'imageText.noSuggestions': 'Aún no hay sugerencias.',
+  'imageText.customPlaceholder': 'O escribe el tuyo: ej. ¡FUNCIONÓ!',
+  'imageText.use': 'Usar',
+  'imageText.current': 'En la imagen:',
+  'imageText.none': 'Sin frase elegida: el título va en la imagen.',
+
+
+  'align.title': 'Posición',
+  'align.selected': '{count} seleccionados',
+  'align.relativeToImage': 'Relativo a la imagen',
+  'align.left': 'Alinear a la izquierda',
+  'align.center': 'Centrar horizontalmente',
+  'align.right': 'Alinear a la derecha',
+  'align.top': 'Alinear arriba',
+  'align.middle': 'Centrar verticalmente',
+  'align.bottom': 'Alinear abajo',
+  'align.distributeHorizontal': 'Distribuir horizontalmente',
+  'align.distributeVertical': 'Distribuir verticalmente',
+  'align.hint': 'Las flechas mueven 1px (Shift: 10px). Mantén Alt al arrastrar para desactivar el ajuste.',
+
+  'mask.brush': 'Pincel',
+  'mask.lasso': 'Lazo',
+  'mask.eraser': 'Borrador',
+  'mask.clear': 'Borrar área',
+  'mask.brushSize': 'Tamaño del pincel ({size}px)',
+  'mask.hintPainted': 'Solo se modificará el área pintada; el resto de la imagen queda intacto.',
+  'mask.hintEmpty': 'Pinta en la imagen el área que la IA puede modificar.',
+
+
+  'cutout.title': 'Recortar objeto',
+  'cutout.close': 'Cerrar',
+  'cutout.detecting': 'Detectando el objeto...',
+  'cutout.add': 'Añadir',
+  'cutout.erase': 'Borrar',
+  'cutout.brushSize': 'Pincel ({size}px)',
+  'cutout.addAsNew': 'Añadir como nueva imagen',
+  'cutout.addAsNewHint': 'Mantiene la foto original y añade el recorte como otra imagen',
+  'cutout.replace': 'Reemplazar la foto',
+  'cutout.segmentFailed': 'No se pudo recortar la imagen.',
+  'cutout.saveFailed': 'No se pudo guardar el recorte.',
+
+
+  'wordStyle.title': 'Estilo por palabra',
+  'wordStyle.keywords': 'Palabras clave: {keywords}',
+  'wordStyle.noKeywords': 'El titular seleccionado no tiene palabras clave',
+  'wordStyle.highlightKeywords': 'Destacar palabras clave',
+  'wordStyle.clear': 'borrar',
+  'wordStyle.color': 'Color',
+  'wordStyle.stroke': 'Contorno',
+  'wordStyle.highlight': 'Resaltado',
+  'wordStyle.size': 'Tamaño ({percent}%)',
+  'wordStyle.clearSelected': 'Borrar el estilo de las palabras seleccionadas',
+  'wordStyle.hint': 'Haz clic en las palabras para cambiar el color, tamaño, contorno o resaltado de cada una.',
+
+  'imageGrid.select': 'Seleccionar imagen {number}',
+  'imageGrid.option': 'Opción {number}',
+
+
+  'adjust.title': 'Ajustes de la imagen',
+  'adjust.reset': 'Restablecer',
+  'adjust.look': 'Estilo',
+  'adjust.noLook': 'Ninguno',
+  'adjust.brightness': 'Brillo',
+  'adjust.contrast': 'Contraste',
+  'adjust.saturation': 'Saturación',
+  'adjust.vibrance': 'Intensidad',
+  'adjust.temperature': 'Temperatura',
+  'adjust.sharpen': 'Nitidez',
+  'adjust.vignette': 'Viñeta',
+
+  'guides.toggle': 'Guías',
+  'guides.hint': 'Las guías no aparecen en la imagen exportada',
+  'guides.durationBadge': 'Sello de duración',
+  'guides.ruleOfThirds': 'Regla de los tercios',
+  'guides.centerLines': 'Líneas centrales',
+  'guides.safeArea': 'Margen seguro',
+  'guides.cropFrames': 'Recorte:',
+
+
+  'formats.title': 'Formatos',
+  'formats.disable': 'Salir del modo formatos',
+  'formats.intro': 'Usa esta composición como principal y deriva de ella los demás formatos (Shorts, post cuadrado...), cada uno ajustable por separado.',
+  'formats.enable': 'Crear Formatos',
+  'formats.hint': 'Haz clic en un formato para ajustarlo en el editor de arriba. Los formatos derivados copian la principal en el momento en que se crean.',
+  'formats.previewAlt': 'Formato {ratio}',
+  'formats.remove': 'Eliminar formato {ratio}',
+  'formats.sourceMaster': 'Principal',
+  'formats.sourceCrop': 'Recorte',
+  'formats.sourceOutpaint': 'Expandido (IA)',
+  'formats.crop': 'Recortar',
+  'formats.cropHint': 'Recorta el centro de la imagen principal',
+  'formats.outpaint': 'Expandir con IA',
+  'formats.outpaintHint': 'La IA extiende la imagen principal hasta el nuevo formato',
+  'formats.exportAll': 'Exportar Todos (.zip)',
+  'formats.exportHint': 'Usa las opciones de la última exportación (formato, calidad y límite de tamaño)',
+
+  'reframe.title': 'Reencuadrar',
+  'reframe.description': 'Cambia la proporción sin volver a generar la imagen: la IA extiende el escenario o se recorta el centro. Los textos se ajustan proporcionalmente.',
+  'reframe.outpaint': 'Expandir (IA)',
+  'reframe.crop': 'Recortar',
+  'reframe.preview': 'Previsualizar',
+  'reframe.before': 'Antes ({ratio})',
+  'reframe.beforeAlt': 'Antes',
+  'reframe.after': 'Después ({ratio})',
+  'reframe.afterAlt': 'Después',
+  'reframe.discard': 'Descartar',
+  'reframe.apply': 'Aplicar',
+  'reframe.failed': 'No se pudo reencuadrar la imagen.',
+};
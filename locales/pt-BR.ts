@@ -0,0 +1,454 @@
+// Source catalog: every other locale must define the same keys. `{name}`
+// placeholders are filled in by `translate`.
+export const ptBR = {
+  'app.title': 'Gerador de Thumbnail Viral',
+  'app.tagline': 'Seu diretor de arte de IA para thumbnails de alto impacto.',
+  'app.errorPrefix': 'Oops!',
+  'app.interfaceLanguage': 'Idioma da interface',
+
+  'errors.missingProvider': 'Por favor, insira sua chave de API do Google Gemini ou configure um servidor local para continuar.',
+  'errors.quota': 'Você excedeu sua cota de uso da API do Gemini. Verifique se sua chave de API está configurada com um plano de faturamento no Google AI Studio ou Google Cloud, pois a API gratuita tem limites rígidos.',
+  'errors.invalidApiKey': 'Sua chave de API parece ser inválida. Verifique se copiou a chave corretamente.',
+  'errors.headlines': 'Falha ao gerar variações de headline. Tente novamente.',
+  'errors.regenerateHeadlines': 'Falha ao gerar novas variações de headline. Tente novamente.',
+  'errors.critique': 'Falha ao analisar as headlines. Tente novamente.',
+  'errors.thumbnailTexts': 'Falha ao sugerir textos para a imagem. Escreva o seu ou tente novamente.',
+  'errors.uploadImages': 'Falha ao carregar uma ou mais imagens.',
+  'errors.generateImage': 'Falha ao gerar a thumbnail. Tente novamente.',
+  'errors.exportVariants': 'Falha ao exportar as variantes.',
+  'errors.createFormat': 'Falha ao criar o formato.',
+  'errors.exportFormats': 'Falha ao exportar os formatos.',
+  'errors.modifyImage': 'Falha ao modificar a imagem.',
+  'errors.layerFileType': 'Escolha um arquivo de imagem (PNG, WebP, JPG ou SVG).',
+  'errors.layerImage': 'Não foi possível carregar a imagem.',
+  'errors.cutout': 'Não foi possível carregar o recorte.',
+  'errors.nothingToExport': 'Nenhuma imagem para exportar.',
+  'errors.processingCanvas': 'Não foi possível criar um canvas para processar a imagem.',
+  'errors.encodeImage': 'Falha ao converter a imagem.',
+  'errors.formatUnsupported': 'Este navegador não consegue exportar em {format}.',
+  'errors.localServerUrl': 'O endereço do servidor local não foi fornecido.',
+  'errors.localServerStatus': 'O servidor local respondeu com erro {status} em {path}. {details}',
+  'errors.localServerBase64': 'O servidor local não retornou uma imagem em base64 (b64_json).',
+  'errors.localServerNoImage': 'O servidor local não retornou nenhuma imagem.',
+  'errors.localServerNoText': 'O servidor local não retornou uma resposta de texto.',
+  'errors.noImageToEdit': 'Nenhuma imagem foi fornecida para edição.',
+  'errors.missingGeminiKey': 'A chave de API do Gemini não foi fornecida.',
+  'errors.imageGenerationFailed': 'A IA de geração de imagem não conseguiu criar a imagem. Tente novamente com um prompt ou estilo diferente.',
+  'errors.editRefused': 'A IA de edição falhou e retornou uma mensagem: "{message}"',
+  'errors.editEmpty': 'Ocorreu um erro inesperado: o modelo de edição de imagem não retornou uma imagem nem uma mensagem de texto.',
+  'errors.invalidThumbnailTexts': 'A IA não retornou sugestões de texto válidas.',
+  'errors.incompleteTranslation': 'A IA não retornou uma tradução para cada texto da thumbnail.',
+  'errors.invalidCritique': 'A IA não retornou uma análise válida das headlines.',
+  'errors.unexpectedResponse': 'A resposta da IA não estava no formato esperado.',
+  'errors.projectMalformed': 'O arquivo não é um projeto válido (JSON malformado).',
+  'errors.projectInvalid': 'O arquivo não é um projeto de thumbnail válido.',
+  'errors.projectTooNew': 'Este projeto foi criado por uma versão mais nova do aplicativo.',
+  'errors.segmentationModelMissing': 'Modelo de recorte não encontrado em {url}. Use os pincéis para recortar manualmente.',
+  'errors.cutoutEmpty': 'O recorte está vazio. Pinte a área do objeto antes de salvar.',
+  'errors.noVariantImages': 'Nenhuma variante tem imagem base para exportar.',
+  'errors.formatNoBaseImage': 'A composição principal ainda não tem imagem base.',
+  'errors.noFormatImages': 'Nenhum formato tem imagem base para exportar.',
+  'errors.reframeProvider': 'Configure um provedor de IA para expandir a imagem.',
+  'errors.nothingToTranslate': 'A thumbnail não tem textos para traduzir.',
+
+  'loading.prompt': 'Gerando prompt de arte...',
+  'loading.candidates': 'Criando {count} opções de thumbnail...',
+  'loading.candidate': 'Criando sua thumbnail mágica...',
+  'loading.modifying': 'Aplicando modificações...',
+  'loading.thumbnail': 'Gerando sua Thumbnail...',
+
+  'headlineStep.title': 'Insira a Headline do Vídeo',
+  'headlineStep.placeholder': 'Ex: Como eu fiz meu primeiro milhão...',
+  'headlineStep.contentLanguage': 'Idioma das headlines e dos textos da thumbnail',
+  'headlineStep.configureProvider': 'Configure o provedor de IA para continuar',
+  'headlineStep.submit': 'Analisar e Gerar Variações',
+
+  'selectionStep.title': 'Escolha a Melhor Headline',
+  'selectionStep.introStart': 'Selecione a headline que será usada na thumbnail. As palavras-chave estão',
+  'selectionStep.introHighlight': 'destacadas',
+  'selectionStep.introEnd': 'para você. As opções estão ordenadas pela nota de legibilidade e apelo na thumbnail.',
+  'selectionStep.critique': 'Pedir análise da IA',
+  'selectionStep.critiqueHint': 'A IA avalia as variações nos mesmos critérios e a nota passa a combinar as duas análises',
+
+  'styleStep.title': 'Escolha o Estilo Visual',
+  'styleStep.customDivider': 'Ou digite um estilo customizado',
+  'styleStep.customPlaceholder': 'Ex: Arte com giz de cera, Steampunk, Vaporwave',
+  'styleStep.customSubmit': 'Usar Estilo Customizado',
+
+  'imageStep.titleEdit': 'Ajuste Fino da Thumbnail',
+  'imageStep.titlePick': 'Escolha a Imagem Base',
+  'imageStep.titleGenerate': 'Gere a Imagem Base',
+  'imageStep.uploadClick': 'Clique para fazer upload',
+  'imageStep.uploadDrop': 'ou arraste e solte',
+  'imageStep.uploadHint': 'PNG, JPG, WEBP (MAX. 5MB)',
+  'imageStep.uploaded': 'Imagens Carregadas:',
+  'imageStep.cutoutBadge': 'RECORTE',
+  'imageStep.cutout': 'Recortar objeto',
+  'imageStep.cutoutHint': 'Recortar objeto (remove o fundo)',
+  'imageStep.removeImage': 'Remover imagem',
+  'imageStep.aspectRatio': 'Proporção da Imagem',
+  'imageStep.candidateCount': 'Opções por geração',
+  'imageStep.noBaseImage': 'Se não tiver uma imagem de base, não se preocupe! A IA criará uma do zero.',
+  'imageStep.generate': 'Gerar Imagem Base',
+  'imageStep.pickIntro': 'Escolha a imagem que será usada como base da thumbnail.',
+  'imageStep.pickPrevious': 'Ou escolha uma imagem anterior desta sessão',
+  'imageStep.backToEditor': 'Voltar ao Editor sem Alterar',
+
+  'editor.underDurationBadge': 'O texto fica sob o selo de duração do YouTube',
+  'editor.outsideSafeArea': 'O texto ultrapassa a margem segura',
+  'editor.outsideCropFrame': 'O texto é cortado em um dos recortes ativos',
+  'editor.addText': 'Adicionar Texto',
+  'editor.newText': 'TEXTO INCRÍVEL',
+  'editor.undo': 'Desfazer',
+  'editor.undoHint': 'Desfazer (Ctrl+Z)',
+  'editor.redo': 'Refazer',
+  'editor.redoHint': 'Refazer (Ctrl+Shift+Z)',
+  'editor.text': 'Texto',
+  'editor.font': 'Fonte',
+  'editor.fontSize': 'Tamanho ({value}px)',
+  'editor.letterSpacing': 'Espaçamento Letras ({value}px)',
+  'editor.lineHeight': 'Altura Linha ({value})',
+  'editor.alignment': 'Alinhamento',
+  'editor.alignLeft': 'Alinhar à esquerda',
+  'editor.alignCenter': 'Centralizar',
+  'editor.alignRight': 'Alinhar à direita',
+  'editor.color': 'Cor',
+  'editor.useGradient': 'Usar Gradiente',
+  'editor.gradientColor1': 'Cor 1',
+  'editor.gradientColor2': 'Cor 2',
+  'editor.gradientAngle': 'Ângulo ({value}°)',
+  'editor.solidColor': 'Cor Sólida',
+  'editor.stroke': 'Contorno',
+  'editor.strokeWidth': 'Largura Contorno ({value}px)',
+  'editor.shadow': 'Sombra',
+  'editor.shadowBlur': 'Desfoque ({value}px)',
+  'editor.shadowOffsetX': 'Offset X ({value}px)',
+  'editor.shadowOffsetY': 'Offset Y ({value}px)',
+  'editor.transform': 'Transformação',
+  'editor.rotation': 'Rotação ({value}°)',
+  'editor.duplicate': 'Duplicar',
+  'editor.group': 'Agrupar',
+  'editor.groupHint': 'Selecione duas ou mais camadas (Shift+clique ou arraste na imagem)',
+  'editor.ungroup': 'Desagrupar',
+  'editor.removeLayer': 'Remover Camada',
+  'editor.removeLayers': 'Remover {count} Camadas',
+  'editor.empty': 'Clique em "Adicionar Texto" ou adicione uma imagem, forma ou sticker. Selecione uma camada na imagem para editar.',
+  'editor.gallery': 'Galeria da Sessão',
+  'editor.galleryHint': 'Troque a imagem base por qualquer uma gerada nesta sessão, sem custo.',
+  'editor.reframeInVariants': 'Saia do modo variantes para mudar a proporção: todas as variantes usam a mesma.',
+  'editor.reframeInFormats': 'No modo formatos, crie um novo formato em vez de reenquadrar.',
+  'editor.modify': 'Modificar Imagem',
+  'editor.modifyHint': 'Descreva a alteração que você quer fazer na imagem atual (em português).',
+  'editor.maskHint': 'Pinte a área da imagem que pode ser modificada',
+  'editor.maskStart': 'Pintar área',
+  'editor.maskExit': 'Sair da máscara',
+  'editor.modifyPlaceholder': 'Ex: adicione um chapéu de pirata, mude o fundo para uma praia',
+  'editor.modifyApply': 'Aplicar Modificação',
+  'editor.download': 'Finalizar e Baixar',
+  'editor.regenerate': 'Gerar Novamente',
+  'editor.startOver': 'Começar Novamente',
+
+  'prompt.english': 'Prompt em Inglês (para a IA de imagem)',
+  'prompt.copy': 'Copiar com 1 clique',
+  'prompt.copied': 'Copiado!',
+  'prompt.copyFailed': 'Falha ao copiar',
+  'prompt.translation': 'Ver tradução em {language}',
+
+  'style.cinematic': 'Cinemático',
+  'style.gamer': 'Gamer',
+  'style.vintage': 'Vintage',
+  'style.anime': 'Anime',
+  'style.cyberpunk': 'Cyberpunk',
+  'style.minimalist': 'Minimalista',
+  'style.3d render': '3D/Render',
+  'style.vlog': 'Vlog',
+
+  'aspectRatio.16:9': 'Thumbnail (16:9)',
+  'aspectRatio.9:16': 'Story (9:16)',
+  'aspectRatio.1:1': 'Quadrado (1:1)',
+  'aspectRatio.4:3': 'Clássico (4:3)',
+  'aspectRatio.3:4': 'Retrato (3:4)',
+
+  'projects.title': 'Meus Projetos',
+  'projects.autosaveHint': 'Seu trabalho é salvo automaticamente neste navegador.',
+  'projects.import': 'Importar Projeto',
+  'projects.empty': 'Nenhum projeto salvo ainda.',
+  'projects.editedAt': 'Editado em {date}',
+  'projects.open': 'Abrir',
+  'projects.rename': 'Renomear',
+  'projects.duplicate': 'Duplicar',
+  'projects.export': 'Exportar',
+  'projects.delete': 'Excluir',
+  'projects.confirmDelete': 'Excluir o projeto "{name}"? Esta ação não pode ser desfeita.',
+  'projects.loadFailed': 'Não foi possível carregar seus projetos salvos.',
+  'projects.duplicateFailed': 'Falha ao duplicar o projeto.',
+  'projects.deleteFailed': 'Falha ao excluir o projeto.',
+  'projects.renameFailed': 'Falha ao renomear o projeto.',
+  'projects.importFailed': 'Falha ao importar o projeto.',
+  'projects.untitled': 'Sem título',
+  'projects.copyName': '{name} (cópia)',
+  'projects.importedName': 'Projeto importado',
+
+  'provider.title': 'Provedor de IA',
+  'provider.gemini': 'Google Gemini',
+  'provider.local': 'Servidor Local',
+  'provider.mock': 'Demo Offline',
+  'provider.mockLocked': 'O modo demo foi ativado pela variável MOCK_AI. Nenhuma chamada de rede é feita.',
+  'provider.mockHint': 'Respostas fixas e imagens de placeholder geradas localmente. Ideal para testar o editor sem chave de API.',
+  'provider.geminiHint': 'Para usar esta ferramenta, você precisa de uma chave de API do Google Gemini. A chave é salva localmente no seu navegador.',
+  'provider.getKey': 'Obtenha sua chave aqui.',
+  'provider.apiKeyPlaceholder': 'Cole sua chave de API aqui',
+  'provider.localHint': 'Use um servidor HTTP local (compatível com OpenAI ou Stable Diffusion WebUI) para rodar o assistente offline ou em testes automatizados.',
+  'provider.textModel': 'Modelo de texto',
+  'provider.imageModel': 'Modelo de imagem',
+  'provider.imageApi': 'API de imagem',
+  'provider.imageApiOpenAI': 'Compatível com OpenAI (/v1/images)',
+  'provider.imageApiSdWebui': 'Stable Diffusion WebUI (/sdapi/v1)',
+  'provider.save': 'Salvar',
+
+  'shape.arrow': 'Seta',
+  'shape.circle': 'Círculo',
+  'shape.rectangle': 'Retângulo',
+  'shape.underline': 'Sublinhado',
+
+  'sticker.fire': 'Fogo',
+  'sticker.shocked': 'Chocado',
+  'sticker.mind-blown': 'Explodindo a mente',
+  'sticker.eyes': 'Olhos',
+  'sticker.point-right': 'Apontando',
+  'sticker.check': 'Certo',
+  'sticker.cross': 'Errado',
+  'sticker.money': 'Dinheiro',
+  'sticker.star': 'Estrela',
+  'sticker.warning': 'Atenção',
+  'sticker.badge-new': 'Selo NOVO',
+  'sticker.badge-free': 'Selo GRÁTIS',
+  'sticker.badge-live': 'Selo AO VIVO',
+  'sticker.badge-top': 'Selo TOP 10',
+
+  'criterion.length': 'Tamanho',
+  'criterion.emotion': 'Emoção',
+  'criterion.curiosity': 'Curiosidade',
+  'criterion.numbers': 'Números',
+  'criterion.clarity': 'Clareza',
+
+  'trigger.curiosity': 'Curiosidade',
+  'trigger.fear': 'Medo',
+  'trigger.urgency': 'Urgência',
+  'trigger.surprise': 'Surpresa',
+  'trigger.desire': 'Desejo',
+  'trigger.achievement': 'Conquista',
+  'trigger.neutral': 'Neutro',
+
+  'refinement.shorter': 'Mais curta',
+  'refinement.curiosity': 'Mais curiosidade',
+  'refinement.number': 'Com número',
+  'refinement.lessClickbait': 'Menos clickbait',
+
+  'export.title': 'Exportar thumbnail',
+  'export.close': 'Fechar',
+  'export.format': 'Formato',
+  'export.quality': 'Qualidade ({value}%)',
+  'export.resolution': 'Resolução',
+  'export.original': 'Original ({width}×{height})',
+  'export.maxFileSize': 'Tamanho máximo do arquivo',
+  'export.noLimit': 'Sem limite',
+  'export.limitLossyHint': 'A qualidade é reduzida automaticamente se o arquivo passar do limite.',
+  'export.limitPngHint': 'PNG não tem perdas: se passar do limite, use JPEG ou WebP.',
+  'export.fileName': 'Nome do arquivo',
+  'export.fileNameHint': 'Use {titulo}, {data}, {largura} e {altura}. Resultado:',
+  'export.resultQuality': 'com qualidade {value}%',
+  'export.overLimit': 'acima do limite escolhido',
+  'export.download': 'Baixar',
+  'export.failed': 'Falha ao gerar o arquivo da thumbnail.',
+
+  'addLayer.image': 'Adicionar imagem',
+  'addLayer.imageHint': 'Adicionar imagem (PNG/WebP com transparência)',
+  'addLayer.shape': 'Adicionar {shape}',
+  'addLayer.stickers': 'Stickers',
+  'addLayer.cutouts': 'Recortes:',
+  'addLayer.cutoutHint': 'Adicionar recorte como camada',
+  'addLayer.cutoutAlt': 'Recorte {number}',
+
+  'layer.shape': 'Forma',
+  'layer.thickness': 'Espessura ({value}px)',
+  'layer.filled': 'Preenchido',
+  'layer.image': 'Imagem',
+  'layer.opacity': 'Opacidade ({value}%)',
+  'layer.cutout': 'Recorte',
+
+  'layers.title': 'Camadas',
+  'layers.renameHint': 'Clique duplo para renomear',
+  'layers.grouped': 'Agrupado',
+  'layers.show': 'Mostrar camada',
+  'layers.hide': 'Ocultar camada',
+  'layers.lock': 'Bloquear camada',
+  'layers.unlock': 'Desbloquear camada',
+  'layers.baseImage': 'Imagem base',
+  'layers.baseImageHint': 'A imagem base fica sempre no fundo',
+
+  'refinement.more': 'Gerar mais',
+  'refinement.customPlaceholder': 'Ou peça algo específico: ex. mais engraçadas, sem pontuação...',
+  'refinement.submit': 'Refinar',
+  'refinement.hint': 'As opções fixadas são mantidas; as demais são trocadas por sugestões novas, sem repetir as anteriores.',
+
+  'headlineOption.original': 'Original',
+  'headlineOption.save': 'Salvar',
+  'headlineOption.cancel': 'Cancelar',
+  'headlineOption.pin': 'Fixar: continua na lista ao gerar novas variações',
+  'headlineOption.unpin': 'Desafixar',
+  'headlineOption.edit': 'Editar antes de usar',
+
+  'headlineScore.counts': '{words} palavras · {chars} caracteres',
+  'scoreNote.tooLong': 'Longa para uma thumbnail ({words} palavras, {chars} caracteres); o ideal é até {idealWords} palavras.',
+  'scoreNote.noTrigger': 'Não tem um gatilho emocional claro.',
+  'scoreNote.strongCuriosity': 'Abre uma lacuna de curiosidade forte.',
+  'scoreNote.weakCuriosity': 'Entrega tudo de uma vez: pouca curiosidade.',
+  'scoreNote.concreteNumber': 'Um número concreto ajuda a chamar atenção.',
+  'scoreNote.hardToRead': 'Palavras longas ou enchimento dificultam a leitura rápida.',
+
+  'variants.title': 'Variantes A/B',
+  'variants.exit': 'Sair do modo variantes',
+  'variants.intro': 'Monte 2 a {max} versões da thumbnail, cada uma com sua headline, imagem base e layout, para testar o CTR.',
+  'variants.create': 'Criar Variantes',
+  'variants.hint': 'Clique em uma variante para editá-la no editor acima. Use a galeria para trocar a imagem base de cada uma.',
+  'variants.variant': 'Variante {label}',
+  'variants.remove': 'Remover variante {label}',
+  'variants.headline': 'Título da variante {label}',
+  'variants.add': 'Variante',
+  'variants.setName': 'Nome do conjunto (prefixo dos arquivos)',
+  'variants.export': 'Exportar Conjunto',
+
+  'youtube.title': 'Pré-visualização no YouTube',
+  'youtube.previewAlt': 'Pré-visualização',
+  'youtube.videoTitle': 'Título do vídeo',
+  'youtube.channelName': 'Nome do canal',
+  'youtube.defaultChannel': 'Seu Canal',
+  'youtube.meta': '{channel} • 12 mil visualizações • há 2 dias',
+  'youtube.dark': 'Escuro',
+  'youtube.light': 'Claro',
+  'youtube.home': 'Início (grade)',
+  'youtube.search': 'Resultado de busca',
+  'youtube.sidebar': 'Sugestão lateral',
+  'youtube.mobile': 'Feed mobile',
+
+
+  'translate.title': 'Traduzir thumbnail',
+  'translate.description': 'Troca os textos da imagem por versões localizadas, mantendo o layout. Confira se cada texto ainda cabe no lugar.',
+  'translate.submit': 'Traduzir',
+  'translate.failed': 'Falha ao traduzir a thumbnail.',
+
+  'imageText.title': 'Texto na imagem',
+  'imageText.hint': 'O título "{title}" já aparece abaixo da thumbnail. Na imagem, 2 a 4 palavras que complementem funcionam melhor.',
+  'imageText.suggestMore': 'Sugerir outras',
+  'imageText.noSuggestions': 'Nenhuma sugestão ainda.',
+  'imageText.customPlaceholder': 'Ou escreva o seu: ex. FUNCIONOU!',
+  'imageText.use': 'Usar',
+  'imageText.current': 'Na imagem:',
+  'imageText.none': 'Sem frase escolhida: o título vai na imagem.',
+
+
+  'align.title': 'Posição',
+  'align.selected': '{count} selecionados',
+  'align.relativeToImage': 'Relativo à imagem',
+  'align.left': 'Alinhar à esquerda',
+  'align.center': 'Centralizar na horizontal',
+  'align.right': 'Alinhar à direita',
+  'align.top': 'Alinhar ao topo',
+  'align.middle': 'Centralizar na vertical',
+  'align.bottom': 'Alinhar à base',
+  'align.distributeHorizontal': 'Distribuir na horizontal',
+  'align.distributeVertical': 'Distribuir na vertical',
+  'align.hint': 'Setas movem 1px (Shift: 10px). Segure Alt ao arrastar para desligar o encaixe.',
+
+  'mask.brush': 'Pincel',
+  'mask.lasso': 'Laço',
+  'mask.eraser': 'Borracha',
+  'mask.clear': 'Limpar área',
+  'mask.brushSize': 'Tamanho do pincel ({size}px)',
+  'mask.hintPainted': 'Só a área pintada será modificada; o resto da imagem fica intacto.',
+  'mask.hintEmpty': 'Pinte na imagem a área que a IA pode modificar.',
+
+
+  'cutout.title': 'Recortar objeto',
+  'cutout.close': 'Fechar',
+  'cutout.detecting': 'Detectando o objeto...',
+  'cutout.add': 'Adicionar',
+  'cutout.erase': 'Apagar',
+  'cutout.brushSize': 'Pincel ({size}px)',
+  'cutout.addAsNew': 'Adicionar como nova imagem',
+  'cutout.addAsNewHint': 'Mantém a foto original e adiciona o recorte como outra imagem',
+  'cutout.replace': 'Substituir a foto',
+  'cutout.segmentFailed': 'Falha ao recortar a imagem.',
+  'cutout.saveFailed': 'Falha ao salvar o recorte.',
+
+
+  'wordStyle.title': 'Estilo por palavra',
+  'wordStyle.keywords': 'Palavras-chave: {keywords}',
+  'wordStyle.noKeywords': 'A headline selecionada não tem palavras-chave',
+  'wordStyle.highlightKeywords': 'Destacar palavras-chave',
+  'wordStyle.clear': 'limpar',
+  'wordStyle.color': 'Cor',
+  'wordStyle.stroke': 'Contorno',
+  'wordStyle.highlight': 'Destaque',
+  'wordStyle.size': 'Tamanho ({percent}%)',
+  'wordStyle.clearSelected': 'Limpar estilo das palavras selecionadas',
+  'wordStyle.hint': 'Clique nas palavras para mudar cor, tamanho, contorno ou destaque de cada uma.',
+
+  'imageGrid.select': 'Selecionar imagem {number}',
+  'imageGrid.option': 'Opção {number}',
+
+
+  'adjust.title': 'Ajustes da imagem',
+  'adjust.reset': 'Restaurar',
+  'adjust.look': 'Look',
+  'adjust.noLook': 'Nenhum',
+  'adjust.brightness': 'Brilho',
+  'adjust.contrast': 'Contraste',
+  'adjust.saturation': 'Saturação',
+  'adjust.vibrance': 'Vibração',
+  'adjust.temperature': 'Temperatura',
+  'adjust.sharpen': 'Nitidez',
+  'adjust.vignette': 'Vinheta',
+
+  'guides.toggle': 'Guias',
+  'guides.hint': 'Guias não aparecem na imagem exportada',
+  'guides.durationBadge': 'Selo de duração',
+  'guides.ruleOfThirds': 'Regra dos terços',
+  'guides.centerLines': 'Linhas centrais',
+  'guides.safeArea': 'Margem segura',
+  'guides.cropFrames': 'Recorte:',
+
+
+  'formats.title': 'Formatos',
+  'formats.disable': 'Sair do modo formatos',
+  'formats.intro': 'Use esta composição como principal e derive dela os outros formatos (Shorts, post quadrado...), cada um ajustável separadamente.',
+  'formats.enable': 'Criar Formatos',
+  'formats.hint': 'Clique em um formato para ajustá-lo no editor acima. Os formatos derivados copiam a principal no momento em que são criados.',
+  'formats.previewAlt': 'Formato {ratio}',
+  'formats.remove': 'Remover formato {ratio}',
+  'formats.sourceMaster': 'Principal',
+  'formats.sourceCrop': 'Recorte',
+  'formats.sourceOutpaint': 'Expandido (IA)',
+  'formats.crop': 'Recortar',
+  'formats.cropHint': 'Recorta o centro da imagem principal',
+  'formats.outpaint': 'Expandir com IA',
+  'formats.outpaintHint': 'A IA estende a imagem principal até o novo formato',
+  'formats.exportAll': 'Exportar Todos (.zip)',
+  'formats.exportHint': 'Usa as opções da última exportação (formato, qualidade e limite de tamanho)',
+
+  'reframe.title': 'Reenquadrar',
+  'reframe.description': 'Mude a proporção sem gerar a imagem de novo: a IA estende o cenário ou o centro é recortado. Os textos acompanham proporcionalmente.',
+  'reframe.outpaint': 'Expandir (IA)',
+  'reframe.crop': 'Recortar',
+  'reframe.preview': 'Pré-visualizar',
+  'reframe.before': 'Antes ({ratio})',
+  'reframe.beforeAlt': 'Antes',
+  'reframe.after': 'Depois ({ratio})',
+  'reframe.afterAlt': 'Depois',
+  'reframe.discard': 'Descartar',
+  'reframe.apply': 'Aplicar',
+  'reframe.failed': 'Falha ao reenquadrar a imagem.',
+};
+
+export type MessageKey = keyof typeof ptBR;
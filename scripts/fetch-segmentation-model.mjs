@@ -0,0 +1,31 @@
+// Downloads the subject segmentation model into public/models (`npm run
+// fetch-model`), so Vite serves it and copies it into dist like any static asset.
+// The model is u2netp from the U²-Net project (Apache-2.0), as republished
+// by rembg. It is only fetched once; delete the file to fetch it again.
+import { existsSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://github.com/danielgatis/rembg/releases/download/v0.0.0/u2netp.onnx';
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const target = path.join(root, 'public', 'models', 'subject-segmentation.onnx');
+
+if (existsSync(target)) process.exit(0);
+
+console.log(`Fetching the segmentation model from ${MODEL_URL}`);
+try {
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const model = Buffer.from(await response.arrayBuffer());
+
+  // Written under a temporary name first so an interrupted download is never mistaken for the model
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(`${target}.download`, model);
+  await rename(`${target}.download`, target);
+  console.log(`Saved ${(model.length / 1024 / 1024).toFixed(1)} MB to ${path.relative(root, target)}`);
+} catch (err) {
+  // Not fatal: without the model the cut-out editor falls back to the brushes
+  console.warn(`Could not fetch the segmentation model: ${err.message}`);
+  console.warn(`Download it by hand from ${MODEL_URL} to ${path.relative(root, target)}, or cut out by hand.`);
+}
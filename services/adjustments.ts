@@ -0,0 +1,106 @@
+import { ImageAdjustments } from '../types';
+import { DEFAULT_IMAGE_ADJUSTMENTS, IMAGE_LOOK_PRESETS } from '../constants';
+
+// Colour corrections applied to the base image on a canvas. Everything that is
+// a per-channel curve (look, brightness, contrast, temperature) is folded into
+// one lookup table per channel; saturation, vibrance and sharpening need the
+// neighbouring channels or pixels and run as separate passes.
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const hasAdjustments = (adjustments: ImageAdjustments | undefined): boolean =>
+  !!adjustments && (Object.keys(DEFAULT_IMAGE_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+    .some(key => adjustments[key] !== DEFAULT_IMAGE_ADJUSTMENTS[key]);
+
+const buildChannelTables = (adjustments: ImageAdjustments) => {
+  const look = adjustments.preset ? IMAGE_LOOK_PRESETS[adjustments.preset] : undefined;
+  const lift = look?.lift ?? [0, 0, 0];
+  const gain = look?.gain ?? [1, 1, 1];
+  const contrast = 1 + (adjustments.contrast + (look?.contrast ?? 0)) / 100;
+  const brightness = adjustments.brightness / 250;
+  // Warm pushes red up and blue down, cool the opposite
+  const warmth = [adjustments.temperature / 1000, 0, -adjustments.temperature / 1000];
+
+  return [0, 1, 2].map(channel => {
+    const table = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      let x = lift[channel] + (gain[channel] - lift[channel]) * (v / 255);
+      x += brightness + warmth[channel];
+      x = (x - 0.5) * contrast + 0.5;
+      table[v] = Math.round(clamp01(x) * 255);
+    }
+    return table;
+  });
+};
+
+// Saturation scales every pixel's distance from grey; vibrance does the same
+// but mostly for pixels that are still dull, so skin and skies don't clip.
+const applyColor = (data: Uint8ClampedArray, adjustments: ImageAdjustments) => {
+  const look = adjustments.preset ? IMAGE_LOOK_PRESETS[adjustments.preset] : undefined;
+  const saturation = 1 + (adjustments.saturation + (look?.saturation ?? 0)) / 100;
+  const vibrance = adjustments.vibrance / 100;
+  if (saturation === 1 && vibrance === 0) return;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const grey = 0.299 * r + 0.587 * g + 0.114 * b;
+    const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+    const factor = saturation * (1 + vibrance * (1 - chroma));
+    data[i] = grey + (r - grey) * factor;
+    data[i + 1] = grey + (g - grey) * factor;
+    data[i + 2] = grey + (b - grey) * factor;
+  }
+};
+
+// Unsharp-style 3×3 kernel: each pixel minus the average of its four
+// neighbours, scaled by the amount. Edges are left as they are.
+const applySharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  const source = new Uint8ClampedArray(data);
+  const row = width * 4;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * row + x * 4;
+      for (let c = 0; c < 3; c++) {
+        const center = source[i + c];
+        const edge = 4 * center - source[i + c - 4] - source[i + c + 4] - source[i + c - row] - source[i + c + row];
+        data[i + c] = center + edge * amount;
+      }
+    }
+  }
+};
+
+const applyVignette = (ctx: CanvasRenderingContext2D, width: number, height: number, strength: number) => {
+  const radius = Math.hypot(width, height) / 2;
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, `rgba(0, 0, 0, ${0.85 * strength / 100})`);
+  ctx.save();
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+// Adjusts whatever is already drawn on the canvas, in place. Meant to run on
+// the base image before any layer is painted over it.
+export const applyAdjustments = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments
+) => {
+  if (!hasAdjustments(adjustments) || width === 0 || height === 0) return;
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  const [red, green, blue] = buildChannelTables(adjustments);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+  applyColor(data, adjustments);
+  if (adjustments.sharpen > 0) applySharpen(data, width, height, adjustments.sharpen / 100);
+  ctx.putImageData(imageData, 0, 0);
+
+  if (adjustments.vignette > 0) applyVignette(ctx, width, height, adjustments.vignette);
+};
@@ -0,0 +1,137 @@
+import { AspectRatio, Layer } from '../types';
+import { TITLE_SAFE_AREAS, getLayerBounds } from './safeZones';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export interface SnapGuides {
+  x: number[];
+  y: number[];
+}
+
+// Distance in preview pixels within which an edge or centre snaps.
+export const SNAP_THRESHOLD = 6;
+
+type Bounds = ReturnType<typeof getLayerBounds>;
+
+const anchorsX = (b: Bounds) => [b.left, (b.left + b.right) / 2, b.right];
+const anchorsY = (b: Bounds) => [b.top, (b.top + b.bottom) / 2, b.bottom];
+
+// Smallest correction that brings any anchor onto any target, if one is close enough.
+const findSnap = (anchors: number[], targets: number[], threshold: number) => {
+  let best: { offset: number; target: number } | null = null;
+  for (const anchor of anchors) {
+    for (const target of targets) {
+      const offset = target - anchor;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, target };
+      }
+    }
+  }
+  return best;
+};
+
+export const snapPosition = (
+  moving: Layer,
+  proposed: { x: number; y: number },
+  others: Layer[],
+  canvas: CanvasSize,
+  aspectRatio: string,
+  threshold = SNAP_THRESHOLD
+): { position: { x: number; y: number }; guides: SnapGuides } => {
+  const safe = TITLE_SAFE_AREAS[aspectRatio as AspectRatio] ?? TITLE_SAFE_AREAS['16:9'];
+  const targetsX = [0, canvas.width / 2, canvas.width, safe.x * canvas.width, (safe.x + safe.width) * canvas.width];
+  const targetsY = [0, canvas.height / 2, canvas.height, safe.y * canvas.height, (safe.y + safe.height) * canvas.height];
+  others.forEach(other => {
+    const b = getLayerBounds(other);
+    targetsX.push(...anchorsX(b));
+    targetsY.push(...anchorsY(b));
+  });
+
+  const bounds = getLayerBounds({ ...moving, position: proposed });
+  const snapX = findSnap(anchorsX(bounds), targetsX, threshold);
+  const snapY = findSnap(anchorsY(bounds), targetsY, threshold);
+
+  return {
+    position: {
+      x: proposed.x + (snapX?.offset ?? 0),
+      y: proposed.y + (snapY?.offset ?? 0),
+    },
+    guides: {
+      x: snapX ? [snapX.target] : [],
+      y: snapY ? [snapY.target] : [],
+    },
+  };
+};
+
+const moveBy = (el: Layer, dx: number, dy: number): Layer =>
+  ({ ...el, position: { x: el.position.x + dx, y: el.position.y + dy } });
+
+// A single element aligns to the canvas; several align to their combined bounds.
+export const alignElements = (
+  elements: Layer[],
+  ids: string[],
+  mode: AlignMode,
+  canvas: CanvasSize
+): Layer[] => {
+  const selected = elements.filter(el => ids.includes(el.id));
+  if (selected.length === 0) return elements;
+
+  const boundsById = Object.fromEntries(selected.map(el => [el.id, getLayerBounds(el)]));
+  const all = Object.values(boundsById);
+  const frame = selected.length === 1
+    ? { left: 0, top: 0, right: canvas.width, bottom: canvas.height }
+    : {
+        left: Math.min(...all.map(b => b.left)),
+        top: Math.min(...all.map(b => b.top)),
+        right: Math.max(...all.map(b => b.right)),
+        bottom: Math.max(...all.map(b => b.bottom)),
+      };
+
+  return elements.map(el => {
+    const b = boundsById[el.id];
+    if (!b) return el;
+    switch (mode) {
+      case 'left': return moveBy(el, frame.left - b.left, 0);
+      case 'center': return moveBy(el, (frame.left + frame.right) / 2 - (b.left + b.right) / 2, 0);
+      case 'right': return moveBy(el, frame.right - b.right, 0);
+      case 'top': return moveBy(el, 0, frame.top - b.top);
+      case 'middle': return moveBy(el, 0, (frame.top + frame.bottom) / 2 - (b.top + b.bottom) / 2);
+      case 'bottom': return moveBy(el, 0, frame.bottom - b.bottom);
+      default: return el;
+    }
+  });
+};
+
+// Spaces element centres evenly between the outermost two; needs three or more.
+export const distributeElements = (
+  elements: Layer[],
+  ids: string[],
+  axis: DistributeAxis
+): Layer[] => {
+  const selected = elements.filter(el => ids.includes(el.id));
+  if (selected.length < 3) return elements;
+
+  const center = (el: Layer) => {
+    const b = getLayerBounds(el);
+    return axis === 'horizontal' ? (b.left + b.right) / 2 : (b.top + b.bottom) / 2;
+  };
+  const sorted = [...selected].sort((a, b) => center(a) - center(b));
+  const first = center(sorted[0]);
+  const step = (center(sorted[sorted.length - 1]) - first) / (sorted.length - 1);
+  const offsets = Object.fromEntries(sorted.map((el, index) => [el.id, first + step * index - center(el)]));
+
+  return elements.map(el => {
+    const offset = offsets[el.id];
+    if (offset === undefined) return el;
+    return axis === 'horizontal' ? moveBy(el, offset, 0) : moveBy(el, 0, offset);
+  });
+};
+
+export const nudgeElements = (elements: Layer[], ids: string[], dx: number, dy: number): Layer[] =>
+  elements.map(el => ids.includes(el.id) ? moveBy(el, dx, dy) : el);
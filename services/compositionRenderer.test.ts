@@ -0,0 +1,168 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Canvas, createCanvas, loadImage } from '@napi-rs/canvas';
+import { describe, expect, it } from 'vitest';
+import { Layer, ShapeLayer, TextElement } from '../types';
+import { prepareLayers, renderComposition } from './compositionRenderer';
+
+// Golden images for the layer renderer. Each case is drawn the way the editor
+// preview paints it (prepareLayers on the transparent canvas over the base
+// image) and the way an export does (renderComposition over a transparent
+// image), and the layer pixels must be identical. The export over a real base
+// image must also match the recorded PNG in __golden__/compositionRenderer.
+// Delete a PNG, or set UPDATE_GOLDEN=1, and run the tests outside CI to record it again.
+
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '__golden__', 'compositionRenderer');
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 180;
+// Channel difference allowed against the golden file, for Skia builds that round differently
+const GOLDEN_TOLERANCE = 2;
+
+const createBaseImage = (opaque: boolean): string => {
+  const canvas = createCanvas(PREVIEW_WIDTH * 2, PREVIEW_HEIGHT * 2);
+  if (!opaque) return canvas.toBuffer('image/png').toString('base64');
+  const ctx = canvas.getContext('2d');
+  const background = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  background.addColorStop(0, '#1e3a8a');
+  background.addColorStop(1, '#f97316');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#10b981';
+  ctx.fillRect(canvas.width * 0.6, canvas.height * 0.2, canvas.width * 0.3, canvas.height * 0.6);
+  return canvas.toBuffer('image/png').toString('base64');
+};
+
+const BASE_IMAGE = createBaseImage(true);
+// Text over an opaque image is anti-aliased differently from text on the
+// preview's transparent canvas, so the paths are compared on a clear image.
+const CLEAR_IMAGE = createBaseImage(false);
+
+const text = (overrides: Partial<TextElement>): TextElement => ({
+  id: 'text',
+  text: 'Viral thumbnail',
+  fontFamily: 'Anton',
+  fontSize: 36,
+  color: '#FFFFFF',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  position: { x: 16, y: 16 },
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  shadowColor: '#000000',
+  shadowBlur: 0,
+  shadowOffsetX: 0,
+  shadowOffsetY: 0,
+  useGradient: false,
+  gradientColor1: '#FFFF00',
+  gradientColor2: '#FF8A00',
+  gradientAngle: 90,
+  rotation: 0,
+  width: 280,
+  height: 60,
+  textAlign: 'left',
+  ...overrides,
+});
+
+const rectangle: ShapeLayer = {
+  id: 'shape',
+  type: 'shape',
+  shape: 'rectangle',
+  color: '#FACC15',
+  strokeWidth: 6,
+  filled: false,
+  position: { x: 190, y: 40 },
+  rotation: 15,
+  width: 100,
+  height: 70,
+};
+
+const CASES: Record<string, Layer[]> = {
+  wrapping: [text({
+    text: 'Long headlines wrap inside a narrow centred box',
+    width: 180,
+    textAlign: 'center',
+    letterSpacing: 2,
+    lineHeight: 1.05,
+    fontSize: 28,
+  })],
+  stroke: [text({ strokeWidth: 6, strokeColor: '#DC2626' })],
+  shadow: [text({ shadowColor: 'rgba(0, 0, 0, 0.8)', shadowBlur: 8, shadowOffsetX: 4, shadowOffsetY: 6 })],
+  gradient: [text({ useGradient: true, gradientAngle: 45, gradientColor1: '#FDE047', gradientColor2: '#DB2777', fontSize: 44 })],
+  rotation: [
+    rectangle,
+    text({ text: 'Tilted', rotation: -12, position: { x: 40, y: 90 }, strokeWidth: 3 }),
+  ],
+};
+
+const pixelsOf = (canvas: Canvas) =>
+  canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data;
+
+const renderExport = async (layers: Layer[], scale: number, image = BASE_IMAGE): Promise<Canvas> => {
+  const size = { width: PREVIEW_WIDTH * scale, height: PREVIEW_HEIGHT * scale };
+  const canvas = await renderComposition(image, layers, PREVIEW_WIDTH, size);
+  return canvas as unknown as Canvas;
+};
+
+// What CompositionCanvas paints at a given device pixel ratio.
+const renderPreview = async (layers: Layer[], pixelRatio: number): Promise<Canvas> => {
+  const canvas = createCanvas(PREVIEW_WIDTH * pixelRatio, PREVIEW_HEIGHT * pixelRatio);
+  const paintLayers = await prepareLayers(layers, pixelRatio);
+  paintLayers(canvas.getContext('2d') as unknown as CanvasRenderingContext2D);
+  return canvas;
+};
+
+const maxChannelDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]));
+  }
+  return max;
+};
+
+const meanChannelDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+};
+
+const expectToMatchGolden = async (name: string, canvas: Canvas) => {
+  const file = path.join(GOLDEN_DIR, `${name}.png`);
+  if (process.env.UPDATE_GOLDEN || (!existsSync(file) && !process.env.CI)) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, canvas.toBuffer('image/png'));
+    return;
+  }
+  expect(existsSync(file), `missing golden image ${path.relative(process.cwd(), file)}`).toBe(true);
+
+  const golden = await loadImage(readFileSync(file));
+  expect([golden.width, golden.height]).toEqual([canvas.width, canvas.height]);
+  const goldenCanvas = createCanvas(golden.width, golden.height);
+  goldenCanvas.getContext('2d').drawImage(golden, 0, 0);
+  expect(maxChannelDifference(pixelsOf(canvas), pixelsOf(goldenCanvas))).toBeLessThanOrEqual(GOLDEN_TOLERANCE);
+};
+
+describe('compositionRenderer', () => {
+  it.each(Object.keys(CASES))('draws %s the same in the preview, the export and the golden image', async name => {
+    const preview = await renderPreview(CASES[name], 2);
+    const exportedLayers = await renderExport(CASES[name], 2, CLEAR_IMAGE);
+
+    expect(maxChannelDifference(pixelsOf(preview), pixelsOf(exportedLayers))).toBe(0);
+    await expectToMatchGolden(name, await renderExport(CASES[name], 2));
+  });
+
+  it('scales layers with the export size', async () => {
+    const layers = CASES.rotation;
+    const preview = await renderPreview(layers, 1);
+    expect(maxChannelDifference(pixelsOf(preview), pixelsOf(await renderExport(layers, 1, CLEAR_IMAGE)))).toBe(0);
+
+    const small = await renderExport(layers, 1);
+    // The 2x export is the 1x one drawn with twice the detail, not a different layout:
+    // scaled back down, only anti-aliased edges differ
+    const downscaled = createCanvas(PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    downscaled.getContext('2d').drawImage(await renderExport(layers, 2), 0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    expect(meanChannelDifference(pixelsOf(downscaled), pixelsOf(small))).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,261 @@
+import { ImageAdjustments, ImageLayer, Layer, ShapeLayer, TextElement, TextRunStyle } from '../types';
+import { createCanvas, loadImage } from './imageUtils';
+import { applyAdjustments } from './adjustments';
+import { getVisibleElements, isTextLayer } from './layers';
+import { shapeToDataUrl } from './shapes';
+import { HIGHLIGHT_PADDING_EM, getRunStyle, resolveRunColor } from './textRuns';
+import { LocalizedError } from './i18n';
+
+// The one renderer for layers: the editor preview (CompositionCanvas) and every
+// export draw through prepareLayers, so wrapping, stroke, shadow, gradient and
+// rotation can't drift between what the user sees and what they download.
+
+interface PlacedWord {
+  text: string;
+  run?: TextRunStyle;
+  size: number;
+  width: number;
+}
+
+interface TextLine {
+  words: PlacedWord[];
+  width: number;
+  // Largest font size on the line; it sets the line's height.
+  size: number;
+}
+
+// Where a smaller word's em box starts so its baseline lines up with bigger words.
+const BASELINE_RATIO = 0.8;
+
+const fontFor = (textEl: TextElement, size: number) => `bold ${size}px ${textEl.fontFamily}`;
+
+// Wraps word by word, measuring each word at its own run size, and keeps runs
+// of spaces as typed. Text is always drawn uppercase.
+const layoutTextLines = (ctx: CanvasRenderingContext2D, textEl: TextElement, scale: number): TextLine[] => {
+  const baseSize = textEl.fontSize * scale;
+  const maxWidth = textEl.width * scale;
+  ctx.letterSpacing = `${textEl.letterSpacing * scale}px`;
+  ctx.font = fontFor(textEl, baseSize);
+  const spaceWidth = ctx.measureText(' ').width;
+  const lines: TextLine[] = [];
+  let wordIndex = 0;
+
+  textEl.text.toUpperCase().split('\n').forEach(paragraph => {
+    let line: TextLine = { words: [], width: 0, size: baseSize };
+    paragraph.split(' ').forEach(part => {
+      const run = part ? getRunStyle(textEl, wordIndex++) : undefined;
+      const size = baseSize * (run?.fontScale ?? 1);
+      ctx.font = fontFor(textEl, size);
+      const width = ctx.measureText(part).width;
+      if (line.words.length > 0 && maxWidth > 0 && line.width + spaceWidth + width >= maxWidth) {
+        lines.push(line);
+        line = { words: [], width: 0, size: baseSize };
+      }
+      line.width = line.words.length > 0 ? line.width + spaceWidth + width : width;
+      line.words.push({ text: part, run, size, width });
+      line.size = Math.max(line.size, size);
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const getLineTops = (lines: TextLine[], lineHeight: number): number[] => {
+  let nextTop = 0;
+  return lines.map(line => {
+    const top = nextTop;
+    nextTop += line.size * lineHeight;
+    return top;
+  });
+};
+
+const getBlockHeight = (lines: TextLine[], lineTops: number[]) =>
+  lineTops[lineTops.length - 1] + lines[lines.length - 1].size;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Height of a text layer in preview pixels, from the same layout the renderer draws.
+export const measureTextElementHeight = (textEl: TextElement): number => {
+  measureContext = measureContext ?? document.createElement('canvas').getContext('2d');
+  if (!measureContext) return textEl.height;
+  const lines = layoutTextLines(measureContext, textEl, 1);
+  return Math.ceil(getBlockHeight(lines, getLineTops(lines, textEl.lineHeight)));
+};
+
+const drawTextElement = (ctx: CanvasRenderingContext2D, textEl: TextElement, scale: number) => {
+  ctx.save();
+
+  ctx.lineWidth = textEl.strokeWidth * scale;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  const lines = layoutTextLines(ctx, textEl, scale);
+  ctx.font = fontFor(textEl, textEl.fontSize * scale);
+  const spaceWidth = ctx.measureText(' ').width;
+
+  const lineTops = getLineTops(lines, textEl.lineHeight);
+  const maxWidth = Math.max(0, ...lines.map(line => line.width));
+  const textBlockHeight = getBlockHeight(lines, lineTops);
+
+  const x = textEl.position.x * scale;
+  const y = textEl.position.y * scale;
+
+  ctx.translate(x, y);
+  ctx.rotate(textEl.rotation * Math.PI / 180);
+
+  let baseFill: string | CanvasGradient = textEl.color;
+  if (textEl.useGradient) {
+    const angleRad = (textEl.gradientAngle - 90) * Math.PI / 180;
+    const x0 = maxWidth / 2 - Math.cos(angleRad) * maxWidth / 2;
+    const y0 = textBlockHeight / 2 - Math.sin(angleRad) * textBlockHeight / 2;
+    const x1 = maxWidth / 2 + Math.cos(angleRad) * maxWidth / 2;
+    const y1 = textBlockHeight / 2 + Math.sin(angleRad) * textBlockHeight / 2;
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    gradient.addColorStop(0, textEl.gradientColor1);
+    gradient.addColorStop(1, textEl.gradientColor2);
+    baseFill = gradient;
+  }
+
+  // Resolve every word's position once so highlights and glyphs line up
+  const placed = lines.flatMap((line, index) => {
+    let wordX = 0;
+    if (textEl.textAlign === 'center') {
+      wordX = (textEl.width * scale - line.width) / 2;
+    } else if (textEl.textAlign === 'right') {
+      wordX = textEl.width * scale - line.width;
+    }
+    return line.words.map(word => {
+      const position = { word, x: wordX, y: lineTops[index] + (line.size - word.size) * BASELINE_RATIO };
+      wordX += word.width + spaceWidth;
+      return position;
+    });
+  });
+
+  // Highlights sit behind all glyphs and don't cast the text shadow
+  placed.forEach(({ word, x: wordX, y: wordY }) => {
+    if (!word.run?.highlightColor || !word.text) return;
+    ctx.font = fontFor(textEl, word.size);
+    const metrics = ctx.measureText(word.text);
+    const ascent = metrics.fontBoundingBoxAscent ?? 0;
+    const height = (metrics.fontBoundingBoxAscent ?? 0) + (metrics.fontBoundingBoxDescent ?? word.size * 1.2);
+    const pad = word.size * HIGHLIGHT_PADDING_EM;
+    ctx.fillStyle = word.run.highlightColor;
+    ctx.fillRect(wordX - pad, wordY - ascent - pad, word.width + pad * 2, height + pad * 2);
+  });
+
+  ctx.shadowColor = textEl.shadowColor;
+  ctx.shadowBlur = textEl.shadowBlur * scale;
+  ctx.shadowOffsetX = textEl.shadowOffsetX * scale;
+  ctx.shadowOffsetY = textEl.shadowOffsetY * scale;
+
+  placed.forEach(({ word, x: wordX, y: wordY }) => {
+    if (!word.text) return;
+    ctx.font = fontFor(textEl, word.size);
+    ctx.strokeStyle = word.run?.strokeColor ?? textEl.strokeColor;
+    ctx.fillStyle = resolveRunColor(textEl, word.run) ?? baseFill;
+    ctx.strokeText(word.text, wordX, wordY);
+    ctx.fillText(word.text, wordX, wordY);
+  });
+
+  ctx.restore();
+};
+
+// Decoded pictures by source. Shape sources change with every edit, so only
+// the most recent ones are kept.
+const pictureCache = new Map<string, Promise<HTMLImageElement>>();
+const PICTURE_CACHE_SIZE = 60;
+
+const loadPicture = (src: string): Promise<HTMLImageElement> => {
+  const cached = pictureCache.get(src);
+  if (cached) return cached;
+  const loading = loadImage(src).catch(err => {
+    pictureCache.delete(src);
+    throw err;
+  });
+  pictureCache.set(src, loading);
+  if (pictureCache.size > PICTURE_CACHE_SIZE) {
+    pictureCache.delete(pictureCache.keys().next().value!);
+  }
+  return loading;
+};
+
+// Canvas silently falls back to a system font until a web font is loaded.
+const loadFonts = async (textLayers: TextElement[]) => {
+  const families = [...new Set(textLayers.map(el => el.fontFamily))];
+  try {
+    await Promise.all(families.map(family => document.fonts.load(`bold 16px ${family}`)));
+  } catch (err) {
+    console.error("Failed to load fonts for rendering:", err);
+  }
+};
+
+// Image and shape layers are drawn as pictures stretched to their box, rotated
+// around the top-left corner like text.
+const drawPictureLayer = (ctx: CanvasRenderingContext2D, layer: ImageLayer | ShapeLayer, picture: HTMLImageElement, scale: number) => {
+  ctx.save();
+  ctx.translate(layer.position.x * scale, layer.position.y * scale);
+  ctx.rotate(layer.rotation * Math.PI / 180);
+  if (layer.type === 'image') ctx.globalAlpha = layer.opacity;
+  // Set here rather than by the caller so the preview canvas resamples like the export
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(picture, 0, 0, layer.width * scale, layer.height * scale);
+  ctx.restore();
+};
+
+// Loads everything the visible layers need, then returns a synchronous painter
+// so a frame is never drawn half-finished. `scale` maps preview pixels to the
+// target canvas.
+export const prepareLayers = async (layers: Layer[], scale: number): Promise<(ctx: CanvasRenderingContext2D) => void> => {
+  const visible = getVisibleElements(layers);
+  await loadFonts(visible.filter(isTextLayer));
+  const pictures = new Map(await Promise.all(
+    visible
+      .filter((layer): layer is ImageLayer | ShapeLayer => !isTextLayer(layer))
+      .map(async layer => [layer.id, await loadPicture(layer.type === 'shape' ? shapeToDataUrl(layer, scale) : layer.src)] as const)
+  ));
+
+  return ctx => {
+    visible.forEach(layer => {
+      if (isTextLayer(layer)) {
+        drawTextElement(ctx, layer, scale);
+      } else {
+        drawPictureLayer(ctx, layer, pictures.get(layer.id)!, scale);
+      }
+    });
+  };
+};
+
+// Draws the base image with the visible layers on top, bottom to top in array
+// order, at the image's natural size unless `outputSize` asks for another one.
+// Layer positions are stored in editor preview pixels, so `previewWidth` (the
+// on-screen width of the editor image) sets the scale to the output size.
+// `adjustments` colour-correct the base image only, never the layers.
+export const renderComposition = async (
+  imageBase64: string,
+  textElements: Layer[],
+  previewWidth: number,
+  outputSize?: { width: number; height: number },
+  adjustments?: ImageAdjustments
+): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(`data:image/png;base64,${imageBase64}`);
+  const { canvas, ctx } = createCanvas(outputSize?.width ?? img.naturalWidth, outputSize?.height ?? img.naturalHeight);
+  const scale = previewWidth > 0 ? canvas.width / previewWidth : 1;
+
+  const paintLayers = await prepareLayers(textElements, scale);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  if (adjustments) applyAdjustments(ctx, canvas.width, canvas.height, adjustments);
+  paintLayers(ctx);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new LocalizedError('errors.encodeImage'));
+      }
+    }, type, quality);
+  });
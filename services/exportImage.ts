@@ -0,0 +1,106 @@
+import { AspectRatio, ExportSettings } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMAT_OPTIONS, EXPORT_SIZE_PRESETS } from '../constants';
+import { canvasToBlob } from './compositionRenderer';
+import { slugify } from './fileUtils';
+import { LocalizedError } from './i18n';
+
+const SETTINGS_KEY = 'export-settings';
+
+// Below this, JPEG/WebP artifacts around text become obvious
+const MIN_QUALITY = 0.4;
+const QUALITY_SEARCH_STEPS = 6;
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (err) {
+    console.error("Failed to read export settings:", err);
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getFormatOption = (format: ExportSettings['format']) =>
+  EXPORT_FORMAT_OPTIONS.find(option => option.value === format) ?? EXPORT_FORMAT_OPTIONS[0];
+
+// A size chosen for another aspect ratio would distort the image, so it falls
+// back to the first preset of the current one.
+export const resolveExportSize = (size: ExportSettings['size'], aspectRatio: AspectRatio): ExportSettings['size'] => {
+  if (!size) return null;
+  const presets = EXPORT_SIZE_PRESETS[aspectRatio];
+  const matches = presets.some(preset => preset.width === size.width && preset.height === size.height);
+  return matches ? size : { width: presets[0].width, height: presets[0].height };
+};
+
+export interface EncodedImage {
+  blob: Blob;
+  quality: number;
+  withinBudget: boolean;
+}
+
+const encode = async (canvas: HTMLCanvasElement, settings: ExportSettings, quality: number): Promise<Blob> => {
+  const { mimeType, label, lossy } = getFormatOption(settings.format);
+  const blob = await canvasToBlob(canvas, mimeType, lossy ? quality : undefined);
+  // Browsers without an encoder for the type silently return PNG
+  if (blob.type !== mimeType) {
+    throw new LocalizedError('errors.formatUnsupported', { format: label });
+  }
+  return blob;
+};
+
+// Encodes at the chosen quality and, when that's over the byte budget, searches
+// for the highest quality that fits. PNG is lossless, so it can only report
+// that it doesn't fit.
+export const encodeWithinBudget = async (canvas: HTMLCanvasElement, settings: ExportSettings): Promise<EncodedImage> => {
+  const blob = await encode(canvas, settings, settings.quality);
+  if (!settings.maxBytes || blob.size <= settings.maxBytes) {
+    return { blob, quality: settings.quality, withinBudget: true };
+  }
+  if (!getFormatOption(settings.format).lossy) {
+    return { blob, quality: settings.quality, withinBudget: false };
+  }
+
+  let best: EncodedImage | null = null;
+  let low = MIN_QUALITY;
+  let high = settings.quality;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const candidate = await encode(canvas, settings, quality);
+    if (candidate.size <= settings.maxBytes) {
+      best = { blob: candidate, quality, withinBudget: true };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  if (best) return best;
+
+  const smallest = await encode(canvas, settings, MIN_QUALITY);
+  return { blob: smallest, quality: MIN_QUALITY, withinBudget: smallest.size <= settings.maxBytes };
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Fills the {titulo}, {data}, {largura} and {altura} placeholders and adds the
+// format's extension.
+export const buildExportFileName = (
+  template: string,
+  values: { headline: string; width: number; height: number; date?: Date },
+  format: ExportSettings['format']
+): string => {
+  const name = (template.trim() || DEFAULT_EXPORT_SETTINGS.fileNameTemplate)
+    .replace(/\{titulo\}/g, slugify(values.headline))
+    .replace(/\{data\}/g, formatDate(values.date ?? new Date()))
+    .replace(/\{largura\}/g, String(values.width))
+    .replace(/\{altura\}/g, String(values.height))
+    // Whatever the user typed must still be a valid file name
+    .replace(/[\\/:*?"<>|]+/g, '-');
+  return `${name}.${getFormatOption(format).extension}`;
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
@@ -0,0 +1,82 @@
+import { AppState, AspectRatio, ExportSettings, FormatSource, ImageAdjustments, Layer, ReframeMode, ThumbnailFormat } from '../types';
+import { AIProvider } from './providers';
+import { renderComposition } from './compositionRenderer';
+import { buildExportFileName, encodeWithinBudget, resolveExportSize } from './exportImage';
+import { downloadBlob, slugify } from './fileUtils';
+import { reframeComposition } from './reframe';
+import { copyTextElements } from './variants';
+import { createZip } from './zip';
+import { LocalizedError } from './i18n';
+
+type FormatState = Pick<AppState, 'formats' | 'activeFormatId' | 'generatedImage' | 'textElements' | 'aspectRatio'>;
+
+export const createFormat = (
+  aspectRatio: AspectRatio,
+  source: FormatSource,
+  generatedImage: string | null,
+  textElements: Layer[]
+): ThumbnailFormat => ({
+  id: `format-${Date.now()}-${aspectRatio.replace(':', 'x')}`,
+  aspectRatio,
+  source,
+  generatedImage,
+  textElements,
+});
+
+// Writes the composition currently open in the editor back into its format.
+export const syncActiveFormat = (state: FormatState): ThumbnailFormat[] =>
+  state.formats.map(format =>
+    format.id === state.activeFormatId
+      ? { ...format, generatedImage: state.generatedImage, textElements: state.textElements, aspectRatio: state.aspectRatio as AspectRatio }
+      : format
+  );
+
+// Builds a format from the master: its base image cropped or outpainted to the
+// new ratio and a copy of its layers re-laid out for it.
+export const deriveFormat = async (
+  master: ThumbnailFormat,
+  aspectRatio: AspectRatio,
+  source: ReframeMode,
+  previewWidth: number,
+  provider: AIProvider | null
+): Promise<ThumbnailFormat> => {
+  if (!master.generatedImage) {
+    throw new LocalizedError('errors.formatNoBaseImage');
+  }
+
+  const reframed = await reframeComposition(
+    master.generatedImage, copyTextElements(master.textElements), master.aspectRatio, aspectRatio, source, previewWidth, provider
+  );
+  return createFormat(aspectRatio, source, reframed.generatedImage, reframed.textElements);
+};
+
+// Renders every format with the saved export settings and downloads them as
+// one zip. A size preset only applies to its own aspect ratio; other formats
+// get their ratio's first preset.
+export const exportFormatSet = async (
+  headline: string,
+  formats: ThumbnailFormat[],
+  previewWidth: number,
+  settings: ExportSettings,
+  adjustments?: ImageAdjustments
+) => {
+  const exportable = formats.filter(format => format.generatedImage);
+  if (exportable.length === 0) {
+    throw new LocalizedError('errors.noFormatImages');
+  }
+
+  const entries = [];
+  for (const format of exportable) {
+    const size = resolveExportSize(settings.size, format.aspectRatio);
+    const canvas = await renderComposition(format.generatedImage!, format.textElements, previewWidth, size ?? undefined, adjustments);
+    const { blob } = await encodeWithinBudget(canvas, settings);
+    const name = buildExportFileName(
+      `${settings.fileNameTemplate}_${format.aspectRatio.replace(':', 'x')}`,
+      { headline, width: canvas.width, height: canvas.height },
+      settings.format
+    );
+    entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  downloadBlob(createZip(entries), `${slugify(headline)}_formats.zip`);
+};
@@ -1,69 +1,247 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { FinalPrompt, UploadedImage, HeadlineVariation } from '../types';
+import { FinalPrompt, UploadedImage, HeadlineVariation, AspectRatio, ChatTurn, ContentLanguage, HeadlineCriterion } from '../types';
+import { AIProvider } from './providers';
+import { compositeMaskedEdit } from './mask';
+import { HeadlineCritique, scoreHeadline } from './headlineScoring';
+import { CONTENT_LANGUAGE_OPTIONS, EMOTIONAL_TRIGGERS, HEADLINE_CRITERIA } from '../constants';
+import { LocalizedError } from './i18n';
 
-const textModel = "gemini-2.5-flash";
+const languageName = (language: ContentLanguage) =>
+  CONTENT_LANGUAGE_OPTIONS.find(option => option.value === language)?.promptName ?? language;
 
-export const generateHeadlineVariations = async (originalHeadline: string, apiKey: string): Promise<HeadlineVariation[]> => {
-  if (!apiKey) {
-    throw new Error("A chave de API do Gemini não foi fornecida.");
-  }
-  const ai = new GoogleGenAI({ apiKey });
-
-  const response = await ai.models.generateContent({
-    model: textModel,
-    contents: `Você é um especialista em marketing para YouTube. Dado o título de vídeo "${originalHeadline}", gere 4 variações de headlines mais curtas, impactantes e com alto potencial de clique, em português. Para cada variação, identifique as palavras-chave (keywords) que a tornam poderosa.`,
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          variations: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                headline: {
-                  type: Type.STRING,
-                  description: "A variação da headline."
-                },
-                keywords: {
-                  type: Type.ARRAY,
-                  items: { type: Type.STRING },
-                  description: "As palavras-chave que tornam a headline impactante."
-                }
+// Older turns are dropped past this, oldest first, to keep requests small.
+const MAX_HEADLINE_HISTORY_TURNS = 16;
+
+export interface HeadlineGeneration {
+  variations: HeadlineVariation[];
+  // The conversation including this round, to pass back for the next one.
+  history: ChatTurn[];
+}
+
+// The first call starts a conversation about the headline; passing its
+// `history` back asks for more suggestions in the same thread, optionally
+// steered by a `refinement` ("mais curtas", "com um número"...) and the
+// user's pinned favourites.
+export const generateHeadlineVariations = async (
+  originalHeadline: string,
+  provider: AIProvider,
+  options: { history?: ChatTurn[]; refinement?: string; favourites?: string[]; language?: ContentLanguage } = {}
+): Promise<HeadlineGeneration> => {
+  const { history = [], refinement, favourites = [], language = 'pt-BR' } = options;
+  const prompt = history.length === 0
+    ? `Você é um especialista em marketing para YouTube. Dado o título de vídeo "${originalHeadline}", gere 4 variações de headlines mais curtas, impactantes e com alto potencial de clique, em ${languageName(language)}. Para cada variação, identifique as palavras-chave (keywords) que a tornam poderosa.`
+    : [
+        `Gere mais 4 variações de headline em ${languageName(language)} para o título "${originalHeadline}"${refinement ? `, ${refinement}` : ''}. Não repita nenhuma headline que você já sugeriu nesta conversa.`,
+        favourites.length > 0 ? `O usuário marcou como favoritas: ${favourites.map(f => `"${f}"`).join(', ')}. Use-as como referência de tom.` : '',
+        'Para cada variação, identifique as palavras-chave (keywords) que a tornam poderosa.',
+      ].filter(Boolean).join(' ');
+
+  const responseText = await provider.generateText({
+    prompt,
+    history,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        variations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              headline: {
+                type: 'string',
+                description: "A variação da headline."
               },
-              propertyOrdering: ["headline", "keywords"],
-            }
+              keywords: {
+                type: 'array',
+                items: { type: 'string' },
+                description: "As palavras-chave que tornam a headline impactante."
+              }
+            },
           }
         }
       }
     }
   });
 
+  const nextHistory: ChatTurn[] = [
+    ...history,
+    { role: 'user' as const, text: prompt },
+    { role: 'model' as const, text: responseText },
+  ].slice(-MAX_HEADLINE_HISTORY_TURNS);
+
   try {
-    const jsonResponse = JSON.parse(response.text);
-    return (jsonResponse.variations || []).map((v: { headline: string, keywords: string[] }) => ({
+    const jsonResponse = JSON.parse(responseText);
+    const variations = (jsonResponse.variations || []).map((v: { headline: string, keywords: string[] }) => ({
       text: v.headline,
       keywords: v.keywords,
+      score: scoreHeadline(v.headline, language),
     }));
+    return { variations, history: nextHistory };
   } catch (e) {
     console.error("Failed to parse headline variations JSON:", e);
     // Fallback if JSON is malformed
-    return response.text.split('\n').map(line => ({ text: line.trim().replace(/^- /, ''), keywords: [] })).filter(v => v.text);
+    const variations = responseText.split('\n')
+      .map(line => line.trim().replace(/^- /, ''))
+      .filter(Boolean)
+      .map(text => ({ text, keywords: [], score: scoreHeadline(text, language) }));
+    return { variations, history: nextHistory };
+  }
+};
+
+// Short overlay phrases for the image: they complement the title shown under
+// the thumbnail instead of repeating it.
+export const generateThumbnailTexts = async (
+  title: string,
+  provider: AIProvider,
+  language: ContentLanguage = 'pt-BR'
+): Promise<string[]> => {
+  const responseText = await provider.generateText({
+    prompt: `Você é um especialista em thumbnails do YouTube. O título do vídeo é "${title}". Sugira 6 frases curtas (de 2 a 4 palavras) para escrever NA IMAGEM da thumbnail, em ${languageName(language)}. Elas devem complementar o título, que já aparece abaixo da thumbnail, e não repeti-lo: provoque emoção ou curiosidade, destaque um resultado ou uma reação.`,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        phrases: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "Frases de 2 a 4 palavras para a imagem."
+        }
+      }
+    }
+  });
+
+  try {
+    const jsonResponse = JSON.parse(responseText);
+    return (jsonResponse.phrases || []).map((phrase: string) => phrase.trim()).filter(Boolean);
+  } catch (e) {
+    console.error("Failed to parse thumbnail texts JSON:", e);
+    throw new LocalizedError('errors.invalidThumbnailTexts');
+  }
+};
+
+// Re-localises on-image texts, in order. The layout stays as it is, so the
+// model is asked to keep each text about as long as the original.
+export const translateThumbnailTexts = async (
+  texts: string[],
+  language: ContentLanguage,
+  provider: AIProvider
+): Promise<string[]> => {
+  const responseText = await provider.generateText({
+    prompt: `Traduza os textos de uma thumbnail do YouTube para ${languageName(language)}. Localize em vez de traduzir ao pé da letra: adapte expressões e gírias para soar natural para quem fala essa língua, mantendo o tom. Cada texto precisa caber no mesmo espaço, então mantenha um tamanho parecido com o original e o mesmo uso de maiúsculas. Devolva exatamente ${texts.length} traduções, na mesma ordem.
+
+Textos:
+${texts.map((text, index) => `${index + 1}. ${text.replace(/\n/g, ' ')}`).join('\n')}`,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        translations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "As traduções, na mesma ordem dos textos recebidos."
+        }
+      }
+    }
+  });
+
+  let translations: unknown;
+  try {
+    translations = JSON.parse(responseText).translations;
+  } catch (e) {
+    console.error("Failed to parse translations JSON:", e);
+  }
+  if (!Array.isArray(translations) || translations.length !== texts.length) {
+    throw new LocalizedError('errors.incompleteTranslation');
+  }
+  return translations.map(text => String(text));
+};
+
+// The fields of one entry in the model's critique response. Every field is
+// checked before use; entries without a headline are dropped.
+interface RawCritique {
+  headline?: unknown;
+  trigger?: unknown;
+  critique?: unknown;
+}
+
+// Model marks outside 0-10, or not numbers at all, are clamped or skipped.
+const toCriterionScore = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(10, Math.max(0, value)) : undefined;
+
+const toHeadlineCritique = (entry: unknown): HeadlineCritique | null => {
+  if (!entry || typeof entry !== 'object') return null;
+  const raw = entry as RawCritique & Record<HeadlineCriterion, unknown>;
+  if (typeof raw.headline !== 'string') return null;
+
+  const breakdown: HeadlineCritique['breakdown'] = {};
+  for (const criterion of HEADLINE_CRITERIA) {
+    const score = toCriterionScore(raw[criterion.value]);
+    if (score !== undefined) breakdown[criterion.value] = score;
   }
+  const trigger = EMOTIONAL_TRIGGERS.find(option => option.value === raw.trigger)?.value;
+  return {
+    text: raw.headline,
+    breakdown,
+    trigger,
+    critique: typeof raw.critique === 'string' ? raw.critique : undefined,
+  };
+};
+
+// Asks the model to grade each headline on the same criteria as the local
+// heuristic. Headlines the model skips or garbles simply keep their local score.
+// The one-line critique is written in `critiqueLanguage`, the language of
+// whoever reads it, which may differ from the headlines' own.
+export const critiqueHeadlines = async (
+  headlines: string[],
+  provider: AIProvider,
+  language: ContentLanguage = 'pt-BR',
+  critiqueLanguage: ContentLanguage = language
+): Promise<HeadlineCritique[]> => {
+  const responseText = await provider.generateText({
+    prompt: `Você é um especialista em thumbnails do YouTube. Avalie cada headline abaixo, escritas em ${languageName(language)} para um público que fala essa língua, como texto de thumbnail (lido em menos de um segundo, em tela pequena). Dê notas de 0 a 10 para: tamanho (legibilidade na thumbnail), emoção (força do gatilho emocional), curiosidade (lacuna de curiosidade), números (uso de números concretos) e clareza. Classifique o gatilho emocional principal como um destes: ${EMOTIONAL_TRIGGERS.map(option => option.value).join(', ')}. Escreva uma crítica de uma frase, em ${languageName(critiqueLanguage)}, com o principal ponto a melhorar.
+
+Headlines:
+${headlines.map(headline => `- ${headline}`).join('\n')}`,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        critiques: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              headline: { type: 'string', description: "A headline avaliada, exatamente como recebida." },
+              length: { type: 'number' },
+              emotion: { type: 'number' },
+              curiosity: { type: 'number' },
+              numbers: { type: 'number' },
+              clarity: { type: 'number' },
+              trigger: { type: 'string' },
+              critique: { type: 'string' },
+            },
+          }
+        }
+      }
+    }
+  });
+
+  let critiques: unknown;
+  try {
+    critiques = JSON.parse(responseText).critiques;
+  } catch (e) {
+    console.error("Failed to parse headline critique JSON:", e);
+    throw new LocalizedError('errors.invalidCritique');
+  }
+  if (!Array.isArray(critiques)) {
+    throw new LocalizedError('errors.invalidCritique');
+  }
+  return critiques.map(toHeadlineCritique).filter((critique): critique is HeadlineCritique => critique !== null);
 };
 
 export const generateThumbnailPrompt = async (
   headline: string,
   style: string,
   images: UploadedImage[],
-  apiKey: string,
+  provider: AIProvider,
+  language: ContentLanguage = 'pt-BR',
 ): Promise<FinalPrompt> => {
-  if (!apiKey) {
-    throw new Error("A chave de API do Gemini não foi fornecida.");
-  }
-  const ai = new GoogleGenAI({ apiKey });
-
   const isEditing = images.length > 0;
 
   const imageContext = isEditing
@@ -100,115 +278,74 @@ export const generateThumbnailPrompt = async (
   -   **Contexto da Imagem:** ${imageContext}
   `;
 
-  const contents = images.length > 0
-    ? {
-        parts: [
-          ...images.map(image => ({
-            inlineData: {
-              mimeType: image.mimeType,
-              data: image.data,
-            },
-          })),
-          { text: "Use os assuntos dessas imagens para criar as instruções de edição." },
-        ],
-      }
-    : "Gere o prompt com base nas instruções do sistema sem uma imagem fornecida pelo usuário.";
-
-  const response = await ai.models.generateContent({
-    model: textModel,
-    contents,
-    config: {
-      systemInstruction: finalSystemInstruction,
-      responseMimeType: 'application/json',
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          englishPrompt: {
-            type: Type.STRING,
-            description: "O prompt detalhado ou as instruções para o gerador de imagem, em inglês."
-          },
-          portugueseTranslation: {
-            type: Type.STRING,
-            description: "Uma tradução direta do englishPrompt para verificação do usuário."
-          }
+  const responseText = await provider.generateText({
+    prompt: images.length > 0
+      ? "Use os assuntos dessas imagens para criar as instruções de edição."
+      : "Gere o prompt com base nas instruções do sistema sem uma imagem fornecida pelo usuário.",
+    images,
+    systemInstruction: finalSystemInstruction,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        englishPrompt: {
+          type: 'string',
+          description: "O prompt detalhado ou as instruções para o gerador de imagem, em inglês."
+        },
+        translation: {
+          type: 'string',
+          description: `Uma tradução direta do englishPrompt para ${languageName(language)}, para verificação do usuário.`
         }
       }
     }
   });
 
   try {
-    const jsonResponse: FinalPrompt = JSON.parse(response.text);
-    return jsonResponse;
+    const jsonResponse = JSON.parse(responseText);
+    return {
+      englishPrompt: jsonResponse.englishPrompt,
+      translation: language === 'en' ? '' : jsonResponse.translation ?? '',
+      translationLanguage: language,
+    };
   } catch(e) {
     console.error("Failed to parse final prompt JSON:", e);
-    throw new Error("A resposta da IA não estava no formato esperado.");
+    throw new LocalizedError('errors.unexpectedResponse');
   }
 };
 
 export const generateFinalImage = async (
   prompt: string,
-  apiKey: string,
+  provider: AIProvider,
   baseImages: UploadedImage[] = [],
-  aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9' = '16:9'
+  aspectRatio: AspectRatio = '16:9'
 ): Promise<string> => { 
-  if (!apiKey) {
-    throw new Error("A chave de API do Gemini não foi fornecida.");
-  }
-  const ai = new GoogleGenAI({ apiKey });
+  const [image] = await generateImageCandidates(prompt, provider, baseImages, aspectRatio, 1);
+  return image;
+};
 
+export const generateImageCandidates = async (
+  prompt: string,
+  provider: AIProvider,
+  baseImages: UploadedImage[] = [],
+  aspectRatio: AspectRatio = '16:9',
+  count = 1
+): Promise<string[]> => {
   if (baseImages.length > 0) {
-    // Edita a imagem usando gemini-2.5-flash-image-preview
-    const imageParts = baseImages.map(image => ({
-        inlineData: {
-            data: image.data,
-            mimeType: image.mimeType,
-        }
-    }));
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [
-          ...imageParts,
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
-
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePart?.inlineData) {
-      return imagePart.inlineData.data;
-    }
-    
-    // Se nenhuma imagem for encontrada, verifica se há uma explicação em texto.
-    const textPart = response.candidates?.[0]?.content?.parts?.find(part => part.text);
-    if (textPart?.text) {
-      throw new Error(`A IA de edição falhou e retornou uma mensagem: "${textPart.text}"`);
-    }
-
-    throw new Error("Ocorreu um erro inesperado: o modelo de edição de imagem não retornou uma imagem nem uma mensagem de texto.");
-
-  } else {
-    // Gera a imagem usando imagen-4.0-generate-001
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: prompt,
-      config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/png',
-        aspectRatio: aspectRatio,
-      },
-    });
-
-    if (response.generatedImages?.[0]?.image?.imageBytes) {
-      return response.generatedImages[0].image.imageBytes;
-    }
-    throw new Error("A IA de geração de imagem não conseguiu criar a imagem. Tente novamente com um prompt ou estilo diferente.");
+    // The edit models return a single image per call, so candidates are requested in parallel.
+    return Promise.all(Array.from({ length: count }, (_, candidateIndex) =>
+      provider.editImage({ prompt, images: baseImages, candidateIndex })
+    ));
   }
-};
\ No newline at end of file
+  return provider.generateImages({ prompt, aspectRatio, numberOfImages: count });
+};
+
+// Edits only the masked region: the model gets the mask, and its output is
+// pasted back over the original through that mask, so pixels outside it can't change.
+export const editImageRegion = async (
+  prompt: string,
+  provider: AIProvider,
+  image: UploadedImage,
+  mask: UploadedImage
+): Promise<string> => {
+  const edited = await provider.editImage({ prompt, images: [image], mask });
+  return compositeMaskedEdit(image, edited, mask);
+};
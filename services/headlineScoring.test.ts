@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { scoreHeadline } from './headlineScoring';
+
+describe('scoreHeadline', () => {
+  it('gives full number marks to digits', () => {
+    expect(scoreHeadline('5 erros que custam caro', 'pt-BR').breakdown.numbers).toBe(10);
+  });
+
+  it('counts spelled-out numbers in the headline language', () => {
+    expect(scoreHeadline('Dois truques que mudaram tudo', 'pt-BR').breakdown.numbers).toBe(7);
+    expect(scoreHeadline('Three tricks nobody uses', 'en').breakdown.numbers).toBe(7);
+    expect(scoreHeadline('Diez trucos para tu casa', 'es').breakdown.numbers).toBe(7);
+  });
+
+  it('does not count articles and pronouns as numbers', () => {
+    expect(scoreHeadline('Uma viagem inesquecível', 'pt-BR').breakdown.numbers).toBe(3);
+    expect(scoreHeadline('Um dia com um chef', 'pt-BR').breakdown.numbers).toBe(3);
+    expect(scoreHeadline('The one trick you need', 'en').breakdown.numbers).toBe(3);
+    expect(scoreHeadline('Una noche en el museo', 'es').breakdown.numbers).toBe(3);
+  });
+
+  it('only matches the number words of the headline language', () => {
+    expect(scoreHeadline('Dos amigos en la playa', 'es').breakdown.numbers).toBe(7);
+    expect(scoreHeadline('Dos amigos na praia', 'pt-BR').breakdown.numbers).toBe(3);
+  });
+});
@@ -0,0 +1,142 @@
+import { ContentLanguage, EmotionalTrigger, HeadlineCriterion, HeadlineScore, HeadlineScoreNote, HeadlineVariation } from '../types';
+import { EMOTIONAL_TRIGGERS, HEADLINE_CRITERIA, HEADLINE_READABILITY } from '../constants';
+
+// Local heuristic for headline quality on a thumbnail. It runs instantly and
+// offline; a model critique (see `critiqueHeadlines`) can refine it.
+
+export interface HeadlineCritique {
+  text: string;
+  breakdown: Partial<Record<HeadlineCriterion, number>>;
+  trigger?: EmotionalTrigger;
+  critique?: string;
+}
+
+// Word lists per content language, written without accents and in lower case
+// like the normalized headline they are matched against. "One" ("um", "uno"...)
+// is left out of the number words: it is far more often an article or pronoun.
+interface LanguageRules {
+  curiosityPatterns: RegExp[];
+  numberWords: string[];
+  fillerWords: string[];
+}
+
+const LANGUAGE_RULES: Record<ContentLanguage, LanguageRules> = {
+  'pt-BR': {
+    curiosityPatterns: [
+      /\bninguem\b/, /\bsegredo/, /\bverdade\b/, /\bpor que\b/, /\bo que\b/, /\bisso\b/,
+      /\bolha\b/, /\bdescobri/, /\bnunca\b/, /\bvoce nao\b/, /\bdeu\b/, /\?/, /\.\.\./,
+    ],
+    numberWords: ['dois', 'duas', 'tres', 'cinco', 'dez', 'cem', 'mil', 'milhao', 'primeiro'],
+    fillerWords: ['de', 'da', 'do', 'das', 'dos', 'e', 'a', 'o', 'as', 'os', 'que', 'para', 'com', 'em', 'no', 'na', 'um', 'uma'],
+  },
+  en: {
+    curiosityPatterns: [
+      /\bnobody\b/, /\bno one\b/, /\bsecret/, /\btruth\b/, /\bwhy\b/, /\bwhat\b/, /\bthis\b/,
+      /\blook\b/, /\bdiscovered\b/, /\bnever\b/, /\byou (don'?t|won'?t|didn'?t)\b/, /\bhappened\b/, /\?/, /\.\.\./,
+    ],
+    numberWords: ['two', 'three', 'five', 'ten', 'hundred', 'thousand', 'million', 'first'],
+    fillerWords: ['the', 'a', 'an', 'of', 'to', 'and', 'in', 'on', 'for', 'with', 'is', 'that', 'it', 'my'],
+  },
+  es: {
+    curiosityPatterns: [
+      /\bnadie\b/, /\bsecreto/, /\bverdad\b/, /\bpor que\b/, /\blo que\b/, /\besto\b/,
+      /\bmira\b/, /\bdescubri/, /\bnunca\b/, /\bno vas a\b/, /\bpaso\b/, /\?/, /\.\.\./,
+    ],
+    numberWords: ['dos', 'tres', 'cinco', 'diez', 'cien', 'mil', 'millon', 'primer', 'primero'],
+    fillerWords: ['de', 'del', 'la', 'el', 'las', 'los', 'y', 'a', 'que', 'para', 'por', 'con', 'en', 'un', 'una'],
+  },
+};
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const getWords = (normalized: string) => normalized.split(/[^a-z0-9]+/).filter(Boolean);
+
+const clampScore = (value: number) => Math.round(Math.min(10, Math.max(0, value)));
+
+const scoreLength = (wordCount: number, charCount: number) => {
+  const { idealWords, maxWords, idealChars, maxChars } = HEADLINE_READABILITY;
+  let score = 10;
+  if (wordCount > idealWords) score -= (wordCount - idealWords) * (wordCount > maxWords ? 2 : 1);
+  if (charCount > idealChars) score -= Math.ceil((charCount - idealChars) / (charCount > maxChars ? 4 : 8));
+  return clampScore(score);
+};
+
+const detectTrigger = (words: string[], language: ContentLanguage): { trigger: EmotionalTrigger; hits: number } => {
+  let best: { trigger: EmotionalTrigger; hits: number } = { trigger: 'neutral', hits: 0 };
+  for (const option of EMOTIONAL_TRIGGERS) {
+    const hits = words.filter(word => option.words[language].includes(word)).length;
+    if (hits > best.hits) best = { trigger: option.value, hits };
+  }
+  return best;
+};
+
+const scoreClarity = (text: string, words: string[], rules: LanguageRules) => {
+  let score = 10;
+  score -= words.filter(word => word.length > 12).length * 2;
+  if (words.length > 0 && words.filter(word => rules.fillerWords.includes(word)).length / words.length > 0.4) score -= 2;
+  if (/[!?]{2,}/.test(text)) score -= 1;
+  if (words.length > HEADLINE_READABILITY.maxWords + 2) score -= 3;
+  return clampScore(score);
+};
+
+export const getTotalScore = (breakdown: Record<HeadlineCriterion, number>) =>
+  Math.round(HEADLINE_CRITERIA.reduce((sum, criterion) => sum + breakdown[criterion.value] * criterion.weight, 0) * 10);
+
+// Derived from the local breakdown only, so saved scores can rebuild them.
+export const getScoreNotes = (breakdown: Record<HeadlineCriterion, number>): HeadlineScoreNote[] => {
+  const notes: HeadlineScoreNote[] = [];
+  if (breakdown.length < 6) notes.push('tooLong');
+  if (breakdown.emotion < 5) notes.push('noTrigger');
+  if (breakdown.curiosity >= 8) notes.push('strongCuriosity');
+  else if (breakdown.curiosity < 5) notes.push('weakCuriosity');
+  if (breakdown.numbers >= 8) notes.push('concreteNumber');
+  if (breakdown.clarity < 6) notes.push('hardToRead');
+  return notes;
+};
+
+// `language` is the language the headline is written in (the content language).
+export const scoreHeadline = (text: string, language: ContentLanguage): HeadlineScore => {
+  const rules = LANGUAGE_RULES[language];
+  const normalized = normalize(text.trim());
+  const words = getWords(normalized);
+  const charCount = text.trim().length;
+  const { trigger, hits } = detectTrigger(words, language);
+
+  const breakdown: Record<HeadlineCriterion, number> = {
+    length: scoreLength(words.length, charCount),
+    emotion: clampScore(hits === 0 ? 2 : 5 + hits * 2.5),
+    curiosity: clampScore(2 + rules.curiosityPatterns.filter(pattern => pattern.test(normalized)).length * 3),
+    numbers: /\d/.test(normalized) ? 10 : words.some(word => rules.numberWords.includes(word)) ? 7 : 3,
+    clarity: scoreClarity(text, words, rules),
+  };
+
+  return {
+    total: getTotalScore(breakdown),
+    breakdown,
+    trigger,
+    wordCount: words.length,
+    charCount,
+    notes: getScoreNotes(breakdown),
+  };
+};
+
+// Averages the model's marks into the local ones. Criteria the model skipped
+// keep the heuristic value; the local notes stay, since they say why.
+export const mergeCritique = (score: HeadlineScore, critique: HeadlineCritique): HeadlineScore => {
+  const breakdown = { ...score.breakdown };
+  for (const criterion of HEADLINE_CRITERIA) {
+    const modelScore = critique.breakdown[criterion.value];
+    if (typeof modelScore === 'number' && Number.isFinite(modelScore)) {
+      breakdown[criterion.value] = clampScore((breakdown[criterion.value] + modelScore) / 2);
+    }
+  }
+  const trigger = EMOTIONAL_TRIGGERS.some(option => option.value === critique.trigger) ? critique.trigger! : score.trigger;
+  return { ...score, breakdown, trigger, total: getTotalScore(breakdown), critique: critique.critique || score.critique };
+};
+
+export const withScore = (variation: HeadlineVariation, language: ContentLanguage): HeadlineVariation =>
+  variation.score ? variation : { ...variation, score: scoreHeadline(variation.text, language) };
+
+// Best first; the sort is stable, so ties keep the model's order.
+export const sortByScore = (variations: HeadlineVariation[], language: ContentLanguage): HeadlineVariation[] =>
+  variations.map(variation => withScore(variation, language)).sort((a, b) => b.score!.total - a.score!.total);
@@ -0,0 +1,79 @@
+import { AspectRatio, EmotionalTrigger, HeadlineCriterion, HeadlineRefinement, HeadlineScoreNote, ShapeKind, UiLanguage } from '../types';
+import { MessageKey, ptBR } from '../locales/pt-BR';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+
+export type { MessageKey } from '../locales/pt-BR';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const STORAGE_KEY = 'ui-language';
+
+const CATALOGS: Record<UiLanguage, Record<MessageKey, string>> = {
+  'pt-BR': ptBR,
+  en,
+  es,
+};
+
+const isUiLanguage = (value: string | null): value is UiLanguage => !!value && value in CATALOGS;
+
+// A saved choice wins; otherwise follow the browser, falling back to Portuguese.
+export const loadUiLanguage = (): UiLanguage => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isUiLanguage(stored)) return stored;
+  const browser = navigator.language.toLowerCase();
+  if (browser.startsWith('en')) return 'en';
+  if (browser.startsWith('es')) return 'es';
+  return 'pt-BR';
+};
+
+export const saveUiLanguage = (language: UiLanguage) => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
+
+// Unknown placeholders are left as written so a missing param shows up on screen.
+export const translate = (language: UiLanguage, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[language][key] ?? ptBR[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// Thrown by the services for errors the user should read. The message stays in
+// Portuguese for logs; the UI shows `key` in the current language.
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(translate('pt-BR', key, params));
+    this.name = 'LocalizedError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+// What to show for a caught error: translated if it came from the app,
+// as written if it came from elsewhere, `fallback` if it has no message.
+export const getErrorMessage = (error: unknown, fallback: string, t: Translate): string => {
+  if (error instanceof LocalizedError) return t(error.key, error.params);
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
+
+export const styleLabelKey = (value: string) => `style.${value}` as MessageKey;
+
+export const aspectRatioLabelKey = (value: AspectRatio) => `aspectRatio.${value}` as MessageKey;
+
+export const shapeLabelKey = (value: ShapeKind): MessageKey => `shape.${value}`;
+
+export const stickerLabelKey = (id: string) => `sticker.${id}` as MessageKey;
+
+export const criterionLabelKey = (value: HeadlineCriterion): MessageKey => `criterion.${value}`;
+
+export const triggerLabelKey = (value: EmotionalTrigger): MessageKey => `trigger.${value}`;
+
+export const refinementLabelKey = (value: HeadlineRefinement): MessageKey => `refinement.${value}`;
+
+export const scoreNoteKey = (value: HeadlineScoreNote): MessageKey => `scoreNote.${value}`;
@@ -0,0 +1,38 @@
+import { UploadedImage } from '../types';
+import { LocalizedError } from './i18n';
+
+export const toDataUrl = (image: UploadedImage): string => `data:${image.mimeType};base64,${image.data}`;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+// Offscreen 2D canvas for image processing, previews and exports.
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new LocalizedError('errors.processingCanvas');
+  }
+  return { canvas, ctx };
+};
+
+export const getImageSize = async (image: UploadedImage): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(toDataUrl(image));
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+export const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
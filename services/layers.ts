@@ -0,0 +1,74 @@
+import { ImageLayer, Layer, ShapeKind, ShapeLayer, TextElement } from '../types';
+import { Translate, shapeLabelKey } from './i18n';
+
+// textElements render in array order, so the last element is the top layer.
+
+export const isTextLayer = (layer: Layer): layer is TextElement => !layer.type || layer.type === 'text';
+
+export const getLayerName = (layer: Layer, t: Translate): string => {
+  if (layer.name?.trim()) return layer.name.trim();
+  if (layer.type === 'image') return t('layer.image');
+  if (layer.type === 'shape') return t(shapeLabelKey(layer.shape));
+  const firstLine = layer.text.split('\n')[0].trim();
+  return firstLine ? (firstLine.length > 24 ? `${firstLine.slice(0, 24)}…` : firstLine) : t('editor.text');
+};
+
+// New overlays start near the top-left and at most a third of the canvas wide.
+export const createImageLayer = (
+  src: string,
+  naturalSize: { width: number; height: number },
+  canvasWidth: number,
+  name?: string
+): ImageLayer => {
+  const width = Math.round(Math.min(naturalSize.width, Math.max(80, canvasWidth / 3)));
+  return {
+    id: `image-${Date.now()}`,
+    type: 'image',
+    src,
+    opacity: 1,
+    name,
+    position: { x: 40, y: 40 },
+    rotation: 0,
+    width,
+    height: Math.round(width * naturalSize.height / naturalSize.width),
+  };
+};
+
+export const createShapeLayer = (shape: ShapeKind, canvasWidth: number): ShapeLayer => {
+  const width = Math.round(Math.max(80, canvasWidth / 4));
+  const heights: Record<ShapeKind, number> = {
+    arrow: width / 2.5,
+    circle: width,
+    rectangle: width * 0.6,
+    underline: width / 6,
+  };
+  return {
+    id: `shape-${Date.now()}`,
+    type: 'shape',
+    shape,
+    color: shape === 'arrow' ? '#facc15' : '#ef4444',
+    strokeWidth: 8,
+    filled: shape === 'arrow',
+    position: { x: 60, y: 60 },
+    rotation: 0,
+    width,
+    height: Math.round(heights[shape]),
+  };
+};
+
+// Moves a layer to `targetIndex` in array (bottom-to-top) order.
+export const moveLayer = (elements: Layer[], id: string, targetIndex: number): Layer[] => {
+  const from = elements.findIndex(el => el.id === id);
+  if (from === -1) return elements;
+  const next = [...elements];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(targetIndex, next.length)), 0, moved);
+  return next;
+};
+
+// Elements the user can currently grab on the canvas.
+export const getInteractiveElements = (elements: Layer[]): Layer[] =>
+  elements.filter(el => !el.hidden && !el.locked);
+
+export const getVisibleElements = (elements: Layer[]): Layer[] =>
+  elements.filter(el => !el.hidden);
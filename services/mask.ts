@@ -0,0 +1,114 @@
+import { UploadedImage } from '../types';
+import { createCanvas, loadImage, toDataUrl } from './imageUtils';
+
+// Masks sent to image models are black-and-white PNGs the size of the image:
+// white where the model may change pixels, black where it must not.
+
+const toPng = (canvas: HTMLCanvasElement): UploadedImage => ({
+  data: canvas.toDataURL('image/png').split(',')[1],
+  mimeType: 'image/png',
+});
+
+export const hasPaintedPixels = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return false;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Turns whatever was painted on the editor overlay (any colour) into a mask
+// at the image's natural size.
+export const createMaskFromPaint = (paintCanvas: HTMLCanvasElement, width: number, height: number): UploadedImage => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(paintCanvas, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  return toPng(canvas);
+};
+
+// The mask as alpha: opaque where white. `invert` gives the OpenAI convention,
+// where the transparent pixels are the ones to edit.
+const maskToAlphaCanvas = async (mask: UploadedImage, width: number, height: number, invert = false) => {
+  const img = await loadImage(toDataUrl(mask));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = invert ? 255 - data[i] : data[i];
+    data[i] = data[i + 1] = data[i + 2] = 255;
+    data[i + 3] = alpha;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+export const maskToTransparentEditArea = async (mask: UploadedImage): Promise<UploadedImage> => {
+  const img = await loadImage(toDataUrl(mask));
+  return toPng(await maskToAlphaCanvas(mask, img.naturalWidth, img.naturalHeight, true));
+};
+
+// Softens the mask's edge inwards only: alpha is 0 on the painted border and
+// ramps up inside it, never rising above the original mask. The border pixels
+// are repeated around the mask first, so paint that runs off the image keeps
+// full strength at the image's edge.
+const featherInward = (alphaMask: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+  const { width, height } = alphaMask;
+  const pad = radius * 3;
+  const padded = createCanvas(width + pad * 2, height + pad * 2);
+  padded.ctx.imageSmoothingEnabled = false;
+  // [source start, source size, target start, target size] for the 3×3 slices
+  const slices = (size: number) => [[0, 1, 0, pad], [0, size, pad, size], [size - 1, 1, pad + size, pad]];
+  for (const [sx, sw, dx, dw] of slices(width)) {
+    for (const [sy, sh, dy, dh] of slices(height)) {
+      padded.ctx.drawImage(alphaMask, sx, sy, sw, sh, dx, dy, dw, dh);
+    }
+  }
+
+  const feathered = createCanvas(width, height);
+  feathered.ctx.filter = `blur(${radius}px)`;
+  feathered.ctx.drawImage(padded.canvas, -pad, -pad);
+
+  const hard = alphaMask.getContext('2d')!.getImageData(0, 0, width, height).data;
+  const imageData = feathered.ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 3; i < data.length; i += 4) {
+    // The blur leaves the edge at half strength; mapping [128, 255] to [0, 255]
+    // moves it inside, and the original mask caps it so nothing leaks out.
+    data[i] = Math.min(hard[i], Math.max(0, data[i] * 2 - 255));
+  }
+  feathered.ctx.putImageData(imageData, 0, 0);
+  return feathered.canvas;
+};
+
+// Pastes the edited pixels over the original only inside the mask, with the
+// edge feathered inwards so the seam doesn't show. Pixels outside the mask stay
+// byte-for-byte the original, whatever the model did there.
+export const compositeMaskedEdit = async (original: UploadedImage, edited: string, mask: UploadedImage): Promise<string> => {
+  const [originalImg, editedImg] = await Promise.all([
+    loadImage(toDataUrl(original)),
+    loadImage(`data:image/png;base64,${edited}`),
+  ]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  const alphaMask = await maskToAlphaCanvas(mask, width, height);
+  const feathered = featherInward(alphaMask, Math.max(1, Math.round(Math.max(width, height) / 300)));
+
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(editedImg, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(feathered, 0, 0);
+
+  const result = createCanvas(width, height);
+  result.ctx.drawImage(originalImg, 0, 0);
+  result.ctx.drawImage(patch.canvas, 0, 0);
+  return toPng(result.canvas).data;
+};
@@ -0,0 +1,190 @@
+import { AppState, ProjectData, Step, ThumbnailProject } from '../types';
+import { syncActiveVariant } from './variants';
+import { syncActiveFormat } from './formats';
+import { getScoreNotes } from './headlineScoring';
+import { LocalizedError } from './i18n';
+
+const DB_NAME = 'thumbnail-generator';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+
+// Bump when ProjectData changes in a way older files can't be read as-is,
+// and teach `migrateProject` how to upgrade them.
+export const PROJECT_FORMAT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.thumb.json';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ThumbnailProject[]> => {
+  const projects = await withStore<ThumbnailProject[]>('readonly', store => store.getAll());
+  return projects.map(migrateProject).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<ThumbnailProject | undefined> => {
+  const project = await withStore<ThumbnailProject | undefined>('readonly', store => store.get(id));
+  return project && migrateProject(project);
+};
+
+export const saveProject = async (project: ThumbnailProject): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const projectDataFromState = (state: AppState): ProjectData => ({
+  // Generations in flight and unpicked candidates aren't kept, so reopen on the
+  // editor if there is already a base image, or on the step that starts one
+  currentStep: state.currentStep === Step.PROMPT_GENERATION
+    ? (state.generatedImage ? Step.TEXT_EDITING : Step.IMAGE_UPLOAD)
+    : state.currentStep,
+  originalHeadline: state.originalHeadline,
+  contentLanguage: state.contentLanguage,
+  headlineVariations: state.headlineVariations,
+  headlineHistory: state.headlineHistory,
+  selectedHeadline: state.selectedHeadline,
+  thumbnailText: state.thumbnailText,
+  thumbnailTextOptions: state.thumbnailTextOptions,
+  selectedStyle: state.selectedStyle,
+  uploadedImages: state.uploadedImages,
+  finalPrompt: state.finalPrompt,
+  generatedImage: state.generatedImage,
+  textElements: state.textElements,
+  aspectRatio: state.aspectRatio,
+  variants: syncActiveVariant(state),
+  activeVariantId: state.activeVariantId,
+  formats: syncActiveFormat(state),
+  activeFormatId: state.activeFormatId,
+  imageAdjustments: state.imageAdjustments,
+});
+
+// Writes the latest data while keeping the name and creation date of an existing
+// record, so renames made from the projects list survive the next autosave.
+// `untitledName` names a new project that has no headline yet.
+export const autosaveProject = async (id: string, data: ProjectData, untitledName: string): Promise<void> => {
+  const existing = await getProject(id);
+  const now = Date.now();
+  await saveProject({
+    version: PROJECT_FORMAT_VERSION,
+    id,
+    name: existing?.name || data.selectedHeadline || data.originalHeadline || untitledName,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    data,
+  });
+};
+
+export const duplicateProject = async (project: ThumbnailProject, name: string): Promise<ThumbnailProject> => {
+  const now = Date.now();
+  const copy: ThumbnailProject = {
+    ...project,
+    id: createProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// How v1 files stored the prompt: the translation was always Portuguese.
+interface LegacyFinalPrompt {
+  englishPrompt: string;
+  portugueseTranslation: string;
+}
+
+const isLegacyFinalPrompt = (prompt: unknown): prompt is LegacyFinalPrompt =>
+  isRecord(prompt) && typeof prompt.portugueseTranslation === 'string';
+
+const migrateProject = (project: ThumbnailProject): ThumbnailProject => {
+  let data = project.data;
+  const finalPrompt: unknown = data.finalPrompt;
+  // v2: the prompt translation stopped being Portuguese-only
+  if (project.version < 2 && isLegacyFinalPrompt(finalPrompt)) {
+    const { portugueseTranslation, ...rest } = finalPrompt;
+    data = { ...data, finalPrompt: { ...rest, translation: portugueseTranslation, translationLanguage: 'pt-BR' } };
+  }
+  // v3: score notes became ids translated by the UI instead of Portuguese sentences
+  if (project.version < 3 && data.headlineVariations) {
+    data = {
+      ...data,
+      headlineVariations: data.headlineVariations.map(variation =>
+        variation.score ? { ...variation, score: { ...variation.score, notes: getScoreNotes(variation.score.breakdown) } } : variation
+      ),
+    };
+  }
+  return { ...project, version: PROJECT_FORMAT_VERSION, data };
+};
+
+export const serializeProject = (project: ThumbnailProject): string => JSON.stringify(project);
+
+// `fallbackName` is used when the file doesn't carry a name.
+export const parseProjectFile = (text: string, fallbackName: string): ThumbnailProject => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new LocalizedError('errors.projectMalformed');
+  }
+
+  if (!isRecord(parsed) || typeof parsed.version !== 'number' || !isRecord(parsed.data)) {
+    throw new LocalizedError('errors.projectInvalid');
+  }
+  if (parsed.version > PROJECT_FORMAT_VERSION) {
+    throw new LocalizedError('errors.projectTooNew');
+  }
+
+  const now = Date.now();
+  return migrateProject({
+    version: parsed.version,
+    // Imports always get a fresh id so they never overwrite a local project
+    id: createProjectId(),
+    name: typeof parsed.name === 'string' && parsed.name ? parsed.name : fallbackName,
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : now,
+    updatedAt: now,
+    // Fields missing from older files fall back to defaults when the project is opened
+    data: parsed.data as unknown as ProjectData,
+  });
+};
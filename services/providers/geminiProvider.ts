@@ -0,0 +1,137 @@
+import { GoogleGenAI, Type, Modality, Schema } from "@google/genai";
+import { AIProvider, JsonSchema } from './types';
+import { LocalizedError } from '../i18n';
+
+const textModel = "gemini-2.5-flash";
+const imageModel = "imagen-4.0-generate-001";
+const imageEditModel = "gemini-2.5-flash-image-preview";
+
+const MASK_INSTRUCTION = "The last image is a mask, not part of the scene. Apply the change only inside its white area and keep everything in its black area exactly as it is in the first image.";
+
+const schemaTypes: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = { type: schemaTypes[schema.type] };
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  if (schema.items) {
+    result.items = toGeminiSchema(schema.items);
+  }
+  return result;
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  if (!apiKey) {
+    throw new LocalizedError('errors.missingGeminiKey');
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    generateText: async ({ prompt, systemInstruction, images = [], responseSchema, history = [] }) => {
+      const parts = [
+        ...images.map(image => ({
+          inlineData: {
+            mimeType: image.mimeType,
+            data: image.data,
+          },
+        })),
+        { text: prompt },
+      ];
+      const contents = history.length > 0
+        ? [
+            ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+            { role: 'user', parts },
+          ]
+        : (images.length > 0 ? { parts } : prompt);
+
+      const response = await ai.models.generateContent({
+        model: textModel,
+        contents,
+        config: {
+          systemInstruction,
+          ...(responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema),
+          }),
+        },
+      });
+
+      return response.text ?? '';
+    },
+
+    generateImages: async ({ prompt, aspectRatio, numberOfImages }) => {
+      const response = await ai.models.generateImages({
+        model: imageModel,
+        prompt: prompt,
+        config: {
+          numberOfImages,
+          outputMimeType: 'image/png',
+          aspectRatio: aspectRatio,
+        },
+      });
+
+      const images = (response.generatedImages ?? [])
+        .map(generated => generated.image?.imageBytes)
+        .filter((data): data is string => !!data);
+      if (images.length > 0) {
+        return images;
+      }
+      throw new LocalizedError('errors.imageGenerationFailed');
+    },
+
+    editImage: async ({ prompt, images, mask }) => {
+      // The edit model has no mask input, so the mask goes last with an explanation
+      const imageParts = [...images, ...(mask ? [mask] : [])].map(image => ({
+        inlineData: {
+          data: image.data,
+          mimeType: image.mimeType,
+        }
+      }));
+
+      const response = await ai.models.generateContent({
+        model: imageEditModel,
+        contents: {
+          parts: [
+            ...imageParts,
+            {
+              text: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt,
+            },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+      if (imagePart?.inlineData) {
+        return imagePart.inlineData.data;
+      }
+
+      // Se nenhuma imagem for encontrada, verifica se há uma explicação em texto.
+      const textPart = response.candidates?.[0]?.content?.parts?.find(part => part.text);
+      if (textPart?.text) {
+        throw new LocalizedError('errors.editRefused', { message: textPart.text });
+      }
+
+      throw new LocalizedError('errors.editEmpty');
+    },
+  };
+};
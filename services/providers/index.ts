@@ -0,0 +1,72 @@
+import { ProviderSettings } from '../../types';
+import { AIProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalHttpProvider } from './localHttpProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AIProvider } from './types';
+
+const SETTINGS_KEY = 'ai-provider-settings';
+// The API key predates the provider settings and keeps its own storage key.
+const API_KEY_KEY = 'gemini-api-key';
+
+export const defaultProviderSettings: ProviderSettings = {
+  kind: 'gemini',
+  apiKey: '',
+  local: {
+    baseUrl: 'http://localhost:8080',
+    textModel: 'local-model',
+    imageModel: 'local-image-model',
+    imageApi: 'openai',
+  },
+};
+
+// Set MOCK_AI=true in .env.local to force the offline demo backend.
+export const isMockForced = process.env.MOCK_AI === 'true';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const apiKey = localStorage.getItem(API_KEY_KEY) || '';
+  if (isMockForced) {
+    return { ...defaultProviderSettings, kind: 'mock', apiKey };
+  }
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      ...defaultProviderSettings,
+      ...stored,
+      apiKey,
+      local: { ...defaultProviderSettings.local, ...stored.local },
+    };
+  } catch (e) {
+    console.error("Failed to parse provider settings:", e);
+    return { ...defaultProviderSettings, apiKey };
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  const { apiKey, ...rest } = settings;
+  localStorage.setItem(API_KEY_KEY, apiKey);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+};
+
+export const isProviderConfigured = (settings: ProviderSettings): boolean => {
+  switch (settings.kind) {
+    case 'local':
+      return !!settings.local.baseUrl.trim();
+    case 'mock':
+      return true;
+    default:
+      return !!settings.apiKey;
+  }
+};
+
+export const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.kind) {
+    case 'local':
+      return createLocalHttpProvider(settings.local);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings.apiKey);
+  }
+};
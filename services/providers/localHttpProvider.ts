@@ -0,0 +1,161 @@
+import { AspectRatio, LocalProviderSettings } from '../../types';
+import { base64ToBlob, getImageSize, toDataUrl } from '../imageUtils';
+import { maskToTransparentEditArea } from '../mask';
+import { AIProvider } from './types';
+import { LocalizedError } from '../i18n';
+
+// Pixel sizes sent to local image backends. Multiples of 64 keep Stable
+// Diffusion checkpoints happy and are accepted by OpenAI-compatible servers.
+const imageSizes: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1344, height: 768 },
+  '9:16': { width: 768, height: 1344 },
+  '1:1': { width: 1024, height: 1024 },
+  '4:3': { width: 1152, height: 896 },
+  '3:4': { width: 896, height: 1152 },
+};
+
+// The parts of the backends' JSON responses that are read. Anything else in the
+// payload is ignored, and every field is checked before use.
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+interface OpenAIImagesResponse {
+  data?: { b64_json?: unknown }[];
+}
+
+interface SdImagesResponse {
+  images?: unknown[];
+}
+
+const isImageData = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+export const createLocalHttpProvider = (settings: LocalProviderSettings): AIProvider => {
+  if (!settings.baseUrl.trim()) {
+    throw new LocalizedError('errors.localServerUrl');
+  }
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new LocalizedError('errors.localServerStatus', { status: response.status, path, details });
+    }
+    return response.json();
+  };
+
+  const postJson = (path: string, body: unknown) => request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const openAIImages = (json: unknown): string[] => {
+    const data = (json as OpenAIImagesResponse | null)?.data;
+    const images = (Array.isArray(data) ? data : []).map(item => item?.b64_json).filter(isImageData);
+    if (images.length === 0) {
+      throw new LocalizedError('errors.localServerBase64');
+    }
+    return images;
+  };
+
+  const sdImages = (json: unknown): string[] => {
+    const list = (json as SdImagesResponse | null)?.images;
+    const images = (Array.isArray(list) ? list : []).filter(isImageData);
+    if (images.length === 0) {
+      throw new LocalizedError('errors.localServerNoImage');
+    }
+    return images;
+  };
+
+  return {
+    name: 'local',
+
+    generateText: async ({ prompt, systemInstruction, images = [], responseSchema, history = [] }) => {
+      const userContent = images.length > 0
+        ? [
+            ...images.map(image => ({
+              type: 'image_url',
+              image_url: { url: toDataUrl(image) },
+            })),
+            { type: 'text', text: prompt },
+          ]
+        : prompt;
+
+      const json = await postJson('/v1/chat/completions', {
+        model: settings.textModel,
+        messages: [
+          ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+          ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+          { role: 'user', content: userContent },
+        ],
+        ...(responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: responseSchema },
+          },
+        }),
+      });
+
+      const choices = (json as ChatCompletionResponse | null)?.choices;
+      const content = Array.isArray(choices) ? choices[0]?.message?.content : undefined;
+      if (typeof content !== 'string') {
+        throw new LocalizedError('errors.localServerNoText');
+      }
+      return content;
+    },
+
+    generateImages: async ({ prompt, aspectRatio, numberOfImages }) => {
+      const { width, height } = imageSizes[aspectRatio];
+
+      if (settings.imageApi === 'sd-webui') {
+        const json = await postJson('/sdapi/v1/txt2img', { prompt, width, height, batch_size: numberOfImages });
+        return sdImages(json);
+      }
+
+      const json = await postJson('/v1/images/generations', {
+        model: settings.imageModel,
+        prompt,
+        n: numberOfImages,
+        size: `${width}x${height}`,
+        response_format: 'b64_json',
+      });
+      return openAIImages(json);
+    },
+
+    editImage: async ({ prompt, images, mask }) => {
+      if (images.length === 0) {
+        throw new LocalizedError('errors.noImageToEdit');
+      }
+
+      if (settings.imageApi === 'sd-webui') {
+        // img2img only takes a single init image, so the first one drives the edit.
+        const { width, height } = await getImageSize(images[0]);
+        const json = await postJson('/sdapi/v1/img2img', {
+          prompt,
+          init_images: [images[0].data],
+          denoising_strength: 0.6,
+          ...(mask && { mask: mask.data, inpainting_fill: 1, mask_blur: 4 }),
+          width,
+          height,
+        });
+        return sdImages(json)[0];
+      }
+
+      const form = new FormData();
+      form.append('model', settings.imageModel);
+      form.append('prompt', prompt);
+      form.append('response_format', 'b64_json');
+      images.forEach((image, index) => {
+        form.append(images.length > 1 ? 'image[]' : 'image', base64ToBlob(image.data, image.mimeType), `image-${index}.png`);
+      });
+      if (mask) {
+        const editArea = await maskToTransparentEditArea(mask);
+        form.append('mask', base64ToBlob(editArea.data, editArea.mimeType), 'mask.png');
+      }
+      const json = await request('/v1/images/edits', { method: 'POST', body: form });
+      return openAIImages(json)[0];
+    },
+  };
+};
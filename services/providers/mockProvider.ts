@@ -0,0 +1,132 @@
+import { AspectRatio, FinalPrompt, HeadlineVariation } from '../../types';
+import { createCanvas, getImageSize } from '../imageUtils';
+import { AIProvider, TextGenerationRequest } from './types';
+import { LocalizedError } from '../i18n';
+
+// Fixed responses for the offline demo mode. They never change, so QA scripts
+// can assert on them and designers always get the same editor state.
+export const MOCK_HEADLINE_VARIATIONS: HeadlineVariation[] = [
+  { text: 'O Segredo Que Ninguém Te Conta', keywords: ['Segredo', 'Ninguém'] },
+  { text: 'Fiz Isso Por 30 Dias e Olha No Que Deu', keywords: ['30 Dias', 'Olha'] },
+  { text: 'Pare de Errar Nisso Agora', keywords: ['Pare', 'Agora'] },
+  { text: 'O Método Mais Rápido de 2025', keywords: ['Método', 'Mais Rápido'] },
+];
+
+export const MOCK_THUMBNAIL_TEXTS = ['NÃO ACREDITEI', 'FUNCIONOU!', 'ANTES vs DEPOIS', 'O ERRO #1', 'VALE A PENA?', 'NUNCA MAIS'];
+
+export const MOCK_FINAL_PROMPT: FinalPrompt = {
+  englishPrompt: 'A cinematic, ultra-realistic 8K photograph of an excited creator in the foreground, dramatic rim lighting, vibrant high-contrast colors, blurred themed background, 16:9 composition, no text.',
+  translation: 'Uma fotografia 8K cinematográfica e ultrarrealista de um criador empolgado em primeiro plano, iluminação de contorno dramática, cores vibrantes e de alto contraste, fundo temático desfocado, composição 16:9, sem texto.',
+  translationLanguage: 'pt-BR',
+};
+
+const placeholderSizes: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '1:1': { width: 1024, height: 1024 },
+  '4:3': { width: 1024, height: 768 },
+  '3:4': { width: 768, height: 1024 },
+};
+
+// 32-bit FNV-1a; stable across browsers, which is all the placeholders need.
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const renderPlaceholder = (hash: string, width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const hue = parseInt(hash.slice(0, 4), 16) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const fontSize = Math.round(Math.min(width, height) / 10);
+  ctx.font = `bold ${fontSize}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillText(`#${hash}`, width / 2, height / 2);
+  ctx.font = `${Math.round(fontSize / 3)}px monospace`;
+  ctx.fillText('MOCK', width / 2, height / 2 + fontSize);
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Text requests are told apart by the top-level fields their schema asks for.
+const mockTextResponses: Record<string, (request: TextGenerationRequest) => unknown> = {
+  // Follow-up rounds of the headline conversation get numbered copies, so
+  // "more variations" still has something new to show
+  variations: ({ history = [] }) => {
+    const round = history.filter(turn => turn.role === 'model').length;
+    return {
+      variations: MOCK_HEADLINE_VARIATIONS.map(v => ({
+        headline: round === 0 ? v.text : `${v.text} (${round + 1})`,
+        keywords: v.keywords,
+      })),
+    };
+  },
+  englishPrompt: () => MOCK_FINAL_PROMPT,
+  phrases: () => ({ phrases: MOCK_THUMBNAIL_TEXTS }),
+  // Echoes the numbered texts from the prompt, so the layout round-trips unchanged
+  translations: ({ prompt }) => ({
+    translations: (prompt.match(/^\d+\. .*$/gm) ?? []).map(line => line.replace(/^\d+\. /, '')),
+  }),
+  critiques: () => ({
+    critiques: MOCK_HEADLINE_VARIATIONS.map((v, index) => ({
+      headline: v.text,
+      length: 8 - index,
+      emotion: 7,
+      curiosity: 9 - index * 2,
+      numbers: /\d/.test(v.text) ? 9 : 3,
+      clarity: 8,
+      trigger: 'curiosity',
+      critique: 'Crítica de demonstração: encurte para ganhar leitura.',
+    })),
+  }),
+};
+
+const findMockTextResponse = (request: TextGenerationRequest) => {
+  const fields = Object.keys(request.responseSchema?.properties ?? {});
+  const key = fields.find(field => mockTextResponses[field]);
+  return key ? mockTextResponses[key](request) : null;
+};
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  generateText: async request => {
+    const response = findMockTextResponse(request);
+    if (response === null) {
+      return `Resposta de demonstração #${hashString(request.prompt)}`;
+    }
+    return JSON.stringify(response);
+  },
+
+  generateImages: async ({ prompt, aspectRatio, numberOfImages }) => {
+    const { width, height } = placeholderSizes[aspectRatio];
+    // The first image hashes the bare prompt; extra candidates get an index suffix.
+    return Array.from({ length: numberOfImages }, (_, index) =>
+      renderPlaceholder(hashString(index === 0 ? prompt : `${prompt}#${index}`), width, height)
+    );
+  },
+
+  editImage: async ({ prompt, images, candidateIndex = 0 }) => {
+    if (images.length === 0) {
+      throw new LocalizedError('errors.noImageToEdit');
+    }
+    // Include the source image so successive edits produce different placeholders,
+    // and the candidate index, like generateImages, so candidates differ too.
+    const source = `${prompt}:${hashString(images[0].data)}`;
+    const hash = hashString(candidateIndex === 0 ? source : `${source}#${candidateIndex}`);
+    const { width, height } = await getImageSize(images[0]);
+    return renderPlaceholder(hash, width, height);
+  },
+});
@@ -0,0 +1,44 @@
+import { AspectRatio, ChatTurn, UploadedImage } from '../../types';
+
+// Minimal JSON Schema subset shared by every provider. Each implementation
+// translates it to whatever its API expects for structured output.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+export interface TextGenerationRequest {
+  prompt: string;
+  systemInstruction?: string;
+  images?: UploadedImage[];
+  responseSchema?: JsonSchema;
+  // Earlier turns of the same conversation; `prompt` is the new user message.
+  history?: ChatTurn[];
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages: number;
+}
+
+export interface ImageEditRequest {
+  prompt: string;
+  images: UploadedImage[];
+  // Black-and-white PNG the size of images[0]: white where the edit may change pixels.
+  mask?: UploadedImage;
+  // Which of several candidates requested for the same edit this is (0-based),
+  // so deterministic backends can return a different image for each.
+  candidateIndex?: number;
+}
+
+export interface AIProvider {
+  name: string;
+  // Returns the raw model text (a JSON string when `responseSchema` is set).
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  // Image methods resolve to base64-encoded PNG data without the data URL prefix.
+  generateImages: (request: ImageGenerationRequest) => Promise<string[]>;
+  editImage: (request: ImageEditRequest) => Promise<string>;
+}
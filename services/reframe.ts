@@ -0,0 +1,131 @@
+import { AspectRatio, Layer, ReframeMode, UploadedImage } from '../types';
+import { AIProvider } from './providers';
+import { generateFinalImage } from './geminiService';
+import { createCanvas, loadImage } from './imageUtils';
+import { isTextLayer } from './layers';
+import { TITLE_SAFE_AREAS, getCropFrame, parseAspectRatio } from './safeZones';
+import { LocalizedError } from './i18n';
+
+// Moving a composition to another aspect ratio: the base image is cropped
+// locally or extended by the image model, and layers are re-laid out.
+
+const OUTPAINT_PROMPT = 'Extend this image to fill the whole frame. Replace the blurred borders with a seamless, natural continuation of the scene, matching its lighting, perspective and style. Keep the sharp central area exactly as it is. Do not add any text, letters or logos.';
+
+const canvasToBase64 = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+// Keeps the centre of the image that fits `targetRatio`.
+export const cropImageToRatio = async (imageBase64: string, targetRatio: AspectRatio): Promise<string> => {
+  const img = await loadImage(`data:image/png;base64,${imageBase64}`);
+  const frame = getCropFrame(`${img.naturalWidth}:${img.naturalHeight}`, targetRatio);
+  const sx = Math.round(frame.x * img.naturalWidth);
+  const sy = Math.round(frame.y * img.naturalHeight);
+  const width = Math.round(frame.width * img.naturalWidth);
+  const height = Math.round(frame.height * img.naturalHeight);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, sx, sy, width, height, 0, 0, width, height);
+  return canvasToBase64(canvas);
+};
+
+// Places the whole image in a `targetRatio` frame over a blurred, stretched
+// copy of itself, which gives the model the colours to continue from.
+const padImageToRatio = async (imageBase64: string, targetRatio: AspectRatio): Promise<string> => {
+  const img = await loadImage(`data:image/png;base64,${imageBase64}`);
+  const ratio = parseAspectRatio(targetRatio);
+  const currentRatio = img.naturalWidth / img.naturalHeight;
+  const width = Math.round(ratio > currentRatio ? img.naturalHeight * ratio : img.naturalWidth);
+  const height = Math.round(ratio > currentRatio ? img.naturalHeight : img.naturalWidth / ratio);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px)`;
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.filter = 'none';
+  ctx.drawImage(img, (width - img.naturalWidth) / 2, (height - img.naturalHeight) / 2);
+  return canvasToBase64(canvas);
+};
+
+// Edit models don't always keep the input size, so the result is cropped back
+// to the exact ratio.
+export const outpaintImageToRatio = async (imageBase64: string, targetRatio: AspectRatio, provider: AIProvider): Promise<string> => {
+  const padded: UploadedImage = { data: await padImageToRatio(imageBase64, targetRatio), mimeType: 'image/png' };
+  const extended = await generateFinalImage(OUTPAINT_PROMPT, provider, [padded], targetRatio);
+  return cropImageToRatio(extended, targetRatio);
+};
+
+// Moves layers from one preview size to another: centres keep their relative
+// place, sizes scale with the smaller side and everything is pulled back into
+// the target format's title-safe area.
+export const relayoutLayers = (
+  layers: Layer[],
+  from: { width: number; height: number },
+  to: { width: number; height: number },
+  targetRatio: AspectRatio
+): Layer[] => {
+  const scale = Math.min(to.width / from.width, to.height / from.height);
+  const safe = TITLE_SAFE_AREAS[targetRatio];
+  const safeLeft = safe.x * to.width;
+  const safeTop = safe.y * to.height;
+  const safeWidth = safe.width * to.width;
+  const safeHeight = safe.height * to.height;
+
+  return layers.map(layer => {
+    let width = layer.width * scale;
+    let height = layer.height * scale;
+    // Text re-wraps to a narrower box; pictures shrink as a whole
+    const fit = isTextLayer(layer) ? 1 : Math.min(1, safeWidth / width, safeHeight / height);
+    width = Math.min(width * fit, safeWidth);
+    height *= fit;
+
+    const centerX = (layer.position.x + layer.width / 2) / from.width * to.width;
+    const centerY = (layer.position.y + layer.height / 2) / from.height * to.height;
+    const x = Math.min(Math.max(centerX - width / 2, safeLeft), safeLeft + safeWidth - width);
+    const y = Math.min(Math.max(centerY - height / 2, safeTop), Math.max(safeTop, safeTop + safeHeight - height));
+
+    const moved = { ...layer, position: { x: Math.round(x), y: Math.round(y) }, width: Math.round(width), height: Math.round(height) };
+    if (!isTextLayer(moved)) return moved;
+    return {
+      ...moved,
+      fontSize: Math.max(10, Math.round(moved.fontSize * scale)),
+      strokeWidth: Math.round(moved.strokeWidth * scale * 10) / 10,
+      letterSpacing: Math.round(moved.letterSpacing * scale),
+      shadowOffsetX: Math.round(moved.shadowOffsetX * scale),
+      shadowOffsetY: Math.round(moved.shadowOffsetY * scale),
+      shadowBlur: Math.round(moved.shadowBlur * scale),
+    };
+  });
+};
+
+export interface ReframedComposition {
+  aspectRatio: AspectRatio;
+  generatedImage: string;
+  textElements: Layer[];
+}
+
+// Reframes a whole composition; `previewWidth` is the editor width, which
+// stays the same whatever the aspect ratio.
+export const reframeComposition = async (
+  generatedImage: string,
+  textElements: Layer[],
+  currentRatio: string,
+  targetRatio: AspectRatio,
+  mode: ReframeMode,
+  previewWidth: number,
+  provider: AIProvider | null
+): Promise<ReframedComposition> => {
+  if (mode === 'outpaint' && !provider) {
+    throw new LocalizedError('errors.reframeProvider');
+  }
+
+  const reframedImage = mode === 'outpaint'
+    ? await outpaintImageToRatio(generatedImage, targetRatio, provider!)
+    : await cropImageToRatio(generatedImage, targetRatio);
+  return {
+    aspectRatio: targetRatio,
+    generatedImage: reframedImage,
+    textElements: relayoutLayers(
+      textElements,
+      { width: previewWidth, height: previewWidth / parseAspectRatio(currentRatio) },
+      { width: previewWidth, height: previewWidth / parseAspectRatio(targetRatio) },
+      targetRatio
+    ),
+  };
+};
@@ -0,0 +1,92 @@
+import { AspectRatio, LayerBase } from '../types';
+
+// All guide rectangles are fractions (0..1) of the preview, so they work at any size.
+export interface GuideRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type GuideIntrusion = 'badge' | 'margin' | 'crop';
+
+// YouTube's duration badge (plus a little breathing room) in the bottom-right corner.
+export const DURATION_BADGE_ZONE: GuideRect = { x: 0.8, y: 0.82, width: 0.2, height: 0.18 };
+
+// Area where text stays readable and uncropped on each format. Vertical formats
+// leave extra room at the bottom for the Shorts/Reels UI.
+export const TITLE_SAFE_AREAS: Record<AspectRatio, GuideRect> = {
+  '16:9': { x: 0.05, y: 0.05, width: 0.9, height: 0.9 },
+  '9:16': { x: 0.06, y: 0.12, width: 0.88, height: 0.62 },
+  '1:1': { x: 0.06, y: 0.06, width: 0.88, height: 0.88 },
+  '4:3': { x: 0.05, y: 0.05, width: 0.9, height: 0.9 },
+  '3:4': { x: 0.06, y: 0.08, width: 0.88, height: 0.84 },
+};
+
+export const parseAspectRatio = (ratio: string): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : 16 / 9;
+};
+
+// The centred region that survives cropping the current format to `target`.
+export const getCropFrame = (current: string, target: string): GuideRect => {
+  const currentRatio = parseAspectRatio(current);
+  const targetRatio = parseAspectRatio(target);
+  if (targetRatio < currentRatio) {
+    const width = targetRatio / currentRatio;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = currentRatio / targetRatio;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+// Axis-aligned bounds of a (possibly rotated) layer, in preview pixels.
+// Elements rotate around their top-left corner, matching the editor transform.
+export const getLayerBounds = (el: LayerBase) => {
+  const angle = el.rotation * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const corners = [[0, 0], [el.width, 0], [0, el.height], [el.width, el.height]].map(([x, y]) => ({
+    x: el.position.x + x * cos - y * sin,
+    y: el.position.y + x * sin + y * cos,
+  }));
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+};
+
+// `cropFrames` are the other formats shown as crop guides; a text cut off by
+// any of them counts as an intrusion too.
+export const findGuideIntrusions = (
+  el: LayerBase,
+  aspectRatio: string,
+  previewWidth: number,
+  cropFrames: AspectRatio[] = []
+): GuideIntrusion[] => {
+  if (previewWidth <= 0) return [];
+  const previewHeight = previewWidth / parseAspectRatio(aspectRatio);
+  const bounds = getLayerBounds(el);
+  const toPixels = (rect: GuideRect) => ({
+    left: rect.x * previewWidth,
+    top: rect.y * previewHeight,
+    right: (rect.x + rect.width) * previewWidth,
+    bottom: (rect.y + rect.height) * previewHeight,
+  });
+
+  const intrusions: GuideIntrusion[] = [];
+  const badge = toPixels(DURATION_BADGE_ZONE);
+  if (bounds.right > badge.left && bounds.left < badge.right && bounds.bottom > badge.top && bounds.top < badge.bottom) {
+    intrusions.push('badge');
+  }
+  const isOutside = (rect: GuideRect) => {
+    const area = toPixels(rect);
+    return bounds.left < area.left || bounds.top < area.top || bounds.right > area.right || bounds.bottom > area.bottom;
+  };
+  if (isOutside(TITLE_SAFE_AREAS[aspectRatio as AspectRatio] ?? TITLE_SAFE_AREAS['16:9'])) {
+    intrusions.push('margin');
+  }
+  if (cropFrames.some(target => target !== aspectRatio && isOutside(getCropFrame(aspectRatio, target)))) {
+    intrusions.push('crop');
+  }
+  return intrusions;
+};
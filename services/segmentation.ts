@@ -0,0 +1,118 @@
+import type { InferenceSession } from 'onnxruntime-web';
+import wasmUrl from 'onnxruntime-web/ort-wasm-simd-threaded.wasm?url';
+import { UploadedImage } from '../types';
+import { createCanvas, loadImage, toDataUrl } from './imageUtils';
+import { LocalizedError } from './i18n';
+
+// In-browser subject segmentation. The model is a U²-Net style salient-object
+// network (u2netp, fetched into public/models by `npm run fetch-model`), and the
+// runtime's wasm is bundled by Vite, so cut-outs work offline and photos never
+// leave the browser.
+export const SEGMENTATION_MODEL_URL = '/models/subject-segmentation.onnx';
+
+const INPUT_SIZE = 320;
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+let sessionPromise: Promise<InferenceSession> | null = null;
+
+// An ONNX file is a protobuf ModelProto, which starts with its ir_version field (tag 0x08)
+const isOnnxModel = (bytes: Uint8Array, contentType: string | null): boolean =>
+  !contentType?.includes('text/html') && bytes[0] === 0x08;
+
+const loadSession = (): Promise<InferenceSession> => {
+  if (!sessionPromise) {
+    sessionPromise = (async () => {
+      // Loaded on first use: the runtime is large and most sessions never need it
+      const ort = await import('onnxruntime-web/wasm');
+      ort.env.wasm.wasmPaths = { wasm: wasmUrl };
+      // Threads need cross-origin isolation, which the app doesn't set up
+      ort.env.wasm.numThreads = 1;
+
+      const response = await fetch(SEGMENTATION_MODEL_URL);
+      const model = response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+      // A missing file still answers 200 from the dev server's SPA fallback, with index.html
+      if (!model || !isOnnxModel(model, response.headers.get('content-type'))) {
+        throw new LocalizedError('errors.segmentationModelMissing', { url: SEGMENTATION_MODEL_URL });
+      }
+      return ort.InferenceSession.create(model, { executionProviders: ['wasm'] });
+    })().catch(err => {
+      sessionPromise = null;
+      throw err;
+    });
+  }
+  return sessionPromise;
+};
+
+// Returns the subject as an alpha mask (white, opaque where the subject is)
+// at the image's natural size.
+export const segmentSubject = async (image: UploadedImage): Promise<HTMLCanvasElement> => {
+  const [session, img] = await Promise.all([loadSession(), loadImage(toDataUrl(image))]);
+  const ort = await import('onnxruntime-web/wasm');
+
+  const input = createCanvas(INPUT_SIZE, INPUT_SIZE);
+  input.ctx.drawImage(img, 0, 0, INPUT_SIZE, INPUT_SIZE);
+  const pixels = input.ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE).data;
+  const area = INPUT_SIZE * INPUT_SIZE;
+  const tensorData = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    for (let c = 0; c < 3; c++) {
+      tensorData[c * area + i] = (pixels[i * 4 + c] / 255 - MEAN[c]) / STD[c];
+    }
+  }
+
+  const outputs = await session.run({
+    [session.inputNames[0]]: new ort.Tensor('float32', tensorData, [1, 3, INPUT_SIZE, INPUT_SIZE]),
+  });
+  const saliency = outputs[session.outputNames[0]].data as Float32Array;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < area; i++) {
+    min = Math.min(min, saliency[i]);
+    max = Math.max(max, saliency[i]);
+  }
+  const range = max - min || 1;
+
+  const small = createCanvas(INPUT_SIZE, INPUT_SIZE);
+  const maskData = small.ctx.createImageData(INPUT_SIZE, INPUT_SIZE);
+  for (let i = 0; i < area; i++) {
+    maskData.data[i * 4] = maskData.data[i * 4 + 1] = maskData.data[i * 4 + 2] = 255;
+    maskData.data[i * 4 + 3] = Math.round((saliency[i] - min) / range * 255);
+  }
+  small.ctx.putImageData(maskData, 0, 0);
+
+  const mask = createCanvas(img.naturalWidth, img.naturalHeight);
+  mask.ctx.imageSmoothingQuality = 'high';
+  mask.ctx.drawImage(small.canvas, 0, 0, img.naturalWidth, img.naturalHeight);
+  return mask.canvas;
+};
+
+// The image through the mask as a transparent PNG, trimmed to the subject.
+export const applyCutoutMask = async (image: UploadedImage, mask: HTMLCanvasElement): Promise<UploadedImage> => {
+  const img = await loadImage(toDataUrl(image));
+  const full = createCanvas(img.naturalWidth, img.naturalHeight);
+  full.ctx.drawImage(img, 0, 0);
+  full.ctx.globalCompositeOperation = 'destination-in';
+  full.ctx.drawImage(mask, 0, 0, img.naturalWidth, img.naturalHeight);
+
+  const { data, width, height } = full.ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 8) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  if (right < 0) {
+    throw new LocalizedError('errors.cutoutEmpty');
+  }
+
+  const trimmed = createCanvas(right - left + 1, bottom - top + 1);
+  trimmed.ctx.drawImage(full.canvas, -left, -top);
+  return { data: trimmed.canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png', cutout: true };
+};
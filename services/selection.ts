@@ -0,0 +1,75 @@
+import { AppState, Layer } from '../types';
+import { getLayerBounds } from './safeZones';
+
+export interface SelectionRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+type SelectionState = Pick<AppState, 'activeTextElementId' | 'selectedTextElementIds'>;
+
+// The last id is the primary element, whose properties the controls panel shows.
+export const selectionOf = (ids: string[]): SelectionState => ({
+  selectedTextElementIds: ids,
+  activeTextElementId: ids.length > 0 ? ids[ids.length - 1] : null,
+});
+
+// Grouped elements are always selected together. The given ids stay last so
+// the primary element doesn't change.
+export const expandToGroups = (elements: Layer[], ids: string[]): string[] => {
+  const groupIds = new Set(elements.filter(el => ids.includes(el.id) && el.groupId).map(el => el.groupId));
+  const expanded = elements.filter(el => el.groupId && groupIds.has(el.groupId) && !ids.includes(el.id)).map(el => el.id);
+  return [...expanded, ...ids];
+};
+
+// Shift-click adds an element (and its group) or removes it if already selected.
+export const toggleInSelection = (elements: Layer[], selected: string[], id: string): string[] => {
+  const unit = expandToGroups(elements, [id]);
+  return selected.includes(id)
+    ? selected.filter(selectedId => !unit.includes(selectedId))
+    : [...selected.filter(selectedId => !unit.includes(selectedId)), ...unit];
+};
+
+export const normalizeRect = (a: { x: number; y: number }, b: { x: number; y: number }): SelectionRect => ({
+  left: Math.min(a.x, b.x),
+  top: Math.min(a.y, b.y),
+  right: Math.max(a.x, b.x),
+  bottom: Math.max(a.y, b.y),
+});
+
+export const elementsInRect = (elements: Layer[], rect: SelectionRect): string[] =>
+  elements
+    .filter(el => {
+      const b = getLayerBounds(el);
+      return b.right > rect.left && b.left < rect.right && b.bottom > rect.top && b.top < rect.bottom;
+    })
+    .map(el => el.id);
+
+// Copies keep their grouping among themselves but never join the source groups.
+export const duplicateElements = (elements: Layer[], ids: string[], offset = 20): Layer[] => {
+  const stamp = Date.now();
+  const groupMap: Record<string, string> = {};
+  return elements
+    .filter(el => ids.includes(el.id))
+    .map((el, index) => {
+      if (el.groupId && !groupMap[el.groupId]) {
+        groupMap[el.groupId] = `group-${stamp}-${index}`;
+      }
+      return {
+        ...el,
+        id: `${el.type ?? 'text'}-${stamp}-${index}`,
+        position: { x: el.position.x + offset, y: el.position.y + offset },
+        groupId: el.groupId ? groupMap[el.groupId] : undefined,
+      };
+    });
+};
+
+export const groupElements = (elements: Layer[], ids: string[]): Layer[] => {
+  const groupId = `group-${Date.now()}`;
+  return elements.map(el => ids.includes(el.id) ? { ...el, groupId } : el);
+};
+
+export const ungroupElements = (elements: Layer[], ids: string[]): Layer[] =>
+  elements.map(el => ids.includes(el.id) ? { ...el, groupId: undefined } : el);
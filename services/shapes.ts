@@ -0,0 +1,61 @@
+import { ContentLanguage, ShapeLayer, StickerDefinition } from '../types';
+
+// Shapes and stickers are plain SVG so the editor (<img>) and the export
+// (drawImage) rasterise exactly the same markup.
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const shapeMarkup = (layer: ShapeLayer, w: number, h: number, stroke: number): string => {
+  const half = stroke / 2;
+  const fill = layer.filled ? layer.color : 'none';
+  switch (layer.shape) {
+    case 'circle':
+      return `<ellipse cx="${w / 2}" cy="${h / 2}" rx="${Math.max(0, w / 2 - half)}" ry="${Math.max(0, h / 2 - half)}" fill="${fill}" stroke="${layer.color}" stroke-width="${stroke}"/>`;
+    case 'rectangle':
+      return `<rect x="${half}" y="${half}" width="${Math.max(0, w - stroke)}" height="${Math.max(0, h - stroke)}" rx="${stroke}" fill="${fill}" stroke="${layer.color}" stroke-width="${stroke}"/>`;
+    case 'underline':
+      // A slightly curved brush stroke, like a marker underline
+      return `<path d="M ${half} ${h * 0.6} Q ${w / 2} ${h * 0.2} ${w - half} ${h * 0.5}" fill="none" stroke="${layer.color}" stroke-width="${Math.min(stroke, h)}" stroke-linecap="round"/>`;
+    case 'arrow': {
+      const head = Math.min(h, w / 2);
+      const shaft = Math.max(stroke, h * 0.35);
+      const top = (h - shaft) / 2;
+      return `<path d="M 0 ${top} L ${w - head} ${top} L ${w - head} 0 L ${w} ${h / 2} L ${w - head} ${h} L ${w - head} ${top + shaft} L 0 ${top + shaft} Z" fill="${layer.color}"/>`;
+    }
+    default:
+      return '';
+  }
+};
+
+// `scale` renders at export resolution instead of upscaling the preview raster.
+export const shapeToDataUrl = (layer: ShapeLayer, scale = 1): string => {
+  const w = Math.max(1, layer.width * scale);
+  const h = Math.max(1, layer.height * scale);
+  const markup = shapeMarkup(layer, w, h, layer.strokeWidth * scale);
+  return svgDataUrl(`<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">${markup}</svg>`);
+};
+
+// Stickers are rasterised at a generous fixed size; the layer scales them down.
+// Badges are written in `language`, the language of the thumbnail's texts.
+export const stickerToDataUrl = (sticker: StickerDefinition, language: ContentLanguage): { src: string; width: number; height: number } => {
+  if (sticker.emoji) {
+    const size = 256;
+    return {
+      src: svgDataUrl(`<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}"><text x="50%" y="54%" font-size="${size * 0.8}" text-anchor="middle" dominant-baseline="middle">${sticker.emoji}</text></svg>`),
+      width: size,
+      height: size,
+    };
+  }
+  const badge = sticker.badge!;
+  const text = badge.text[language];
+  const height = 120;
+  const width = Math.round(Math.max(2, text.length) * 52 + 80);
+  return {
+    src: svgDataUrl(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><rect x="4" y="4" width="${width - 8}" height="${height - 8}" rx="20" fill="${badge.background}" stroke="#ffffff" stroke-width="8"/><text x="50%" y="54%" font-family="Anton, Impact, sans-serif" font-size="72" font-weight="bold" fill="${badge.color}" text-anchor="middle" dominant-baseline="middle">${escapeXml(text)}</text></svg>`),
+    width,
+    height,
+  };
+};
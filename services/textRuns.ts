@@ -0,0 +1,56 @@
+import { TextElement, TextRunStyle } from '../types';
+
+// Words are whitespace-separated tokens counted across every line of the text,
+// so the preview spans and the canvas export agree on which word a run styles.
+
+export interface TextToken {
+  value: string;
+  wordIndex: number | null;
+}
+
+export const tokenizeText = (text: string): TextToken[] => {
+  let wordIndex = 0;
+  return text
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .map(value => ({ value, wordIndex: /\s/.test(value) ? null : wordIndex++ }));
+};
+
+export const getWords = (text: string): string[] =>
+  tokenizeText(text).filter(token => token.wordIndex !== null).map(token => token.value);
+
+// Highlight boxes extend this far (in em) around the word, without affecting layout.
+export const HIGHLIGHT_PADDING_EM = 0.1;
+
+export const getRunStyle = (el: TextElement, wordIndex: number | null): TextRunStyle | undefined =>
+  wordIndex === null ? undefined : el.runs?.find(run => run.wordIndex === wordIndex);
+
+const hasOverrides = (run: TextRunStyle) =>
+  Object.entries(run).some(([key, value]) => key !== 'wordIndex' && value !== undefined);
+
+// Merges `updates` into the runs of every given word; a field set to undefined clears it.
+export const updateRuns = (runs: TextRunStyle[] = [], wordIndexes: number[], updates: Partial<TextRunStyle>): TextRunStyle[] => {
+  const untouched = runs.filter(run => !wordIndexes.includes(run.wordIndex));
+  const updated = wordIndexes.map(wordIndex => ({
+    ...runs.find(run => run.wordIndex === wordIndex),
+    ...updates,
+    wordIndex,
+  }));
+  return [...untouched, ...updated.filter(hasOverrides)].sort((a, b) => a.wordIndex - b.wordIndex);
+};
+
+// "Milhão!" and "milhao" are the same word for keyword matching.
+const normalizeWord = (word: string) =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const findKeywordWords = (text: string, keywords: string[]): number[] => {
+  const keywordWords = new Set(keywords.flatMap(keyword => keyword.split(/\s+/)).map(normalizeWord).filter(Boolean));
+  return getWords(text)
+    .map((word, index) => (keywordWords.has(normalizeWord(word)) ? index : -1))
+    .filter(index => index !== -1);
+};
+
+// A highlight box would hide gradient-clipped glyphs in the editor, so
+// highlighted words on gradient text fall back to the first gradient colour.
+export const resolveRunColor = (el: TextElement, run: TextRunStyle | undefined): string | undefined =>
+  run?.color ?? (run?.highlightColor && el.useGradient ? el.gradientColor1 : undefined);
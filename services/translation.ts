@@ -0,0 +1,25 @@
+import { ContentLanguage, Layer } from '../types';
+import { AIProvider } from './providers';
+import { translateThumbnailTexts } from './geminiService';
+import { isTextLayer } from './layers';
+import { LocalizedError } from './i18n';
+
+// Swaps every text layer's text for its translation and leaves the rest of the
+// composition alone. Per-word styles are dropped, as their word indexes no
+// longer line up.
+export const translateComposition = async (
+  textElements: Layer[],
+  language: ContentLanguage,
+  provider: AIProvider
+): Promise<Layer[]> => {
+  const textLayers = textElements.filter(isTextLayer).filter(el => el.text.trim());
+  if (textLayers.length === 0) {
+    throw new LocalizedError('errors.nothingToTranslate');
+  }
+
+  const translations = await translateThumbnailTexts(textLayers.map(el => el.text), language, provider);
+  const translated = new Map(textLayers.map((el, index) => [el.id, translations[index]]));
+  return textElements.map(el =>
+    isTextLayer(el) && translated.has(el.id) ? { ...el, text: translated.get(el.id)!, runs: undefined } : el
+  );
+};
@@ -0,0 +1,94 @@
+import { AppState, AspectRatio, ExportSettings, ImageAdjustments, Layer, ThumbnailVariant } from '../types';
+import { renderComposition } from './compositionRenderer';
+import { encodeWithinBudget, getFormatOption, resolveExportSize } from './exportImage';
+import { downloadBlob } from './fileUtils';
+import { isTextLayer } from './layers';
+import { createZip } from './zip';
+import { LocalizedError } from './i18n';
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+type VariantState = Pick<AppState, 'variants' | 'activeVariantId' | 'generatedImage' | 'textElements'>;
+
+// Fresh ids so layers copied into a new variant never share identity with the source.
+export const copyTextElements = (textElements: Layer[]): Layer[] =>
+  textElements.map((el, index) => ({ ...el, id: `${el.type ?? 'text'}-${Date.now()}-${index}` }));
+
+export const createVariant = (
+  label: string,
+  headline: string,
+  generatedImage: string | null,
+  textElements: Layer[]
+): ThumbnailVariant => ({
+  id: `variant-${Date.now()}-${label}`,
+  label,
+  headline,
+  generatedImage,
+  textElements,
+});
+
+export const nextVariantLabel = (variants: ThumbnailVariant[]): string | null =>
+  VARIANT_LABELS.find(label => !variants.some(v => v.label === label)) ?? null;
+
+// Writes the composition currently open in the editor back into its variant.
+export const syncActiveVariant = (state: VariantState): ThumbnailVariant[] =>
+  state.variants.map(variant =>
+    variant.id === state.activeVariantId
+      ? { ...variant, generatedImage: state.generatedImage, textElements: state.textElements }
+      : variant
+  );
+
+// A variant's headline is its video title. The image only follows it when the
+// first text layer still shows the previous title, i.e. no separate on-image
+// phrase was chosen; otherwise the layers are left alone. Word styles belonged
+// to the old words, so they are dropped.
+export const applyHeadline = (textElements: Layer[], previousHeadline: string, headline: string): Layer[] => {
+  const headlineLayer = textElements.find(isTextLayer);
+  if (!headlineLayer || headlineLayer.text !== previousHeadline.toUpperCase()) return textElements;
+  return textElements.map(el => el === headlineLayer ? { ...headlineLayer, text: headline.toUpperCase(), runs: undefined } : el);
+};
+
+export const variantFileName = (setName: string, label: string, format: ExportSettings['format']) =>
+  `${setName}_${label}.${getFormatOption(format).extension}`;
+
+// One zip with an image per variant plus a manifest, encoded with the same
+// format, size and byte budget as a single export.
+
+export const exportVariantSet = async (
+  setName: string,
+  variants: ThumbnailVariant[],
+  previewWidth: number,
+  details: { aspectRatio: string; style: string },
+  settings: ExportSettings,
+  adjustments?: ImageAdjustments
+) => {
+  const exportable = variants.filter(v => v.generatedImage);
+  if (exportable.length === 0) {
+    throw new LocalizedError('errors.noVariantImages');
+  }
+
+  // Variants share one aspect ratio, so they all get the same output size
+  const size = resolveExportSize(settings.size, details.aspectRatio as AspectRatio);
+  const entries = [];
+  for (const variant of exportable) {
+    const canvas = await renderComposition(variant.generatedImage!, variant.textElements, previewWidth, size ?? undefined, adjustments);
+    const { blob } = await encodeWithinBudget(canvas, settings);
+    entries.push({ name: variantFileName(setName, variant.label, settings.format), data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  const manifest = {
+    set: setName,
+    createdAt: new Date().toISOString(),
+    aspectRatio: details.aspectRatio,
+    style: details.style,
+    variants: exportable.map(variant => ({
+      label: variant.label,
+      file: variantFileName(setName, variant.label, settings.format),
+      headline: variant.headline,
+      texts: variant.textElements.filter(isTextLayer).map(el => el.text),
+    })),
+  };
+  entries.push({ name: `${setName}_manifest.json`, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  downloadBlob(createZip(entries), `${setName}.zip`);
+};
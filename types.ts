@@ -11,22 +11,80 @@ export enum Step {
 export interface UploadedImage {
   data: string;
   mimeType: string;
+  // Transparent subject cut-out made in the browser; can also be placed as a layer.
+  cutout?: boolean;
 }
 
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ProviderKind = 'gemini' | 'local' | 'mock';
+
+export type LocalImageApi = 'openai' | 'sd-webui';
+
+export interface LocalProviderSettings {
+  baseUrl: string;
+  textModel: string;
+  imageModel: string;
+  imageApi: LocalImageApi;
+}
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  apiKey: string;
+  local: LocalProviderSettings;
+}
+
+// Language of the generated headlines and on-image text.
+export type ContentLanguage = 'pt-BR' | 'en' | 'es';
+
+// Language of the app's own labels and messages; kept per browser, not per project.
+export type UiLanguage = 'pt-BR' | 'en' | 'es';
+
 export interface FinalPrompt {
   englishPrompt: string;
-  portugueseTranslation: string;
+  // The prompt in the content language, for the user to check. Empty when the
+  // content language is English.
+  translation: string;
+  translationLanguage: ContentLanguage;
 }
 
-export interface TextElement {
+// Geometry and layer-panel state shared by every overlay layer. Positions and
+// sizes are in editor preview pixels; layers rotate around their top-left corner.
+export interface LayerBase {
   id: string;
+  position: { x: number; y: number };
+  rotation: number;
+  width: number;
+  height: number;
+  // Elements sharing a groupId are selected, moved and deleted as one unit.
+  groupId?: string;
+  // Layer panel state. Hidden layers are skipped by the preview and the export;
+  // locked ones can't be grabbed on the canvas.
+  name?: string;
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+// Per-word overrides on top of the text element's own style. `wordIndex`
+// counts whitespace-separated words across all lines of the text.
+export interface TextRunStyle {
+  wordIndex: number;
+  color?: string;
+  // Multiplier on the element's fontSize.
+  fontScale?: number;
+  strokeColor?: string;
+  highlightColor?: string;
+}
+
+// Text layers predate the other kinds, so saved projects may omit `type`.
+export interface TextElement extends LayerBase {
+  type?: 'text';
   text: string;
   fontFamily: string;
   fontSize: number;
   color: string;
   strokeColor: string;
   strokeWidth: number;
-  position: { x: number; y: number };
   letterSpacing: number;
   lineHeight: number;
   shadowColor: string;
@@ -37,29 +95,215 @@ export interface TextElement {
   gradientColor1: string;
   gradientColor2: string;
   gradientAngle: number;
-  rotation: number;
-  width: number;
-  height: number;
   textAlign: 'left' | 'center' | 'right';
+  runs?: TextRunStyle[];
+}
+
+// Uploaded PNG/WebP (transparency kept) or a built-in sticker, as a data URL.
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+  src: string;
+  opacity: number;
+}
+
+export type ShapeKind = 'arrow' | 'circle' | 'rectangle' | 'underline';
+
+export interface ShapeLayer extends LayerBase {
+  type: 'shape';
+  shape: ShapeKind;
+  color: string;
+  strokeWidth: number;
+  filled: boolean;
+}
+
+// Built-in sticker: either an emoji or a text badge. Added as an ImageLayer.
+export interface StickerDefinition {
+  id: string;
+  emoji?: string;
+  badge?: { text: Record<ContentLanguage, string>; background: string; color: string };
+}
+
+// Everything drawn over the base image. AppState keeps these in `textElements`
+// (the name predates non-text layers and is what saved projects use).
+export type Layer = TextElement | ImageLayer | ShapeLayer;
+
+// Editor-only overlays; they are never part of the exported image.
+export interface GuideOptions {
+  enabled: boolean;
+  durationBadge: boolean;
+  ruleOfThirds: boolean;
+  centerLines: boolean;
+  safeArea: boolean;
+  cropFrames: AspectRatio[];
+}
+
+// Local, non-destructive corrections of the base image, applied by the
+// renderer. Sliders run -100..100 (sharpen and vignette 0..100); 0 is neutral.
+export interface ImageAdjustments {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  vibrance: number;
+  temperature: number;
+  sharpen: number;
+  vignette: number;
+  // Colour grade named after a STYLES value, or null for none.
+  preset: string | null;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+// Output options for the final download. `size` null keeps the generated image's
+// own resolution; `maxBytes` null means no budget.
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number;
+  size: { width: number; height: number } | null;
+  maxBytes: number | null;
+  fileNameTemplate: string;
+}
+
+export type EmotionalTrigger = 'curiosity' | 'fear' | 'urgency' | 'surprise' | 'desire' | 'achievement' | 'neutral';
+
+export type HeadlineCriterion = 'length' | 'emotion' | 'curiosity' | 'numbers' | 'clarity';
+
+export type HeadlineRefinement = 'shorter' | 'curiosity' | 'number' | 'lessClickbait';
+
+// Why a headline scored as it did; the text lives in the locale catalogs under `scoreNote.<value>`.
+export type HeadlineScoreNote = 'tooLong' | 'noTrigger' | 'strongCuriosity' | 'weakCuriosity' | 'concreteNumber' | 'hardToRead';
+
+// How well a headline should work on a thumbnail. Each criterion is 0..10 and
+// `total` their weighted sum on 0..100. Scores start as the local heuristic and
+// are blended with the model's when a critique has been requested.
+export interface HeadlineScore {
+  total: number;
+  breakdown: Record<HeadlineCriterion, number>;
+  trigger: EmotionalTrigger;
+  wordCount: number;
+  charCount: number;
+  notes: HeadlineScoreNote[];
+  critique?: string;
 }
 
 export interface HeadlineVariation {
   text: string;
   keywords: string[];
+  score?: HeadlineScore;
+  // Pinned options survive regenerating and refining.
+  pinned?: boolean;
+}
+
+// One message of an earlier exchange with the text model, oldest first.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// One composition of an A/B test set. The active variant is edited through
+// AppState.generatedImage/textElements and only written back here on switch/save.
+export interface ThumbnailVariant {
+  id: string;
+  label: string;
+  headline: string;
+  generatedImage: string | null;
+  textElements: Layer[];
+}
+
+// Moving a base image to another aspect ratio: cropped locally or extended by
+// the image model.
+export type ReframeMode = 'crop' | 'outpaint';
+
+// How a format's base image was made from the master's.
+export type FormatSource = 'master' | ReframeMode;
+
+// One output format of a multi-format set; the first one is the master. Like
+// variants, the active format is edited through AppState.generatedImage,
+// textElements and aspectRatio and written back here on switch/save.
+export interface ThumbnailFormat {
+  id: string;
+  aspectRatio: AspectRatio;
+  source: FormatSource;
+  generatedImage: string | null;
+  textElements: Layer[];
+}
+
+// The subset of AppState that undo/redo restores in the editor.
+export interface EditorSnapshot {
+  textElements: Layer[];
+  generatedImage: string | null;
+  aspectRatio: string;
+  variants: ThumbnailVariant[];
+  activeVariantId: string | null;
+  formats: ThumbnailFormat[];
+  activeFormatId: string | null;
+  imageAdjustments: ImageAdjustments;
 }
 
 export interface AppState {
   currentStep: Step;
   originalHeadline: string;
+  contentLanguage: ContentLanguage;
   headlineVariations: HeadlineVariation[];
+  // The headline conversation so far, so new suggestions don't repeat old ones.
+  headlineHistory: ChatTurn[];
+  // The video title. What goes on the image is `thumbnailText`, a short phrase
+  // that complements the title; empty falls back to the title itself.
   selectedHeadline: string;
+  thumbnailText: string;
+  thumbnailTextOptions: string[];
   selectedStyle: string;
   uploadedImages: UploadedImage[];
   finalPrompt: FinalPrompt | null;
   generatedImage: string | null;
+  // Freshly generated base images waiting for the user to pick one.
+  imageCandidates: string[];
+  // Every base image produced this session, newest first.
+  imageGallery: string[];
   isLoading: boolean;
   error: string | null;
-  textElements: TextElement[];
+  textElements: Layer[];
   activeTextElementId: string | null;
+  // Includes activeTextElementId whenever anything is selected.
+  selectedTextElementIds: string[];
   aspectRatio: string;
+  variants: ThumbnailVariant[];
+  activeVariantId: string | null;
+  formats: ThumbnailFormat[];
+  activeFormatId: string | null;
+  imageAdjustments: ImageAdjustments;
+}
+
+// Everything needed to reopen a thumbnail exactly where it was left.
+export interface ProjectData {
+  currentStep: Step;
+  originalHeadline: string;
+  contentLanguage: ContentLanguage;
+  headlineVariations: HeadlineVariation[];
+  // The headline conversation so far, so new suggestions don't repeat old ones.
+  headlineHistory: ChatTurn[];
+  // The video title. What goes on the image is `thumbnailText`, a short phrase
+  // that complements the title; empty falls back to the title itself.
+  selectedHeadline: string;
+  thumbnailText: string;
+  thumbnailTextOptions: string[];
+  selectedStyle: string;
+  uploadedImages: UploadedImage[];
+  finalPrompt: FinalPrompt | null;
+  generatedImage: string | null;
+  textElements: Layer[];
+  aspectRatio: string;
+  variants: ThumbnailVariant[];
+  activeVariantId: string | null;
+  formats: ThumbnailFormat[];
+  activeFormatId: string | null;
+  imageAdjustments: ImageAdjustments;
+}
+
+export interface ThumbnailProject {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  data: ProjectData;
 }
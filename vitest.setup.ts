@@ -0,0 +1,35 @@
+import { createRequire } from 'node:module';
+import { GlobalFonts, Image as SkiaImage, createCanvas } from '@napi-rs/canvas';
+
+// The renderer runs on browser canvas APIs. Tests run it in Node on Skia
+// (@napi-rs/canvas) with a bundled copy of the default font, so golden images
+// don't depend on the fonts installed on the machine.
+const require = createRequire(import.meta.url);
+GlobalFonts.registerFromPath(require.resolve('@fontsource/anton/files/anton-latin-400-normal.woff2'), 'Anton');
+
+// Skia only decodes base64 data URLs; the shape layers are URL-encoded SVG.
+const toSkiaSource = (src: string): string | Buffer => {
+  const match = /^data:([^,]*?),(.*)$/s.exec(src);
+  if (!match || match[1].endsWith(';base64')) return src;
+  return Buffer.from(decodeURIComponent(match[2]));
+};
+
+class TestImage extends SkiaImage {}
+const skiaSrc = Object.getOwnPropertyDescriptor(SkiaImage.prototype, 'src')!;
+Object.defineProperty(TestImage.prototype, 'src', {
+  ...skiaSrc,
+  set(value: string) {
+    skiaSrc.set!.call(this, toSkiaSource(value));
+  },
+});
+
+Object.assign(globalThis, {
+  Image: TestImage,
+  document: {
+    createElement: (tagName: string) => {
+      if (tagName !== 'canvas') throw new Error(`document.createElement('${tagName}') is not available in tests`);
+      return createCanvas(300, 150);
+    },
+    fonts: { load: async () => [] },
+  },
+});